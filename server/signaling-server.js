@@ -0,0 +1,305 @@
+/**
+ * XTrans 信令服务器（可选）
+ *
+ * 浏览器之间无法直接发现对方，没有服务器时只能手动交换连接码。
+ * 在局域网中运行本服务器后，连接到同一服务器的设备会自动出现在设备列表中：
+ * - 设备连接后发送 announce 登记，服务器回复当前在线的其他设备（devices_updated），并通知其他设备（device_joined）
+ * - offer / answer / ice_candidate 按 to 字段转发给目标设备，转发时附上 from（offer / answer 的 restart 标记原样转发）
+ * - 设备断开时通知其他设备（device_left）
+ *
+ * 设备可以通过 join_room 加入房间（如 6 位房间码），之后只能看到和连接同一房间的设备；
+ * 未加入房间的设备位于公共大厅。部署在公网时设置 ROOMS_ONLY=1，大厅中的设备互相不可见。
+ *
+ * 设备还可以登记配对令牌（announce 的 pairings 字段或 update_pairings）：持有相同令牌的在线设备
+ * 以 paired_devices 推送给彼此，并可以互相转发信令，不受房间限制。令牌由双方共享的配对密钥派生，服务器不知道密钥。
+ *
+ * 连接建立后服务器下发随机数（challenge）。有身份密钥的设备在 announce 中附上对随机数的签名（identity 字段），
+ * 服务器将设备 ID 与首次证明的公钥绑定：之后该设备 ID 的登记必须由同一公钥签名，否则以 IDENTITY_REJECTED_CODE 关闭，
+ * 其他客户端因此无法冒用该设备 ID 把它挤下线。没有身份密钥的设备（如非安全上下文）不签名，仍可登记。
+ *
+ * 服务器只转发信令，文件和消息仍通过 WebRTC 点对点传输。
+ * 消息格式见 src/lib/device-manager.ts 中的 SignalingRequest 和 DeviceEvent。
+ *
+ * 用法：npm run signaling（端口默认 8080，可通过 PORT 环境变量指定）
+ */
+
+import { WebSocketServer } from 'ws';
+import { networkInterfaces } from 'os';
+import { randomBytes, webcrypto } from 'crypto';
+
+const PORT = Number(process.env.PORT) || 8080;
+const ROOMS_ONLY = process.env.ROOMS_ONLY === '1';
+const HEARTBEAT_INTERVAL = 30000;
+const MAX_PAYLOAD = 64 * 1024; // SDP 通常只有几 KB
+const REPLACED_CODE = 4000; // 同一设备在别处重新登记，客户端收到后延长间隔重试
+const IDENTITY_REJECTED_CODE = 4001; // 身份签名无效或与设备 ID 已绑定的公钥不一致
+const SIGNALING_CONTEXT = 'xtrans-signaling-v1'; // 与 src/lib/device-identity.ts 保持一致
+const MAX_IDENTITIES = 10000;
+const ROOM_PATTERN = /^[A-Z0-9]{4,12}$/;
+const LOBBY = '';
+const MAX_PAIRINGS = 256;
+const PAIRING_PATTERN = /^[0-9a-f]{64}$/;
+
+// deviceId -> { socket, device, room, pairings }
+const peers = new Map();
+// deviceId -> 首次证明的身份公钥（SPKI，Base64），设备下线后仍保留
+const identityKeys = new Map();
+
+function send(socket, event) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(event));
+  }
+}
+
+// 房间号无效时回到大厅
+function normalizeRoom(room) {
+  return typeof room === 'string' && ROOM_PATTERN.test(room) ? room : LOBBY;
+}
+
+// 同一房间中的其他设备
+function roomPeers(room, exceptId) {
+  if (room === LOBBY && ROOMS_ONLY) return [];
+  return [...peers.entries()]
+    .filter(([deviceId, peer]) => deviceId !== exceptId && peer.room === room)
+    .map(([, peer]) => peer);
+}
+
+function broadcast(event, room, exceptId) {
+  for (const peer of roomPeers(room, exceptId)) {
+    send(peer.socket, event);
+  }
+}
+
+function normalizePairings(pairings) {
+  if (!Array.isArray(pairings)) return new Set();
+  return new Set(pairings.filter((token) => typeof token === 'string' && PAIRING_PATTERN.test(token)).slice(0, MAX_PAIRINGS));
+}
+
+function isPaired(a, b) {
+  for (const token of a.pairings) {
+    if (b.pairings.has(token)) return true;
+  }
+  return false;
+}
+
+// 与设备共享配对令牌的其他在线设备
+function pairedPeers(deviceId) {
+  const self = peers.get(deviceId);
+  if (!self || self.pairings.size === 0) return [];
+  return [...peers.entries()]
+    .filter(([id, peer]) => id !== deviceId && isPaired(self, peer))
+    .map(([, peer]) => peer);
+}
+
+function sendPairedDevices(deviceId) {
+  const self = peers.get(deviceId);
+  if (self) {
+    send(self.socket, { type: 'paired_devices', devices: pairedPeers(deviceId).map((peer) => peer.device) });
+  }
+}
+
+// 设备上线、下线或配对变化时，更新受影响设备的配对列表
+function notifyPairedPeers(affected) {
+  for (const peer of affected) {
+    sendPairedDevices(peer.device.deviceId);
+  }
+}
+
+/**
+ * 验证 announce 中对 challenge 的签名
+ * @returns 签名有效时返回公钥，未签名时返回 null，签名无效时返回 false
+ */
+async function verifyIdentity(identity, deviceId, nonce) {
+  if (!identity) return null;
+  if (typeof identity.publicKey !== 'string' || typeof identity.signature !== 'string') return false;
+  try {
+    const key = await webcrypto.subtle.importKey(
+      'spki',
+      Buffer.from(identity.publicKey, 'base64'),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    const valid = await webcrypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      Buffer.from(identity.signature, 'base64'),
+      new TextEncoder().encode([SIGNALING_CONTEXT, deviceId, nonce].join('|'))
+    );
+    return valid ? identity.publicKey : false;
+  } catch {
+    return false;
+  }
+}
+
+function bindIdentity(deviceId, publicKey) {
+  identityKeys.delete(deviceId);
+  identityKeys.set(deviceId, publicKey);
+  // 超出上限时淘汰最早绑定的设备
+  if (identityKeys.size > MAX_IDENTITIES) {
+    identityKeys.delete(identityKeys.keys().next().value);
+  }
+}
+
+// 转发信令给同一房间或已配对的目标设备，目标不在线时丢弃（发起方会因超时而放弃）
+function relay(fromId, message, payload) {
+  const from = peers.get(fromId);
+  const target = typeof message.to === 'string' ? peers.get(message.to) : undefined;
+  if (target && (target.room === from.room || isPaired(from, target))) {
+    send(target.socket, { type: message.type, from: fromId, ...payload });
+  }
+}
+
+const wss = new WebSocketServer({ port: PORT, maxPayload: MAX_PAYLOAD });
+
+wss.on('connection', (socket, request) => {
+  let deviceId = null;
+  const nonce = randomBytes(16).toString('base64');
+  // 验证签名是异步的，消息按到达顺序逐条处理
+  let pending = Promise.resolve();
+  socket.isAlive = true;
+  socket.on('pong', () => {
+    socket.isAlive = true;
+  });
+  send(socket, { type: 'challenge', nonce });
+
+  socket.on('message', (raw) => {
+    pending = pending.then(() => handleMessage(raw)).catch((error) => {
+      console.error('处理信令消息失败:', error);
+    });
+  });
+
+  async function handleMessage(raw) {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    if (!message || typeof message.type !== 'string') return;
+
+    if (message.type === 'announce') {
+      const device = message.device;
+      if (!device || typeof device.deviceId !== 'string' || typeof device.deviceName !== 'string') return;
+
+      // 已绑定公钥的设备 ID 只接受同一公钥的签名
+      const publicKey = await verifyIdentity(message.identity, device.deviceId, nonce);
+      const boundKey = identityKeys.get(device.deviceId);
+      if (publicKey === false || (boundKey && publicKey !== boundKey)) {
+        console.warn(`拒绝登记: ${device.deviceId} 的身份签名无效或与已绑定的公钥不一致`);
+        socket.close(IDENTITY_REJECTED_CODE, 'identity rejected');
+        return;
+      }
+      if (socket.readyState !== socket.OPEN) return;
+      if (publicKey) {
+        bindIdentity(device.deviceId, publicKey);
+      }
+
+      // 同一设备重新登记（如刷新页面）时关闭旧连接
+      const previous = peers.get(device.deviceId);
+      if (previous && previous.socket !== socket) {
+        previous.socket.close(REPLACED_CODE, 'replaced');
+      }
+
+      deviceId = device.deviceId;
+      const room = normalizeRoom(message.room);
+      const info = {
+        ...device,
+        ipAddress: (request.socket.remoteAddress || '').replace(/^::ffff:/, ''),
+        online: true,
+        lastSeen: Date.now(),
+      };
+      const affected = pairedPeers(deviceId);
+      peers.set(deviceId, { socket, device: info, room, pairings: normalizePairings(message.pairings) });
+
+      const others = roomPeers(room, deviceId).map((peer) => peer.device);
+      send(socket, room === LOBBY
+        ? { type: 'devices_updated', devices: others }
+        : { type: 'room_joined', room, devices: others });
+      broadcast({ type: 'device_joined', device: info }, room, deviceId);
+      sendPairedDevices(deviceId);
+      notifyPairedPeers(new Set([...affected, ...pairedPeers(deviceId)]));
+      console.log(`设备上线: ${info.deviceName} (${info.ipAddress})，当前 ${peers.size} 台`);
+      return;
+    }
+
+    // 未登记的连接不能转发消息
+    if (!deviceId) return;
+    const self = peers.get(deviceId);
+    // 已被同一设备 ID 的新连接替换
+    if (!self || self.socket !== socket) return;
+
+    switch (message.type) {
+      case 'join_room': {
+        const room = normalizeRoom(message.room);
+        if (room === self.room) break;
+        broadcast({ type: 'device_left', deviceId }, self.room, deviceId);
+        self.room = room;
+        send(socket, {
+          type: 'room_joined',
+          room: room === LOBBY ? null : room,
+          devices: roomPeers(room, deviceId).map((peer) => peer.device),
+        });
+        broadcast({ type: 'device_joined', device: self.device }, room, deviceId);
+        break;
+      }
+      case 'update_pairings': {
+        const before = pairedPeers(deviceId);
+        self.pairings = normalizePairings(message.pairings);
+        sendPairedDevices(deviceId);
+        notifyPairedPeers(new Set([...before, ...pairedPeers(deviceId)]));
+        break;
+      }
+      case 'device_name_updated':
+        if (typeof message.deviceName !== 'string') return;
+        self.device.deviceName = message.deviceName;
+        broadcast({ type: 'device_name_updated', deviceId, deviceName: message.deviceName }, self.room, deviceId);
+        notifyPairedPeers(pairedPeers(deviceId));
+        break;
+      case 'offer':
+      case 'answer':
+        relay(deviceId, message, { sdp: message.sdp, restart: message.restart === true });
+        break;
+      case 'ice_candidate':
+        relay(deviceId, message, { candidate: message.candidate });
+        break;
+    }
+  }
+
+  socket.on('close', () => {
+    // 被同一设备的新连接替换时不通知下线
+    const peer = deviceId ? peers.get(deviceId) : undefined;
+    if (peer && peer.socket === socket) {
+      const affected = pairedPeers(deviceId);
+      peers.delete(deviceId);
+      notifyPairedPeers(affected);
+      broadcast({ type: 'device_left', deviceId }, peer.room);
+      console.log(`设备下线: ${deviceId}，当前 ${peers.size} 台`);
+    }
+  });
+});
+
+// 定期检测失效的连接（如设备休眠、断网）
+const heartbeat = setInterval(() => {
+  for (const socket of wss.clients) {
+    if (!socket.isAlive) {
+      socket.terminate();
+      continue;
+    }
+    socket.isAlive = false;
+    socket.ping();
+  }
+}, HEARTBEAT_INTERVAL);
+
+wss.on('close', () => clearInterval(heartbeat));
+
+wss.on('listening', () => {
+  console.log(`XTrans 信令服务器已启动，端口 ${PORT}${ROOMS_ONLY ? '（仅房间模式）' : ''}`);
+  for (const addresses of Object.values(networkInterfaces())) {
+    for (const address of addresses || []) {
+      if (address.family === 'IPv4' && !address.internal) {
+        console.log(`  在设置中填写: ws://${address.address}:${PORT}`);
+      }
+    }
+  }
+});
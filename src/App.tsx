@@ -9,21 +9,67 @@ import { HistoryDialog, HistoryItem } from "./components/history-dialog";
 import { SettingsDialog } from "./components/settings-dialog";
 import { ShareDialog } from "./components/share-dialog";
 import { ManualConnectionDialog } from "./components/manual-connection-dialog";
+import { ConnectionLink, forwardConnectionLink, takeConnectionLink } from "./lib/connection-link";
 import { ConnectionHistoryDialog } from "./components/connection-history-dialog";
+import { TransfersPanel } from "./components/transfers-panel";
 import { Button } from "./components/ui/button";
 import { Badge } from "./components/ui/badge";
 import { Toaster } from "./components/ui/sonner";
 import { Settings, History, Wifi, Info, Share2, QrCode, Clock } from "lucide-react";
 import { toast } from "sonner";
-import { useStore } from "./store/use-store";
+import { useStore, FileInfo, TransferTask } from "./store/use-store";
 import { HybridConnectionManager, P2PMessage } from "./lib/hybrid-connection-manager";
-import { P2PConnection } from "./lib/webrtc";
-import { DeviceInfo } from "./lib/device-manager";
+import { P2PConnection, TransferInterruptedError, TransferCancelledError, FileIntegrityError, ReceivedFile, TransferManifest, ManifestEntry } from "./lib/webrtc";
+import { transferResumeRegistry } from "./lib/transfer-resume";
+import { chooseFileSink, createSinkInDirectory, FileSink } from "./lib/file-sink";
+import { chooseFolderDestination, createDownloadDestination, createDirectoryDestination, createZipDestination, ManifestDestination, FolderSelection, sanitizeFolderName } from "./lib/folder-transfer";
+import { TransferQueue, DEFAULT_CONCURRENCY } from "./lib/transfer-queue";
+import { DeviceIdentity, loadDeviceIdentity } from "./lib/device-identity";
+import { AutoAcceptRule, IncomingFileInfo, findAutoAcceptRule, describeAutoAcceptRule, getSaveDirectory, loadAutoAcceptRules, saveAutoAcceptRules } from "./lib/auto-accept";
+import { DeviceEvent, DeviceInfo } from "./lib/device-manager";
+import { SignalingClient, SignalingTransport } from "./lib/signaling-client";
+import { applyIceSettings, loadIceSettings, saveIceSettings } from "./lib/ice-config";
+import { removePairing } from "./lib/pairing";
 import { v4 as uuidv4 } from 'uuid';
 
 let connectionManager: HybridConnectionManager | null = null;
+let transferQueue: TransferQueue | null = null;
+let signalingClient: SignalingTransport | null = null;
+let deviceIdentity: DeviceIdentity | null = null;
 const p2pConnections = new Map<string, P2PConnection>();
 const fileMetadataCache = new Map<string, any>();
+// 等待确认的传输清单（文件夹或批量传输）
+const manifestCache = new Map<string, TransferManifest>();
+
+// 已接受的清单，其中的文件自动接收
+interface ManifestReceive {
+  manifest: TransferManifest;
+  entries: ManifestEntry[]; // 接收方选择接收的文件
+  totalSize: number;
+  destination: ManifestDestination;
+  senderName: string;
+  receivedSize: number; // 已完成文件的总大小
+  inFlight: Map<string, number>; // 并发接收中的文件已收到的字节数
+  settled: number; // 已完成或失败的文件数
+  failed: number;
+  verified: boolean;
+  autoAccepted?: string; // 按规则自动接收时，匹配的规则说明
+}
+const manifestReceives = new Map<string, ManifestReceive>();
+
+// 按规则自动接收的单个文件，记录匹配的规则说明（续传后仍需写入历史）
+const autoAcceptReasons = new Map<string, string>();
+
+// 查找适用的自动接收规则，只对身份验证为受信任的连接生效
+function findAutoAcceptRuleFor(deviceId: string, files: IncomingFileInfo[]): AutoAcceptRule | null {
+  if (connectionManager?.getIdentityStatus(deviceId) !== 'trusted') {
+    return null;
+  }
+  return findAutoAcceptRule(useStore.getState().settings.autoAcceptRules || [], deviceId, files);
+}
+
+// 接收中的文件（或文件夹、批次）的状态
+type IncomingStatus = 'pending' | 'receiving' | 'paused' | 'interrupted' | 'corrupted' | 'cancelled' | 'completed' | 'rejected';
 
 function App() {
   const {
@@ -38,6 +84,7 @@ function App() {
     transfers,
     addTransfer,
     updateTransfer,
+    removeTransfer,
     history,
     addHistory,
     deleteHistory,
@@ -46,6 +93,10 @@ function App() {
     getDeviceById,
     connectionHistory,
     addConnectionHistory,
+    identityStatus,
+    setIdentityStatus,
+    connectionStatus,
+    setConnectionStatus,
   } = useStore();
 
   const [fileTransferDialog, setFileTransferDialog] = useState<{
@@ -63,8 +114,10 @@ function App() {
     fileSize: number;
     senderName: string;
     remoteDeviceId: string;
-    status: 'pending' | 'receiving' | 'completed' | 'rejected';
+    status: IncomingStatus;
     progress: number;
+    fileCount?: number; // 文件夹或批量传输中的文件数
+    items?: { fileId: string; name: string; size: number }[]; // 批量传输中可取消勾选的文件
   }>>(new Map());
   const [incomingFilesDialogOpen, setIncomingFilesDialogOpen] = useState(false);
 
@@ -82,10 +135,31 @@ function App() {
   const [settingsDialog, setSettingsDialog] = useState(false);
   const [shareDialog, setShareDialog] = useState(false);
   const [manualConnectionDialog, setManualConnectionDialog] = useState(false);
+  // 从连接链接打开应用时，预先填入连接对话框的连接码
+  const [connectionLink, setConnectionLink] = useState<ConnectionLink | null>(null);
   const [connectionHistoryDialog, setConnectionHistoryDialog] = useState(false);
+  // 当前使用的信令传输，房间码连接需要
+  const [signaling, setSignaling] = useState<SignalingTransport | null>(null);
+  // 可经信令服务器直接连接（无需交换连接码）的设备
+  const [reachableDevices, setReachableDevices] = useState<string[]>([]);
 
   // 初始化P2P发现和连接管理
   useEffect(() => {
+    // 从 localStorage 加载自动接收规则和信令服务器地址
+    updateSettings({
+      autoAcceptRules: loadAutoAcceptRules(),
+      signalingUrl: localStorage.getItem('xtrans-signaling-url') || '',
+    });
+
+    // 从 IndexedDB 加载 ICE 服务器配置
+    loadIceSettings().then(async (iceSettings) => {
+      updateSettings({ iceSettings });
+      const errors = await applyIceSettings(iceSettings);
+      if (errors.length > 0) {
+        toast.warning(`获取 TURN 凭据失败，部分网络环境下可能无法连接`);
+      }
+    });
+
     // 从 localStorage 加载连接历史
     const savedHistory = localStorage.getItem('xtrans-connection-history');
     if (savedHistory) {
@@ -102,7 +176,8 @@ function App() {
       // 初始化连接管理器
       connectionManager = new HybridConnectionManager({
         preferredType: 'webrtc',
-        fallbackTypes: ['websocket'],
+        // 浏览器无法监听端口，设备间的 WebSocket 直连不可用
+        fallbackTypes: [],
         timeout: 10000,
         retryAttempts: 3,
       });
@@ -127,11 +202,77 @@ function App() {
         lastSeen: Date.now(),
       };
 
+      // 本机身份密钥，用于为握手签名
+      deviceIdentity = await loadDeviceIdentity();
+      if (deviceIdentity) {
+        connectionManager.setIdentity(deviceIdentity);
+      }
+
       // 更新 Store 和 ConnectionManager
       setMyDevice(currentDevice);
       connectionManager.setLocalDeviceInfo(currentDevice);
       console.log("初始化完成，本地设备信息已设置:", currentDevice);
 
+      // 发送队列：任务结束时提示并记录历史
+      transferQueue = new TransferQueue(connectionManager);
+      transferQueue.addEventListener((event) => {
+        const { kind, name, deviceName, sentFiles, totalFiles } = event;
+        const label = kind === 'folder' ? `文件夹 ${name}` : kind === 'batch' ? name : `文件 ${name}`;
+
+        if (event.type === 'taskCancelled') {
+          toast.info(`已取消发送${label}`);
+          return;
+        }
+        if (event.type === 'taskFailed' && event.reason === 'rejected') {
+          toast.error(`${label}被接收方拒绝`);
+          return;
+        }
+        if (event.type === 'taskFailed' && event.reason === 'unsupported') {
+          toast.error(`${deviceName} 的版本过旧，不支持接收${label}`);
+          return;
+        }
+        if (event.type === 'taskFailed' && sentFiles.length === 0) {
+          toast.error(`${label}发送失败`);
+          return;
+        }
+
+        if (event.type === 'taskFailed') {
+          toast.warning(`已发送 ${sentFiles.length}/${totalFiles} 个文件`);
+        } else {
+          toast.success(`${label}发送成功`);
+        }
+        showNotification(
+          kind === 'folder' ? '文件夹发送成功' : '文件发送成功',
+          `${label}已发送到 ${deviceName}`,
+          { sound: true }
+        );
+
+        if (kind === 'folder') {
+          addHistory({
+            id: Date.now().toString(),
+            type: "file",
+            timestamp: Date.now(),
+            deviceName,
+            direction: "sent",
+            fileName: name,
+            fileSize: sentFiles.reduce((sum, file) => sum + file.size, 0),
+            fileCount: sentFiles.length,
+          });
+          return;
+        }
+        for (const file of sentFiles) {
+          addHistory({
+            id: `${Date.now()}-${file.name}`,
+            type: "file",
+            timestamp: Date.now(),
+            deviceName,
+            direction: "sent",
+            fileName: file.name,
+            fileSize: file.size,
+          });
+        }
+      });
+
       // 监听连接管理器事件
       connectionManager.addEventListener((event) => {
         console.log("App收到事件:", event.type, event);
@@ -145,6 +286,39 @@ function App() {
 
           toast.success(`已连接到设备: ${device.deviceName}`);
           showNotification('设备已连接', `${device.deviceName} 已上线`, { sound: true });
+        } else if (event.type === 'reachabilityChanged') {
+          setReachableDevices(connectionManager?.getReachableDevices() ?? []);
+        } else if (event.type === 'connectionStateChanged' && event.state) {
+          const previous = useStore.getState().connectionStatus[event.deviceId];
+          const { status } = event.state;
+          setConnectionStatus(event.deviceId, status);
+
+          const name = getDeviceById(event.deviceId)?.deviceName;
+          if (name && status === 'reconnecting') {
+            toast.warning(`与 ${name} 的连接中断，正在重连...`);
+          } else if (name && status === 'connected' && previous === 'reconnecting') {
+            toast.success(`已重新连接到 ${name}`);
+          } else if (status === 'failed' && previous === 'reconnecting') {
+            // 重连失败，从设备列表中移除
+            if (name) {
+              toast.error(`与 ${name} 的连接已断开`);
+            }
+            removeDevice(event.deviceId);
+          }
+        } else if (event.type === 'identityChecked' && event.identity) {
+          setIdentityStatus(event.deviceId, event.identity);
+          if (event.identity === 'mismatch') {
+            // 连接已被断开，名称取自对方握手中声称的设备信息
+            const name = event.message?.data?.deviceName || event.deviceId;
+            toast.error(`${name} 的身份验证失败，可能是冒充的设备，已断开连接`, { duration: 10000 });
+            showNotification('设备身份异常', `${name} 与已信任设备的身份不符`, { sound: true });
+          }
+        } else if (event.type === 'protocolIncompatible') {
+          const name = event.message?.data?.deviceName || event.deviceId;
+          toast.error(`${name} 的版本与本机不兼容，请双方更新到最新版本`);
+        } else if (event.type === 'transferResumed' && event.message) {
+          // 历史记录由发送队列在任务结束时添加
+          toast.success(`文件 ${event.message.data.fileName} 续传完成`);
         } else if (event.type === 'messageReceived' && event.message) {
           const { type, data } = event.message;
           const senderId = event.deviceId;
@@ -173,30 +347,97 @@ function App() {
           } else if (type === 'file') {
             // data 是原始的 DataMessage
             const msg = data as any;
-            if (msg.type === 'metadata') {
+            if (msg.type === 'metadata' && msg.manifestId && manifestReceives.has(msg.manifestId)) {
+               // 已接受的清单中的文件，直接接收
+               handleManifestEntry(msg, senderId);
+            } else if (msg.type === 'metadata' && msg.manifestId) {
+               // 所属清单已取消或已结束
+               connectionManager?.rejectFile(senderId, msg.fileId);
+            } else if (msg.type === 'manifest') {
+               // 收到文件夹或批量传输请求
+               const manifest = msg as TransferManifest;
+               const isBatch = manifest.kind === 'batch';
+               // 文件夹名称用作保存目录和 ZIP 中的顶层目录，不能包含路径
+               if (!isBatch && !sanitizeFolderName(manifest.rootName)) {
+                 console.warn('拒绝文件夹名称无效的清单:', manifest.rootName);
+                 connectionManager?.respondToManifest(senderId, manifest.manifestId, null);
+                 return;
+               }
+               const incoming = {
+                 fileName: isBatch ? `${manifest.entries.length} 个文件` : manifest.rootName,
+                 fileSize: manifest.totalSize,
+                 senderName,
+                 remoteDeviceId: senderId,
+                 status: 'pending' as const,
+                 progress: 0,
+                 fileCount: manifest.entries.length,
+                 items: isBatch
+                   ? manifest.entries.map((entry) => ({ fileId: entry.fileId, name: entry.path, size: entry.size }))
+                   : undefined
+               };
+
+               const rule = findAutoAcceptRuleFor(
+                 senderId,
+                 manifest.entries.map((entry) => ({ name: entry.path, size: entry.size, type: entry.fileType }))
+               );
+               if (rule) {
+                 autoAcceptManifest(manifest, incoming, rule);
+                 return;
+               }
+
+               setIncomingFiles((prev) => {
+                 const newMap = new Map(prev);
+                 newMap.set(manifest.manifestId, incoming);
+                 return newMap;
+               });
+               setIncomingFilesDialogOpen(true);
+               if (isBatch) {
+                 showNotification('收到文件请求', `${senderName} 想要发送 ${manifest.entries.length} 个文件`, { sound: true });
+               } else {
+                 showNotification('收到文件夹请求', `${senderName} 想要发送文件夹: ${manifest.rootName}`, { sound: true });
+               }
+
+               manifestCache.set(manifest.manifestId, manifest);
+            } else if (msg.type === 'metadata') {
                // 收到文件传输请求
                const fileId = msg.fileId;
                const fileName = msg.name;
                const fileSize = msg.size;
+               const incoming = {
+                 fileName,
+                 fileSize,
+                 senderName,
+                 remoteDeviceId: senderId,
+                 status: 'pending' as const,
+                 progress: 0
+               };
+
+               // 缓存元数据，以便后续接收使用
+               fileMetadataCache.set(fileId, msg);
+
+               const rule = findAutoAcceptRuleFor(senderId, [{ name: fileName, size: fileSize, type: msg.fileType || '' }]);
+               if (rule) {
+                 autoAcceptFile(fileId, incoming, rule);
+                 return;
+               }
 
                // 更新 incomingFiles 状态，显示接收弹窗
                setIncomingFiles((prev) => {
                  const newMap = new Map(prev);
-                 newMap.set(fileId, {
-                   fileName,
-                   fileSize,
-                   senderName,
-                   remoteDeviceId: senderId,
-                   status: 'pending',
-                   progress: 0
-                 });
+                 newMap.set(fileId, incoming);
                  return newMap;
                });
                setIncomingFilesDialogOpen(true);
                showNotification('收到文件请求', `${senderName} 想要发送文件: ${fileName}`, { sound: true });
-
-               // 缓存元数据，以便后续接收使用
-               fileMetadataCache.set(fileId, msg);
+            } else if (msg.type === 'resume_request') {
+               // 发送方重连后请求续传
+               handleResumeRequest(msg.fileId, senderId, senderName);
+            } else if (msg.type === 'transfer_pause' || msg.type === 'transfer_resume' || msg.type === 'transfer_cancel') {
+               const action = msg.type === 'transfer_pause' ? 'pause' : msg.type === 'transfer_resume' ? 'resume' : 'cancel';
+               handleRemoteTransferControl(msg.transferId, action, senderName);
+            } else if (msg.type === 'file_cancel') {
+               // 发送方等待确认超时，撤回请求
+               handleRemoteTransferControl(msg.fileId, 'cancel', senderName);
             }
           }
         }
@@ -209,7 +450,47 @@ function App() {
 
     return () => {
       connectionManager = null;
+      transferQueue = null;
+    };
+  }, []);
+
+  // 打开连接链接：连接码填入连接对话框；响应码转发给生成连接码的页面
+  useEffect(() => {
+    const openConnectionLink = async () => {
+      const link = takeConnectionLink();
+      if (!link) return;
+
+      if (link.kind === 'answer') {
+        if (await forwardConnectionLink(link)) {
+          toast.success('响应码已发送到发起连接的页面');
+        } else {
+          toast.error('未找到等待此响应码的页面，请在发起连接的设备上保持连接对话框打开后再打开此链接');
+        }
+        return;
+      }
+      setConnectionLink(link);
+      setManualConnectionDialog(true);
     };
+
+    openConnectionLink();
+    window.addEventListener('hashchange', openConnectionLink);
+    return () => window.removeEventListener('hashchange', openConnectionLink);
+  }, []);
+
+  // 从应用快捷方式（manifest 中的 shortcuts）打开：发送文件先打开连接对话框，查看历史打开历史记录
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const action = params.get('action');
+    if (!action) return;
+
+    params.delete('action');
+    const search = params.toString();
+    window.history.replaceState(null, '', window.location.pathname + (search ? `?${search}` : '') + window.location.hash);
+    if (action === 'send') {
+      setManualConnectionDialog(true);
+    } else if (action === 'history') {
+      setHistoryDialog(true);
+    }
   }, []);
 
   // 监听主题变化
@@ -235,6 +516,7 @@ function App() {
         deviceName: settings.deviceName
       };
       connectionManager.setLocalDeviceInfo(updatedDevice);
+      signalingClient?.updateDevice(updatedDevice);
 
       // 同时更新 myDevice 以保持一致
       if (myDevice.deviceName !== settings.deviceName) {
@@ -245,11 +527,57 @@ function App() {
     }
   }, [settings.deviceName, myDevice]);
 
+  // 连接信令服务器，同一服务器上的设备自动连接并显示在设备列表中
+  useEffect(() => {
+    if (!connectionManager || !myDevice || !settings.signalingUrl) return;
+
+    const client = new SignalingClient(settings.signalingUrl);
+    const handleSignalingEvent = (event: DeviceEvent) => {
+      // 设备离开信令服务器（如关闭页面）且已无连接时，从列表中移除；重连中的设备保留
+      if (event.type === 'device_left') {
+        const status = connectionManager?.getConnectionState(event.deviceId)?.status;
+        if (status !== 'connected' && status !== 'reconnecting') {
+          removeDevice(event.deviceId);
+        }
+      }
+    };
+    client.addEventListener(handleSignalingEvent);
+    connectionManager.setSignaling(client);
+    client.connect(myDevice, deviceIdentity);
+    signalingClient = client;
+    setSignaling(client);
+
+    return () => {
+      connectionManager?.setSignaling(null);
+      client.close();
+      signalingClient = null;
+      setSignaling(null);
+    };
+  }, [settings.signalingUrl, myDevice?.deviceId]);
+
   // 发送文件
   const handleSendFile = (device: DeviceInfo) => {
     setFileTransferDialog({ open: true, device });
   };
 
+  // 信任或取消信任设备
+  const handleToggleTrust = async (device: DeviceInfo) => {
+    if (!connectionManager) return;
+    try {
+      if (identityStatus[device.deviceId] === 'trusted') {
+        await connectionManager.untrustDevice(device.deviceId);
+        toast.success(`已取消信任 ${device.deviceName}`);
+      } else if (await connectionManager.trustDevice(device)) {
+        toast.success(`已信任 ${device.deviceName}，重连时将验证其身份`);
+      } else {
+        toast.error('对方未提供有效的身份签名，无法信任');
+      }
+    } catch (error) {
+      console.error('更新受信任设备失败:', error);
+      toast.error('更新受信任设备失败');
+    }
+  };
+
   // 发送文字
   const handleSendText = (device: DeviceInfo) => {
     setTextTransferDialog({ open: true, device });
@@ -271,42 +599,21 @@ function App() {
   // 文件传输处理
   useEffect(() => {
     const handleTransferFiles = async (e: CustomEvent) => {
-      const { targetDevice, files, onProgress } = e.detail;
+      const { targetDevice, files, folders = [] } = e.detail;
 
       // 尝试建立连接
       const connected = await connectionManager?.connectToDevice(targetDevice.deviceId, targetDevice);
-      if (!connected) {
+      if (!connected || !transferQueue) {
         toast.error("无法连接到设备");
         return;
       }
 
-      // 传输文件
-      for (const file of files) {
-        try {
-          const fileId = await connectionManager?.sendMessage(targetDevice.deviceId, {
-            type: 'file',
-            data: file,
-            timestamp: Date.now(),
-            id: Math.random().toString(36).substring(7),
-          });
-
-          if (fileId) {
-            toast.success(`文件 ${file.name} 发送成功`);
-            showNotification('文件发送成功', `文件 ${file.name} 已发送到 ${targetDevice.deviceName}`, { sound: true });
-
-            addHistory({
-              id: Date.now().toString(),
-              type: "file",
-              timestamp: Date.now(),
-              deviceName: targetDevice.deviceName,
-              direction: "sent",
-              fileName: file.name,
-              fileSize: file.size,
-            });
-          }
-        } catch (error) {
-          toast.error(`文件传输失败: ${error instanceof Error ? error.message : '未知错误'}`);
-        }
+      // 加入发送队列，进度显示在传输面板中
+      if (files.length > 0) {
+        transferQueue.sendFiles(targetDevice, files);
+      }
+      for (const folder of folders as FolderSelection[]) {
+        transferQueue.sendFolder(targetDevice, folder);
       }
     };
 
@@ -341,45 +648,78 @@ function App() {
     };
   }, [myDevice]);
 
-  // 接受文件
-  const handleAcceptFile = async (fileId: string) => {
-    const file = incomingFiles.get(fileId);
-    if (!file) return;
-
-    try {
-      // 更新状态为接收中
+  // 稍后从接收列表中移除（让用户看到最终状态）
+  const dismissIncoming = (id: string) => {
+    setTimeout(() => {
       setIncomingFiles((prev) => {
         const newMap = new Map(prev);
-        newMap.set(fileId, { ...file, status: 'receiving', progress: 0 });
+        newMap.delete(id);
+        if (newMap.size === 0) {
+          setIncomingFilesDialogOpen(false);
+        }
         return newMap;
       });
+    }, 3000);
+  };
 
-      const metadata = fileMetadataCache.get(fileId);
+  // 登记接收任务
+  const startReceiveTask = (transferId: string, remoteDeviceId: string, senderName: string, files: FileInfo[]) => {
+    // 自动接收时在事件监听中调用，从 store 读取最新的本机信息
+    const myDevice = useStore.getState().myDevice;
+    addTransfer({
+      transferId,
+      type: 'file',
+      fromDeviceId: remoteDeviceId,
+      toDeviceId: myDevice?.deviceId || '',
+      fromDeviceName: senderName,
+      toDeviceName: myDevice?.deviceName || '',
+      direction: 'received',
+      files,
+      status: 'transferring',
+      progress: 0,
+      speed: 0,
+      timestamp: Date.now(),
+    });
+  };
 
-      if (!connectionManager) throw new Error("Connection manager not initialized");
+  // 接收文件并保存，接受和续传共用
+  const receiveIncomingFile = async (
+    fileId: string,
+    senderName: string,
+    receive: (onProgress: (progress: number) => void) => Promise<ReceivedFile>
+  ) => {
+    const updateIncoming = (updates: { status?: IncomingStatus; progress?: number }) => {
+      setIncomingFiles((prev) => {
+        const current = prev.get(fileId);
+        if (!current) return prev;
+        const newMap = new Map(prev);
+        newMap.set(fileId, { ...current, ...updates });
+        return newMap;
+      });
+    };
 
-      const receivedFile = await connectionManager.receiveFile(
-        file.remoteDeviceId,
-        fileId,
-        metadata,
-        (progress) => {
-          setIncomingFiles((prev) => {
-            const newMap = new Map(prev);
-            const current = newMap.get(fileId);
-            if (current) {
-              newMap.set(fileId, { ...current, progress });
-            }
-            return newMap;
-          });
-        }
-      );
+    let lastProgress = -1;
+    const onProgress = (progress: number) => {
+      if (progress === lastProgress) return;
+      lastProgress = progress;
+      updateIncoming({ progress });
+      updateTransfer(fileId, { progress });
+    };
 
-      const url = URL.createObjectURL(receivedFile);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = receivedFile.name;
-      a.click();
-      URL.revokeObjectURL(url);
+    try {
+      const { file: receivedFile, verified, sink } = await receive(onProgress);
+
+      // 已直接写入用户选择的位置时无需再下载
+      if (!sink.savedToDisk) {
+        const url = URL.createObjectURL(receivedFile);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = receivedFile.name;
+        a.click();
+        URL.revokeObjectURL(url);
+        // 下载开始后再释放临时文件（OPFS）
+        setTimeout(() => sink.release(), 60000);
+      }
 
       toast.success(`文件 ${receivedFile.name} 接收成功`);
       showNotification('文件接收成功', `文件 ${receivedFile.name} 已接收`, { sound: true });
@@ -390,46 +730,467 @@ function App() {
         id: Date.now().toString(),
         type: "file",
         timestamp: Date.now(),
-        deviceName: file.senderName,
+        deviceName: senderName,
         direction: "received",
-        fileName: file.fileName,
-        fileSize: file.fileSize,
+        fileName: receivedFile.name,
+        fileSize: receivedFile.size,
+        integrity: verified ? "verified" : "unverified",
+        autoAccepted: autoAcceptReasons.get(fileId),
       };
       addHistory(newItem);
+      autoAcceptReasons.delete(fileId);
 
-      setIncomingFiles((prev) => {
-        const newMap = new Map(prev);
-        newMap.set(fileId, { ...file, status: 'completed', progress: 100 });
-        setTimeout(() => {
-          setIncomingFiles((prev) => {
-            const newMap = new Map(prev);
-            newMap.delete(fileId);
-            if (newMap.size === 0) {
-              setIncomingFilesDialogOpen(false);
-            }
-            return newMap;
-          });
-        }, 3000);
-        return newMap;
-      });
+      updateIncoming({ status: 'completed', progress: 100 });
+      updateTransfer(fileId, { status: 'completed', progress: 100 });
+      dismissIncoming(fileId);
     } catch (error) {
       console.error(error);
+      if (error instanceof TransferInterruptedError) {
+        // 保留元数据和已收到的分片，等待发送方重连后续传
+        updateIncoming({ status: 'interrupted' });
+        toast.warning(`文件传输中断，重新连接后将自动续传`);
+        return;
+      }
+      if (error instanceof TransferCancelledError) {
+        updateIncoming({ status: 'cancelled' });
+        updateTransfer(fileId, { status: 'cancelled' });
+        toast.info('文件传输已取消');
+        fileMetadataCache.delete(fileId);
+        autoAcceptReasons.delete(fileId);
+        dismissIncoming(fileId);
+        return;
+      }
+      updateTransfer(fileId, { status: 'failed' });
+      if (error instanceof FileIntegrityError) {
+        const metadata = fileMetadataCache.get(fileId);
+        updateIncoming({ status: 'corrupted' });
+        toast.error(`文件完整性校验失败: ${error.message}`);
+        addHistory({
+          id: Date.now().toString(),
+          type: "file",
+          timestamp: Date.now(),
+          deviceName: senderName,
+          direction: "received",
+          fileName: metadata?.name,
+          fileSize: metadata?.size,
+          integrity: "failed",
+          autoAccepted: autoAcceptReasons.get(fileId),
+        });
+        fileMetadataCache.delete(fileId);
+        autoAcceptReasons.delete(fileId);
+        transferResumeRegistry.removePartial(fileId);
+        return;
+      }
       toast.error(`接收文件失败: ${error instanceof Error ? error.message : '未知错误'}`);
       fileMetadataCache.delete(fileId);
+      autoAcceptReasons.delete(fileId);
+      transferResumeRegistry.removePartial(fileId);
     }
   };
 
-  // 拒绝文件
-  const handleRejectFile = (fileId: string) => {
-    const file = incomingFiles.get(fileId);
-    if (file && file.remoteDeviceId) {
-      connectionManager?.sendMessage(file.remoteDeviceId, {
-        type: 'file',
-        data: { action: 'reject', fileId },
+  // 更新清单（文件夹或批量传输）的接收状态
+  const updateIncomingManifest = (manifestId: string, updates: { status?: IncomingStatus; progress?: number }) => {
+    setIncomingFiles((prev) => {
+      const current = prev.get(manifestId);
+      if (!current) return prev;
+      const newMap = new Map(prev);
+      newMap.set(manifestId, { ...current, ...updates });
+      return newMap;
+    });
+  };
+
+  // 接收清单中的一个文件，接受和续传共用
+  const receiveManifestEntry = async (
+    manifestId: string,
+    entry: ManifestEntry,
+    receive: (onProgress: (progress: number) => void) => Promise<ReceivedFile>
+  ) => {
+    const receiving = manifestReceives.get(manifestId);
+    if (!receiving) return;
+    const { manifest } = receiving;
+    const isBatch = manifest.kind === 'batch';
+    const label = isBatch ? `${receiving.entries.length} 个文件` : `文件夹 ${manifest.rootName}`;
+
+    // 合并进度：已完成的文件加上各个并发接收中文件的进度
+    let lastProgress = -1;
+    const onProgress = (progress: number) => {
+      receiving.inFlight.set(entry.fileId, (entry.size * progress) / 100);
+      let transferred = receiving.receivedSize;
+      receiving.inFlight.forEach((bytes) => (transferred += bytes));
+      const total = receiving.totalSize > 0 ? Math.round((transferred / receiving.totalSize) * 100) : 100;
+      if (total === lastProgress) return;
+      lastProgress = total;
+      updateIncomingManifest(manifestId, { progress: total });
+      updateTransfer(manifestId, { progress: total });
+    };
+
+    try {
+      const { file, verified } = await receive(onProgress);
+      receiving.inFlight.delete(entry.fileId);
+      await receiving.destination.complete(entry, file);
+      receiving.receivedSize += entry.size;
+      receiving.verified &&= verified;
+      fileMetadataCache.delete(entry.fileId);
+
+      // 批量传输按文件记录历史
+      if (isBatch) {
+        addHistory({
+          id: `${Date.now()}-${entry.fileId}`,
+          type: "file",
+          timestamp: Date.now(),
+          deviceName: receiving.senderName,
+          direction: "received",
+          fileName: file.name,
+          fileSize: file.size,
+          integrity: verified ? "verified" : "unverified",
+          autoAccepted: receiving.autoAccepted,
+        });
+      }
+    } catch (error) {
+      console.error(error);
+      receiving.inFlight.delete(entry.fileId);
+      if (error instanceof TransferInterruptedError) {
+        // 等待发送方重连后续传该文件
+        updateIncomingManifest(manifestId, { status: 'interrupted' });
+        toast.warning(`${label} 传输中断，重新连接后将自动续传`);
+        return;
+      }
+      if (error instanceof TransferCancelledError) {
+        // 取消整个清单，剩余文件不再接收
+        manifestReceives.delete(manifestId);
+        fileMetadataCache.delete(entry.fileId);
+        updateIncomingManifest(manifestId, { status: 'cancelled' });
+        updateTransfer(manifestId, { status: 'cancelled' });
+        toast.info(`${label} 传输已取消`);
+        dismissIncoming(manifestId);
+        return;
+      }
+      if (isBatch && error instanceof FileIntegrityError) {
+        addHistory({
+          id: `${Date.now()}-${entry.fileId}`,
+          type: "file",
+          timestamp: Date.now(),
+          deviceName: receiving.senderName,
+          direction: "received",
+          fileName: entry.path,
+          fileSize: entry.size,
+          integrity: "failed",
+          autoAccepted: receiving.autoAccepted,
+        });
+      }
+      receiving.failed++;
+      fileMetadataCache.delete(entry.fileId);
+      transferResumeRegistry.removePartial(entry.fileId);
+    }
+
+    receiving.settled++;
+    if (receiving.settled < receiving.entries.length) {
+      return;
+    }
+
+    // 全部文件处理完毕
+    manifestReceives.delete(manifestId);
+    try {
+      await receiving.destination.finish();
+    } catch (error) {
+      console.error(error);
+      toast.error(`保存文件夹失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      receiving.failed = Math.max(receiving.failed, 1);
+    }
+
+    if (!isBatch) {
+      addHistory({
+        id: Date.now().toString(),
+        type: "file",
         timestamp: Date.now(),
-        id: Math.random().toString(36).substring(7),
+        deviceName: receiving.senderName,
+        direction: "received",
+        fileName: manifest.rootName,
+        fileSize: receiving.totalSize,
+        fileCount: receiving.entries.length,
+        integrity: receiving.failed > 0 ? "failed" : receiving.verified ? "verified" : "unverified",
+        autoAccepted: receiving.autoAccepted,
       });
+    }
+
+    if (receiving.failed > 0) {
+      updateIncomingManifest(manifestId, { status: 'corrupted' });
+      updateTransfer(manifestId, { status: 'failed' });
+      toast.error(`${label} 中有 ${receiving.failed} 个文件接收失败`);
+      return;
+    }
+
+    toast.success(`${label} 接收成功`);
+    showNotification('文件接收成功', `${label} 已接收`, { sound: true });
+    updateIncomingManifest(manifestId, { status: 'completed', progress: 100 });
+    updateTransfer(manifestId, { status: 'completed', progress: 100 });
+    dismissIncoming(manifestId);
+  };
+
+  // 收到已接受清单中的文件元数据
+  const handleManifestEntry = async (metadata: any, senderId: string) => {
+    const receiving = manifestReceives.get(metadata.manifestId);
+    const entry = receiving?.entries.find((e) => e.fileId === metadata.fileId);
+    if (!receiving || !entry || !connectionManager) {
+      connectionManager?.rejectFile(senderId, metadata.fileId);
+      return;
+    }
+
+    fileMetadataCache.set(metadata.fileId, metadata);
+    await receiveManifestEntry(metadata.manifestId, entry, async (onProgress) => {
+      const sink = await receiving.destination.createSink(entry);
+      return connectionManager!.receiveFile(senderId, metadata.fileId, metadata, onProgress, sink);
+    });
+  };
+
+  // 接受文件夹或批量传输
+  // @param selectedIds 批量传输中选择接收的文件，未提供时接收全部
+  const handleAcceptManifest = async (manifestId: string, selectedIds?: string[]) => {
+    const incoming = incomingFiles.get(manifestId);
+    const manifest = manifestCache.get(manifestId);
+    if (!incoming || !manifest) return;
+
+    const selected = selectedIds ? new Set(selectedIds) : null;
+    const entries = selected ? manifest.entries.filter((entry) => selected.has(entry.fileId)) : manifest.entries;
+    if (entries.length === 0) {
+      handleRejectFile(manifestId);
+      return;
+    }
+
+    // 文件夹需选择保存目录（不支持时打包为 ZIP），需在点击中调用
+    let destination;
+    try {
+      destination = manifest.kind === 'batch'
+        ? createDownloadDestination()
+        : await chooseFolderDestination(manifest.rootName);
+    } catch (error) {
+      toast.error(`无法创建保存位置: ${error instanceof Error ? error.message : '未知错误'}`);
+      return;
+    }
+    if (!destination) {
+      toast.info('已取消保存，可稍后再次接收');
+      return;
+    }
+
+    manifestCache.delete(manifestId);
+    startManifestReceive(manifest, incoming, entries, destination);
+  };
+
+  // 登记已接受的清单并通知发送方，手动接受和自动接收共用
+  const startManifestReceive = (
+    manifest: TransferManifest,
+    incoming: { fileName: string; senderName: string; remoteDeviceId: string },
+    entries: ManifestEntry[],
+    destination: ManifestDestination,
+    autoAccepted?: string
+  ) => {
+    const { manifestId } = manifest;
+    const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    manifestReceives.set(manifestId, {
+      manifest,
+      entries,
+      totalSize,
+      destination,
+      senderName: incoming.senderName,
+      receivedSize: 0,
+      inFlight: new Map(),
+      settled: 0,
+      failed: 0,
+      verified: true,
+      autoAccepted,
+    });
+
+    setIncomingFiles((prev) => {
+      const newMap = new Map(prev);
+      newMap.set(manifestId, {
+        ...incoming,
+        fileName: manifest.kind === 'batch' ? `${entries.length} 个文件` : incoming.fileName,
+        fileSize: totalSize,
+        fileCount: entries.length,
+        status: 'receiving',
+        progress: 0,
+      });
+      return newMap;
+    });
+
+    startReceiveTask(
+      manifestId,
+      incoming.remoteDeviceId,
+      incoming.senderName,
+      entries.map((entry) => ({ name: entry.path, size: entry.size, type: entry.fileType }))
+    );
+    connectionManager?.respondToManifest(
+      incoming.remoteDeviceId,
+      manifestId,
+      entries.map((entry) => entry.fileId)
+    );
+  };
 
+  // 读取规则中设置的保存目录，权限失效时回退到浏览器下载
+  const getAutoAcceptDirectory = async (rule: AutoAcceptRule) => {
+    if (rule.saveLocation !== 'directory') return null;
+    const dir = await getSaveDirectory(rule.deviceId).catch(() => null);
+    if (!dir) {
+      toast.warning(`无法写入 ${rule.directoryName || '保存目录'}，请在设置中重新选择，本次改为下载`);
+    }
+    return dir;
+  };
+
+  // 按规则自动接收文件夹或批量传输（不弹出对话框）
+  const autoAcceptManifest = async (
+    manifest: TransferManifest,
+    incoming: { fileName: string; senderName: string; remoteDeviceId: string },
+    rule: AutoAcceptRule
+  ) => {
+    const label = manifest.kind === 'batch' ? `${manifest.entries.length} 个文件` : `文件夹 ${manifest.rootName}`;
+    let destination: ManifestDestination;
+    try {
+      const dir = await getAutoAcceptDirectory(rule);
+      if (dir) {
+        destination = createDirectoryDestination(
+          manifest.kind === 'batch' ? dir : await dir.getDirectoryHandle(sanitizeFolderName(manifest.rootName)!, { create: true })
+        );
+      } else {
+        destination = manifest.kind === 'batch' ? createDownloadDestination() : createZipDestination(manifest.rootName);
+      }
+    } catch (error) {
+      console.error(error);
+      toast.error(`自动接收${label}失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      connectionManager?.respondToManifest(incoming.remoteDeviceId, manifest.manifestId, null);
+      return;
+    }
+
+    toast.info(`已按规则自动接收 ${incoming.senderName} 的${label}`);
+    startManifestReceive(manifest, incoming, manifest.entries, destination, describeAutoAcceptRule(rule));
+  };
+
+  // 接受文件
+  const handleAcceptFile = async (fileId: string, selectedIds?: string[]) => {
+    if (manifestCache.has(fileId)) {
+      await handleAcceptManifest(fileId, selectedIds);
+      return;
+    }
+
+    const file = incomingFiles.get(fileId);
+    if (!file) return;
+
+    const metadata = fileMetadataCache.get(fileId);
+
+    // 根据文件大小和浏览器能力选择写入位置（大文件可能弹出保存对话框，需在点击中调用）
+    let sink;
+    try {
+      sink = await chooseFileSink(fileId, file.fileName, file.fileSize, metadata?.fileType || '');
+    } catch (error) {
+      toast.error(`无法创建保存位置: ${error instanceof Error ? error.message : '未知错误'}`);
+      return;
+    }
+    if (!sink) {
+      toast.info('已取消保存，可稍后再次接收');
+      return;
+    }
+
+    await startFileReceive(fileId, file, metadata, sink);
+  };
+
+  // 开始接收单个文件，手动接受和自动接收共用
+  const startFileReceive = async (
+    fileId: string,
+    file: { fileName: string; fileSize: number; senderName: string; remoteDeviceId: string },
+    metadata: any,
+    sink: FileSink
+  ) => {
+    // 更新状态为接收中
+    setIncomingFiles((prev) => {
+      const newMap = new Map(prev);
+      newMap.set(fileId, { ...file, status: 'receiving', progress: 0 });
+      return newMap;
+    });
+    startReceiveTask(fileId, file.remoteDeviceId, file.senderName, [
+      { name: file.fileName, size: file.fileSize, type: metadata?.fileType || '' },
+    ]);
+
+    await receiveIncomingFile(fileId, file.senderName, (onProgress) => {
+      if (!connectionManager) throw new Error("Connection manager not initialized");
+      return connectionManager.receiveFile(file.remoteDeviceId, fileId, metadata, onProgress, sink);
+    });
+  };
+
+  // 按规则自动接收单个文件（不弹出对话框）
+  const autoAcceptFile = async (
+    fileId: string,
+    file: { fileName: string; fileSize: number; senderName: string; remoteDeviceId: string },
+    rule: AutoAcceptRule
+  ) => {
+    const metadata = fileMetadataCache.get(fileId);
+    let sink;
+    try {
+      const dir = await getAutoAcceptDirectory(rule);
+      sink = dir
+        ? await createSinkInDirectory(dir, file.fileName)
+        : await chooseFileSink(fileId, file.fileName, file.fileSize, metadata?.fileType || '', false);
+    } catch (error) {
+      console.error(error);
+      sink = null;
+    }
+    if (!sink) {
+      toast.error(`自动接收文件 ${file.fileName} 失败，无法创建保存位置`);
+      connectionManager?.rejectFile(file.remoteDeviceId, fileId);
+      fileMetadataCache.delete(fileId);
+      return;
+    }
+
+    toast.info(`已按规则自动接收 ${file.senderName} 的文件 ${file.fileName}`);
+    autoAcceptReasons.set(fileId, describeAutoAcceptRule(rule));
+    await startFileReceive(fileId, file, metadata, sink);
+  };
+
+  // 处理续传请求
+  const handleResumeRequest = (fileId: string, remoteDeviceId: string, senderName: string) => {
+    const metadata = fileMetadataCache.get(fileId);
+    if (!connectionManager) return;
+
+    // 只续传之前接受过且未完成的文件
+    if (!metadata || !transferResumeRegistry.getPartial(fileId)) {
+      connectionManager.rejectFile(remoteDeviceId, fileId);
+      return;
+    }
+
+    // 清单中的文件续传后归入所属的文件夹或批次
+    const receiving = metadata.manifestId ? manifestReceives.get(metadata.manifestId) : undefined;
+    const entry = receiving?.entries.find((e) => e.fileId === fileId);
+    if (receiving && entry) {
+      updateIncomingManifest(metadata.manifestId, { status: 'receiving' });
+      setIncomingFilesDialogOpen(true);
+      toast.info(`正在续传 ${entry.path}`);
+      receiveManifestEntry(metadata.manifestId, entry, (onProgress) =>
+        connectionManager!.resumeReceive(remoteDeviceId, fileId, metadata, onProgress)
+      );
+      return;
+    }
+
+    setIncomingFiles((prev) => {
+      const current = prev.get(fileId);
+      if (!current) return prev;
+      const newMap = new Map(prev);
+      newMap.set(fileId, { ...current, remoteDeviceId, status: 'receiving' });
+      return newMap;
+    });
+    setIncomingFilesDialogOpen(true);
+    toast.info(`正在续传 ${metadata.name}`);
+
+    receiveIncomingFile(fileId, senderName, (onProgress) =>
+      connectionManager!.resumeReceive(remoteDeviceId, fileId, metadata, onProgress)
+    );
+  };
+
+  // 拒绝文件
+  const handleRejectFile = (fileId: string) => {
+    const file = incomingFiles.get(fileId);
+    if (file && manifestCache.has(fileId)) {
+      connectionManager?.respondToManifest(file.remoteDeviceId, fileId, null);
+      manifestCache.delete(fileId);
+    } else if (file && file.remoteDeviceId) {
+      connectionManager?.rejectFile(file.remoteDeviceId, fileId);
       fileMetadataCache.delete(fileId);
     }
 
@@ -443,14 +1204,137 @@ function App() {
     });
   };
 
+  // 暂停、继续或取消传输（发送和接收共用）
+  const handleTransferControl = (transferId: string, action: 'pause' | 'resume' | 'cancel') => {
+    const task = useStore.getState().transfers.find((t: TransferTask) => t.transferId === transferId);
+    const incoming = incomingFiles.get(transferId);
+    const deviceId = task
+      ? task.direction === 'sent' ? task.toDeviceId : task.fromDeviceId
+      : incoming?.remoteDeviceId;
+    if (!deviceId || !connectionManager) return;
+
+    // 发送任务由发送队列管理
+    if (task?.direction === 'sent' && transferQueue) {
+      const handled = action === 'pause'
+        ? transferQueue.pause(transferId)
+        : action === 'resume'
+          ? transferQueue.resume(transferId)
+          : transferQueue.cancel(transferId);
+      if (!handled && action !== 'cancel') {
+        toast.error('连接已断开，无法操作');
+      }
+      return;
+    }
+
+    const sent = connectionManager.controlTransfer(deviceId, transferId, action);
+    if (!sent && action !== 'cancel') {
+      toast.error('连接已断开，无法操作');
+      return;
+    }
+
+    if (action === 'cancel') {
+      updateTransfer(transferId, { status: 'cancelled' });
+      // 已中断的传输没有进行中的接收，直接清理
+      if (incoming?.status === 'interrupted') {
+        const receiving = manifestReceives.get(transferId);
+        receiving?.entries.forEach((entry) => {
+          fileMetadataCache.delete(entry.fileId);
+          transferResumeRegistry.removePartial(entry.fileId);
+        });
+        manifestReceives.delete(transferId);
+        fileMetadataCache.delete(transferId);
+        transferResumeRegistry.removePartial(transferId);
+        setIncomingFiles((prev) => {
+          const newMap = new Map(prev);
+          newMap.set(transferId, { ...incoming, status: 'cancelled' });
+          return newMap;
+        });
+        dismissIncoming(transferId);
+      }
+      return;
+    }
+
+    const paused = action === 'pause';
+    updateTransfer(transferId, { status: paused ? 'paused' : 'transferring' });
+    if (incoming) {
+      setIncomingFiles((prev) => {
+        const current = prev.get(transferId);
+        if (!current) return prev;
+        const newMap = new Map(prev);
+        newMap.set(transferId, { ...current, status: paused ? 'paused' : 'receiving' });
+        return newMap;
+      });
+    }
+  };
+
+  // 对方暂停、继续或取消了传输
+  const handleRemoteTransferControl = (transferId: string, action: 'pause' | 'resume' | 'cancel', remoteName: string) => {
+    const task = useStore.getState().transfers.find((t: TransferTask) => t.transferId === transferId);
+    // 发送任务的状态由发送队列更新
+    const queued = transferQueue?.handleRemoteControl(transferId, action);
+    if (!queued && task && (task.status === 'transferring' || task.status === 'paused')) {
+      const status = action === 'pause' ? 'paused' : action === 'resume' ? 'transferring' : 'cancelled';
+      updateTransfer(transferId, { status });
+    }
+
+    setIncomingFiles((prev) => {
+      const current = prev.get(transferId);
+      if (!current) return prev;
+      const newMap = new Map(prev);
+      if (current.status === 'pending' && action === 'cancel') {
+        // 尚未接受的请求被发送方撤回
+        newMap.delete(transferId);
+        manifestCache.delete(transferId);
+        fileMetadataCache.delete(transferId);
+        if (newMap.size === 0) {
+          setIncomingFilesDialogOpen(false);
+        }
+      } else if (current.status === 'receiving' || current.status === 'paused') {
+        newMap.set(transferId, {
+          ...current,
+          status: action === 'pause' ? 'paused' : action === 'resume' ? 'receiving' : 'cancelled',
+        });
+      }
+      return newMap;
+    });
+
+    if (action === 'pause') {
+      toast.info(`${remoteName} 暂停了传输`);
+    } else if (action === 'resume') {
+      toast.info(`${remoteName} 继续了传输`);
+    } else if (task) {
+      toast.info(`${remoteName} 取消了传输`);
+    }
+  };
+
   const onlineDevices = devices.filter((d) => d.online);
 
-  // 处理快速重连
-  const handleQuickReconnect = async (deviceId: string, deviceName: string) => {
+  // 从连接历史快速重连：对方在同一信令服务器上（同一房间或已配对）时直接连接
+  const handleQuickReconnect = async (deviceId: string, deviceName: string): Promise<boolean> => {
+    if (!connectionManager) return false;
+    if (!connectionManager.isReachable(deviceId)) {
+      toast.error(signalingClient?.isConnected()
+        ? `${deviceName} 不在线，请使用连接码连接`
+        : '未连接信令服务器，请使用连接码连接');
+      return false;
+    }
+
     toast.info(`正在重连到 ${deviceName}...`);
-    // TODO: 实现快速重连逻辑
-    // 这需要保存之前的连接码或重新建立连接
-    console.log('快速重连:', deviceId, deviceName);
+    const success = await connectionManager.reconnectDevice(deviceId);
+    if (!success) {
+      toast.error(`重连 ${deviceName} 失败`);
+    }
+    return success;
+  };
+
+  // 删除连接历史时同时删除配对，之后双方不再能经信令服务器直接找到对方
+  const handleForgetDevices = async (deviceIds: string[]) => {
+    try {
+      await Promise.all(deviceIds.map(removePairing));
+    } catch (error) {
+      console.error('删除配对失败:', error);
+    }
+    connectionManager?.refreshPairings();
   };
 
   return (
@@ -544,6 +1428,18 @@ function App() {
           </div>
         </div>
 
+        <TransfersPanel
+          transfers={transfers}
+          onPause={(id) => handleTransferControl(id, 'pause')}
+          onResume={(id) => handleTransferControl(id, 'resume')}
+          onCancel={(id) => handleTransferControl(id, 'cancel')}
+          onClearFinished={() =>
+            transfers
+              .filter((t: TransferTask) => t.status === 'completed' || t.status === 'failed' || t.status === 'cancelled')
+              .forEach((t: TransferTask) => removeTransfer(t.transferId))
+          }
+        />
+
         <div className="mb-8">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
             我的设备
@@ -575,8 +1471,11 @@ function App() {
                 <DeviceCard
                   key={device.deviceId}
                   device={device}
+                  identityStatus={identityStatus[device.deviceId]}
+                  connectionStatus={connectionStatus[device.deviceId]}
                   onSendFile={handleSendFile}
                   onSendText={handleSendText}
+                  onToggleTrust={handleToggleTrust}
                 />
               ))}
             </div>
@@ -607,6 +1506,9 @@ function App() {
         files={incomingFiles}
         onAccept={handleAcceptFile}
         onReject={handleRejectFile}
+        onPause={(id) => handleTransferControl(id, 'pause')}
+        onResume={(id) => handleTransferControl(id, 'resume')}
+        onCancel={(id) => handleTransferControl(id, 'cancel')}
       />
 
       <TextMessageDialog
@@ -659,23 +1561,63 @@ function App() {
         onNotificationsEnabledChange={(enabled) =>
           updateSettings({ notificationsEnabled: enabled })
         }
+        maxConcurrentTransfers={settings.maxConcurrentTransfers || DEFAULT_CONCURRENCY}
+        onMaxConcurrentTransfersChange={(count) =>
+          updateSettings({ maxConcurrentTransfers: count })
+        }
+        signalingUrl={settings.signalingUrl || ''}
+        onSignalingUrlChange={(url) => {
+          updateSettings({ signalingUrl: url });
+          localStorage.setItem('xtrans-signaling-url', url);
+        }}
+        iceSettings={settings.iceSettings}
+        onIceSettingsChange={async (iceSettings) => {
+          updateSettings({ iceSettings });
+          try {
+            await saveIceSettings(iceSettings);
+          } catch (error) {
+            console.error('保存 ICE 服务器配置失败:', error);
+            toast.error('保存 ICE 服务器配置失败');
+          }
+          const errors = await applyIceSettings(iceSettings);
+          if (errors.length > 0) {
+            toast.error(`获取 TURN 凭据失败: ${errors.join('；')}`);
+          }
+        }}
+        autoAcceptRules={settings.autoAcceptRules || []}
+        onAutoAcceptRulesChange={(rules) => {
+          updateSettings({ autoAcceptRules: rules });
+          saveAutoAcceptRules(rules);
+        }}
       />
 
       <ShareDialog
         open={shareDialog}
         onOpenChange={setShareDialog}
+        onCreateConnectionLink={() => {
+          setShareDialog(false);
+          setManualConnectionDialog(true);
+        }}
       />
 
       <ManualConnectionDialog
         open={manualConnectionDialog}
-        onOpenChange={setManualConnectionDialog}
+        onOpenChange={(open) => {
+          setManualConnectionDialog(open);
+          if (!open) setConnectionLink(null);
+        }}
         connectionManager={connectionManager}
+        signaling={signaling}
+        initialLink={connectionLink}
       />
 
       <ConnectionHistoryDialog
         open={connectionHistoryDialog}
         onOpenChange={setConnectionHistoryDialog}
+        reachableDevices={reachableDevices}
+        connectedDevices={onlineDevices.map((device: DeviceInfo) => device.deviceId)}
         onReconnect={handleQuickReconnect}
+        onForget={handleForgetDevices}
       />
     </div>
   );
@@ -0,0 +1,40 @@
+import { useState, useEffect, useMemo } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { splitQrFrames } from "../lib/qr-frames";
+
+// 多帧二维码每帧的显示时长
+const FRAME_INTERVAL = 500;
+
+interface AnimatedQrCodeProps {
+  value: string;
+  size: number;
+}
+
+/**
+ * 连接码二维码
+ * 连接码较短时显示单个二维码，过长时切分为多帧循环显示，由扫描方拼合
+ */
+export function AnimatedQrCode({ value, size }: AnimatedQrCodeProps) {
+  const frames = useMemo(() => splitQrFrames(value), [value]);
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    setIndex(0);
+    if (frames.length <= 1) return;
+    const timer = setInterval(() => setIndex((prev) => (prev + 1) % frames.length), FRAME_INTERVAL);
+    return () => clearInterval(timer);
+  }, [frames]);
+
+  if (frames.length === 1) {
+    return <QRCodeSVG value={value} size={size} />;
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <QRCodeSVG value={frames[index % frames.length]} size={size} />
+      <span className="text-xs text-gray-500">
+        动态二维码 {(index % frames.length) + 1}/{frames.length}，请保持扫描
+      </span>
+    </div>
+  );
+}
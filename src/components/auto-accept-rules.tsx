@@ -0,0 +1,191 @@
+import { useState, useEffect } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { FolderOpen, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { DeviceInfo } from "../lib/device-manager";
+import { getTrustedDevices } from "../lib/device-identity";
+import {
+  AutoAcceptRule,
+  createAutoAcceptRule,
+  parseTypeList,
+  chooseSaveDirectory,
+  removeSaveDirectory,
+  isDirectoryPickerSupported,
+} from "../lib/auto-accept";
+
+interface AutoAcceptRulesProps {
+  open: boolean;
+  rules: AutoAcceptRule[];
+  onRulesChange: (rules: AutoAcceptRule[]) => void;
+}
+
+const MB = 1024 * 1024;
+
+export function AutoAcceptRules({ open, rules, onRulesChange }: AutoAcceptRulesProps) {
+  const [trustedDevices, setTrustedDevices] = useState<DeviceInfo[]>([]);
+  const [newDeviceId, setNewDeviceId] = useState("");
+
+  // 每次打开设置时刷新受信任设备列表
+  useEffect(() => {
+    if (!open) return;
+    getTrustedDevices()
+      .then(setTrustedDevices)
+      .catch((error) => console.error("读取受信任设备失败:", error));
+  }, [open]);
+
+  const availableDevices = trustedDevices.filter(
+    (device) => !rules.some((rule) => rule.deviceId === device.deviceId)
+  );
+
+  const updateRule = (id: string, updates: Partial<AutoAcceptRule>) => {
+    onRulesChange(rules.map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)));
+  };
+
+  const handleAdd = () => {
+    const device = trustedDevices.find((d) => d.deviceId === newDeviceId);
+    if (!device) return;
+    onRulesChange([...rules, createAutoAcceptRule(device.deviceId, device.deviceName)]);
+    setNewDeviceId("");
+  };
+
+  const handleRemove = (rule: AutoAcceptRule) => {
+    onRulesChange(rules.filter((r) => r.id !== rule.id));
+    removeSaveDirectory(rule.deviceId).catch(() => {});
+  };
+
+  const handleSaveLocationChange = async (rule: AutoAcceptRule, location: AutoAcceptRule["saveLocation"]) => {
+    if (location === "download") {
+      updateRule(rule.id, { saveLocation: "download", directoryName: undefined });
+      removeSaveDirectory(rule.deviceId).catch(() => {});
+      return;
+    }
+    await handleChooseDirectory(rule);
+  };
+
+  const handleChooseDirectory = async (rule: AutoAcceptRule) => {
+    try {
+      const name = await chooseSaveDirectory(rule.deviceId);
+      if (name) {
+        updateRule(rule.id, { saveLocation: "directory", directoryName: name });
+      }
+    } catch (error) {
+      console.error("选择保存目录失败:", error);
+      toast.error("选择保存目录失败");
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-0.5">
+        <Label>自动接收</Label>
+        <p className="text-xs text-gray-500">
+          来自受信任设备且符合规则的文件将直接接收，不再弹窗确认
+        </p>
+      </div>
+
+      {rules.map((rule) => (
+        <div key={rule.id} className="space-y-3 p-3 border border-gray-200 dark:border-gray-800 rounded-lg">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium truncate">{rule.deviceName}</span>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => updateRule(rule.id, { enabled })}
+              />
+              <Button variant="ghost" size="sm" onClick={() => handleRemove(rule)}>
+                <Trash2 className="size-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">大小上限（MB，0 表示不限）</Label>
+            <Input
+              type="number"
+              min={0}
+              defaultValue={rule.maxSize / MB}
+              onBlur={(e) => updateRule(rule.id, { maxSize: Math.max(0, Number(e.target.value) || 0) * MB })}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">仅允许</Label>
+              <Input
+                defaultValue={rule.allow.join(", ")}
+                placeholder="image/*, .pdf"
+                onBlur={(e) => updateRule(rule.id, { allow: parseTypeList(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">排除</Label>
+              <Input
+                defaultValue={rule.deny.join(", ")}
+                placeholder=".exe, .apk"
+                onBlur={(e) => updateRule(rule.id, { deny: parseTypeList(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">保存位置</Label>
+            <div className="flex items-center gap-2">
+              <Select
+                value={rule.saveLocation}
+                onValueChange={(value) => handleSaveLocationChange(rule, value as AutoAcceptRule["saveLocation"])}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="download">浏览器下载</SelectItem>
+                  {isDirectoryPickerSupported() && (
+                    <SelectItem value="directory">
+                      {rule.directoryName ? `目录：${rule.directoryName}` : "指定目录"}
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              {rule.saveLocation === "directory" && (
+                <Button variant="outline" size="sm" onClick={() => handleChooseDirectory(rule)}>
+                  <FolderOpen className="size-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {availableDevices.length > 0 ? (
+        <div className="flex items-center gap-2">
+          <Select value={newDeviceId} onValueChange={setNewDeviceId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="选择受信任设备" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableDevices.map((device) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {device.deviceName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleAdd} disabled={!newDeviceId}>
+            <Plus className="size-4" />
+            添加规则
+          </Button>
+        </div>
+      ) : (
+        rules.length === 0 && (
+          <p className="text-xs text-gray-500">
+            暂无受信任设备，连接后核对安全码并信任设备即可添加规则
+          </p>
+        )
+      )}
+    </div>
+  );
+}
@@ -3,20 +3,26 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
 import { ScrollArea } from "./ui/scroll-area";
-import { History, Trash2, RefreshCw, Clock, Wifi, Globe } from "lucide-react";
+import { History, Trash2, RefreshCw, Clock, Wifi, Globe, Circle } from "lucide-react";
 import { toast } from "sonner";
 import { useStore, ConnectionHistoryItem } from "../store/use-store";
 
 interface ConnectionHistoryDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onReconnect: (deviceId: string, deviceName: string) => void;
+  reachableDevices: string[]; // 可经信令服务器直接连接的设备
+  connectedDevices: string[];
+  onReconnect: (deviceId: string, deviceName: string) => Promise<boolean>;
+  onForget: (deviceIds: string[]) => void; // 删除连接历史时同时删除配对
 }
 
 export function ConnectionHistoryDialog({
   open,
   onOpenChange,
+  reachableDevices,
+  connectedDevices,
   onReconnect,
+  onForget,
 }: ConnectionHistoryDialogProps) {
   const { connectionHistory, removeConnectionHistory, clearConnectionHistory } = useStore();
   const [reconnectingId, setReconnectingId] = useState<string | null>(null);
@@ -50,25 +56,40 @@ export function ConnectionHistoryDialog({
     }
   };
 
-  // 处理重连
-  const handleReconnect = (deviceId: string, deviceName: string) => {
+  // 设备当前的可达状态
+  const getReachabilityInfo = (deviceId: string) => {
+    if (connectedDevices.includes(deviceId)) {
+      return { label: "已连接", className: "fill-green-500 text-green-500" };
+    }
+    if (reachableDevices.includes(deviceId)) {
+      return { label: "可一键重连", className: "fill-blue-500 text-blue-500" };
+    }
+    return { label: "不在线，需交换连接码", className: "fill-gray-400 text-gray-400" };
+  };
+
+  // 处理重连，成功后关闭对话框
+  const handleReconnect = async (deviceId: string, deviceName: string) => {
     setReconnectingId(deviceId);
-    onReconnect(deviceId, deviceName);
-    // 关闭对话框
-    onOpenChange(false);
-    // 延迟重置状态
-    setTimeout(() => setReconnectingId(null), 1000);
+    try {
+      if (await onReconnect(deviceId, deviceName)) {
+        onOpenChange(false);
+      }
+    } finally {
+      setReconnectingId(null);
+    }
   };
 
   // 处理删除单个历史记录
   const handleRemove = (deviceId: string, deviceName: string) => {
     removeConnectionHistory(deviceId);
+    onForget([deviceId]);
     toast.success(`已删除 "${deviceName}" 的连接记录`);
   };
 
   // 处理清空所有历史
   const handleClearAll = () => {
     if (confirm("确定要清空所有连接历史吗？")) {
+      onForget(connectionHistory.map((item: ConnectionHistoryItem) => item.deviceId));
       clearConnectionHistory();
       toast.success("已清空所有连接历史");
     }
@@ -83,7 +104,7 @@ export function ConnectionHistoryDialog({
             连接历史
           </DialogTitle>
           <DialogDescription>
-            查看和快速重连之前连接过的设备
+            对方在同一信令服务器上（同一房间或已配对）时可一键重连，无需交换连接码
           </DialogDescription>
         </DialogHeader>
 
@@ -102,6 +123,8 @@ export function ConnectionHistoryDialog({
                 {connectionHistory.map((item) => {
                   const ConnectionIcon = getConnectionTypeInfo(item.connectionType).icon;
                   const connectionLabel = getConnectionTypeInfo(item.connectionType).label;
+                  const reachability = getReachabilityInfo(item.deviceId);
+                  const canReconnect = reachableDevices.includes(item.deviceId) && !connectedDevices.includes(item.deviceId);
 
                   return (
                     <div
@@ -129,13 +152,18 @@ export function ConnectionHistoryDialog({
                             <span>延迟 {item.latency}ms</span>
                           )}
                         </div>
+
+                        <div className="flex items-center gap-1.5 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          <Circle className={`size-2 ${reachability.className}`} />
+                          {reachability.label}
+                        </div>
                       </div>
 
                       <div className="flex items-center gap-2 ml-4">
                         <Button
                           size="sm"
                           onClick={() => handleReconnect(item.deviceId, item.deviceName)}
-                          disabled={reconnectingId === item.deviceId}
+                          disabled={!canReconnect || reconnectingId !== null}
                         >
                           {reconnectingId === item.deviceId ? (
                             <>
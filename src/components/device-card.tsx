@@ -1,13 +1,18 @@
-import { Smartphone, Monitor, Tablet, Circle } from "lucide-react";
+import { Smartphone, Monitor, Tablet, Circle, ShieldCheck, ShieldAlert, Shield } from "lucide-react";
 import { Card } from "./ui/card";
 import { Button } from "./ui/button";
 import { Badge } from "./ui/badge";
 import { DeviceInfo } from "../lib/device-manager";
+import type { IdentityStatus } from "../lib/device-identity";
+import type { ConnectionState } from "../lib/hybrid-connection-manager";
 
 interface DeviceCardProps {
   device: DeviceInfo & { isSelf?: boolean };
+  identityStatus?: IdentityStatus;
+  connectionStatus?: ConnectionState["status"];
   onSendFile?: (device: DeviceInfo) => void;
   onSendText?: (device: DeviceInfo) => void;
+  onToggleTrust?: (device: DeviceInfo) => void;
 }
 
 const deviceIcons: Record<string, typeof Smartphone> = {
@@ -16,8 +21,10 @@ const deviceIcons: Record<string, typeof Smartphone> = {
   tablet: Tablet,
 };
 
-export function DeviceCard({ device, onSendFile, onSendText }: DeviceCardProps) {
+export function DeviceCard({ device, identityStatus, connectionStatus, onSendFile, onSendText, onToggleTrust }: DeviceCardProps) {
   const Icon = deviceIcons[device.deviceType] || Monitor;
+  // 断线重连中，暂不能发送
+  const reconnecting = connectionStatus === "reconnecting";
 
   return (
     <Card className="p-4 hover:shadow-lg transition-shadow">
@@ -35,17 +42,31 @@ export function DeviceCard({ device, onSendFile, onSendText }: DeviceCardProps)
                     本机
                   </Badge>
                 )}
+                {identityStatus === "trusted" && (
+                  <Badge variant="secondary" className="text-xs gap-1">
+                    <ShieldCheck className="size-3 text-green-600" />
+                    已信任
+                  </Badge>
+                )}
+                {identityStatus === "mismatch" && (
+                  <Badge variant="destructive" className="text-xs gap-1">
+                    <ShieldAlert className="size-3" />
+                    身份异常
+                  </Badge>
+                )}
               </div>
               <div className="flex items-center gap-1.5 mt-1">
                 <Circle
                   className={`size-2 ${
-                    device.online
+                    reconnecting
+                      ? "fill-yellow-500 text-yellow-500 animate-pulse"
+                      : device.online
                       ? "fill-green-500 text-green-500"
                       : "fill-gray-400 text-gray-400"
                   }`}
                 />
                 <span className="text-sm text-gray-600 dark:text-gray-400">
-                  {device.online ? "在线" : "离线"}
+                  {reconnecting ? "重连中..." : device.online ? "在线" : "离线"}
                 </span>
               </div>
               <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
@@ -53,6 +74,16 @@ export function DeviceCard({ device, onSendFile, onSendText }: DeviceCardProps)
               </p>
             </div>
           </div>
+          {!device.isSelf && onToggleTrust && (identityStatus === "verified" || identityStatus === "trusted") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              title={identityStatus === "trusted" ? "取消信任" : "信任此设备"}
+              onClick={() => onToggleTrust(device)}
+            >
+              {identityStatus === "trusted" ? <ShieldCheck className="size-4 text-green-600" /> : <Shield className="size-4" />}
+            </Button>
+          )}
         </div>
 
         {!device.isSelf && device.online && (
@@ -61,6 +92,7 @@ export function DeviceCard({ device, onSendFile, onSendText }: DeviceCardProps)
               variant="outline"
               size="sm"
               className="flex-1"
+              disabled={reconnecting}
               onClick={() => onSendFile?.(device)}
             >
               发送文件
@@ -69,6 +101,7 @@ export function DeviceCard({ device, onSendFile, onSendText }: DeviceCardProps)
               variant="outline"
               size="sm"
               className="flex-1"
+              disabled={reconnecting}
               onClick={() => onSendText?.(device)}
             >
               发送文字
@@ -8,9 +8,9 @@ import {
   DialogTitle,
 } from "./ui/dialog";
 import { Button } from "./ui/button";
-import { Progress } from "./ui/progress";
-import { Upload, File, X } from "lucide-react";
+import { Upload, File, Folder, FolderOpen, X } from "lucide-react";
 import { DeviceInfo } from "../lib/device-manager";
+import { FolderSelection, groupByRootFolder, readDroppedItems } from "../lib/folder-transfer";
 import { toast } from "sonner";
 
 interface FileTransferDialogProps {
@@ -25,45 +25,59 @@ export function FileTransferDialog({
   targetDevice,
 }: FileTransferDialogProps) {
   const [files, setFiles] = useState<File[]>([]);
-  const [transferring, setTransferring] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [folders, setFolders] = useState<FolderSelection[]>([]);
+  const [dragging, setDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFiles = Array.from(e.target.files || []);
     setFiles((prev) => [...prev, ...selectedFiles]);
   };
 
+  const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFolders = groupByRootFolder(Array.from(e.target.files || []));
+    setFolders((prev) => [...prev, ...selectedFolders]);
+    // 允许再次选择同一个文件夹
+    e.target.value = '';
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    try {
+      const dropped = await readDroppedItems(e.dataTransfer.items);
+      setFiles((prev) => [...prev, ...dropped.files]);
+      setFolders((prev) => [...prev, ...dropped.folders]);
+    } catch (error) {
+      toast.error('读取拖拽的文件失败');
+    }
+  };
+
   const handleRemoveFile = (index: number) => {
     setFiles((prev) => prev.filter((_, i) => i !== index));
   };
 
-  const handleSend = async () => {
-    if (!targetDevice || files.length === 0) return;
+  const handleRemoveFolder = (index: number) => {
+    setFolders((prev) => prev.filter((_, i) => i !== index));
+  };
 
-    setTransferring(true);
-    setProgress(0);
+  const handleSend = () => {
+    if (!targetDevice || (files.length === 0 && folders.length === 0)) return;
 
-    try {
-      // 触发文件传输事件
-      const event = new CustomEvent('transfer-files', {
-        detail: {
-          targetDevice,
-          files,
-          onProgress: (p: number) => setProgress(p),
-        },
-      });
-      window.dispatchEvent(event);
-
-      // 移除成功 toast，传输完成后直接关闭对话框
-      setFiles([]);
-      setProgress(0);
-      onOpenChange(false);
-    } catch (error) {
-      toast.error('文件发送失败');
-    } finally {
-      setTransferring(false);
-    }
+    // 触发文件传输事件，进度显示在主页的传输面板中
+    const event = new CustomEvent('transfer-files', {
+      detail: {
+        targetDevice,
+        files,
+        folders,
+      },
+    });
+    window.dispatchEvent(event);
+
+    setFiles([]);
+    setFolders([]);
+    onOpenChange(false);
   };
 
   const formatSize = (bytes: number) => {
@@ -80,19 +94,27 @@ export function FileTransferDialog({
         <DialogHeader>
           <DialogTitle className="truncate pr-8">发送文件到 {targetDevice?.deviceName}</DialogTitle>
           <DialogDescription>
-            选择要发送的文件，支持拖拽上传
+            选择要发送的文件或文件夹，支持拖拽上传
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4">
           {/* 文件选择区域 */}
           <div
-            className="border-2 border-dashed border-gray-300 dark:border-gray-700 rounded-lg p-8 text-center cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900 transition-colors"
+            className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900 transition-colors ${
+              dragging ? 'border-blue-500 bg-blue-50 dark:bg-blue-950' : 'border-gray-300 dark:border-gray-700'
+            }`}
             onClick={() => fileInputRef.current?.click()}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragging(true);
+            }}
+            onDragLeave={() => setDragging(false)}
+            onDrop={handleDrop}
           >
             <Upload className="size-12 mx-auto mb-4 text-gray-400" />
             <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-              点击选择文件或拖拽文件到这里
+              点击选择文件或拖拽文件、文件夹到这里
             </p>
             <p className="text-xs text-gray-500">
               支持所有文件类型，单个文件最大 5GB
@@ -106,9 +128,53 @@ export function FileTransferDialog({
             />
           </div>
 
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => folderInputRef.current?.click()}
+          >
+            <FolderOpen className="size-4 mr-2" />
+            选择文件夹
+          </Button>
+          <input
+            ref={folderInputRef}
+            type="file"
+            className="hidden"
+            onChange={handleFolderSelect}
+            // webkitdirectory 不在 React 的属性类型中
+            {...({ webkitdirectory: '' } as Record<string, string>)}
+          />
+
           {/* 文件列表 */}
-          {files.length > 0 && (
+          {(files.length > 0 || folders.length > 0) && (
             <div className="space-y-2 max-h-60 overflow-y-auto">
+              {folders.map((folder, index) => (
+                <div
+                  key={`folder-${index}`}
+                  className="flex items-center gap-3 p-3 bg-gray-50 dark:bg-gray-900 rounded-lg"
+                >
+                  <Folder className="size-5 text-gray-400 flex-shrink-0" />
+                  <div className="flex-1 min-w-0 overflow-hidden">
+                    <p
+                      className="text-sm font-medium truncate max-w-[200px] sm:max-w-[250px]"
+                      title={folder.rootName}
+                    >
+                      {folder.rootName}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {folder.files.length} 个文件 · {formatSize(folder.totalSize)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveFolder(index)}
+                    className="flex-shrink-0"
+                  >
+                    <X className="size-4" />
+                  </Button>
+                </div>
+              ))}
               {files.map((file, index) => (
                 <div
                   key={index}
@@ -136,31 +202,20 @@ export function FileTransferDialog({
               ))}
             </div>
           )}
-
-          {/* 进度条 */}
-          {transferring && (
-            <div className="space-y-2">
-              <Progress value={progress} />
-              <p className="text-xs text-center text-gray-500">
-                发送中... {Math.round(progress)}%
-              </p>
-            </div>
-          )}
         </div>
 
         <DialogFooter>
           <Button
             variant="outline"
             onClick={() => onOpenChange(false)}
-            disabled={transferring}
           >
             取消
           </Button>
           <Button
             onClick={handleSend}
-            disabled={files.length === 0 || transferring}
+            disabled={files.length === 0 && folders.length === 0}
           >
-            {transferring ? '发送中...' : '发送'}
+            发送
           </Button>
         </DialogFooter>
       </DialogContent>
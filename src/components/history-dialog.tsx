@@ -10,7 +10,7 @@ import { Button } from "./ui/button";
 import { ScrollArea } from "./ui/scroll-area";
 import { formatDistanceToNow } from "date-fns";
 import { zhCN } from "date-fns/locale";
-import { Trash2, Download } from "lucide-react";
+import { Trash2, Download, ShieldCheck, ShieldAlert, Zap } from "lucide-react";
 import { toast } from "sonner";
 
 export interface HistoryItem {
@@ -21,6 +21,9 @@ export interface HistoryItem {
   direction: "sent" | "received";
   fileName?: string;
   fileSize?: number;
+  fileCount?: number; // 文件夹中的文件数
+  integrity?: "verified" | "failed" | "unverified"; // 接收文件的 SHA-256 校验结果
+  autoAccepted?: string; // 按自动接收规则接收时，记录匹配的规则
   text?: string;
 }
 
@@ -138,9 +141,28 @@ export function HistoryDialog({
                         {item.fileSize && (
                           <p className="text-xs text-gray-500">
                             {formatSize(item.fileSize)}
+                            {item.fileCount !== undefined && ` · ${item.fileCount} 个文件`}
+                          </p>
+                        )}
+                        {item.autoAccepted && (
+                          <p className="flex items-center gap-1 text-xs text-gray-500" title={item.autoAccepted}>
+                            <Zap className="size-3 shrink-0" />
+                            <span className="truncate">自动接收：{item.autoAccepted}</span>
                           </p>
                         )}
                       </div>
+                      {item.integrity === "verified" && (
+                        <span className="flex items-center gap-1 text-xs text-green-600 dark:text-green-400" title="SHA-256 校验通过">
+                          <ShieldCheck className="size-4" />
+                          已校验
+                        </span>
+                      )}
+                      {item.integrity === "failed" && (
+                        <span className="flex items-center gap-1 text-xs text-red-600 dark:text-red-400" title="SHA-256 校验失败">
+                          <ShieldAlert className="size-4" />
+                          校验失败
+                        </span>
+                      )}
                     </div>
                   ) : (
                     <div className="p-3 bg-gray-100 dark:bg-gray-950 rounded">
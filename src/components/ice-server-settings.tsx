@@ -0,0 +1,206 @@
+import { useState, useEffect } from "react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  IceMode,
+  IceServerEntry,
+  IceSettings,
+  createIceServerEntry,
+  parseIceUrls,
+  testIceSettings,
+  validateIceServer,
+} from "../lib/ice-config";
+
+interface IceServerSettingsProps {
+  open: boolean;
+  settings: IceSettings;
+  onSettingsChange: (settings: IceSettings) => void;
+}
+
+const modeDescriptions: Record<IceMode, string> = {
+  default: "使用内置的公共 STUN 服务器",
+  custom: "使用自己的 STUN/TURN 服务器，对称型 NAT 下需要 TURN 中继",
+  lan: "不使用任何服务器，只能连接同一局域网中的设备，不向外部暴露本机地址",
+};
+
+export function IceServerSettings({ open, settings, onSettingsChange }: IceServerSettingsProps) {
+  // 修改先保存在草稿中，检查通过后再应用
+  const [draft, setDraft] = useState<IceSettings>(settings);
+  const [testing, setTesting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(settings);
+    }
+  }, [open, settings]);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const updateServer = (id: string, updates: Partial<IceServerEntry>) => {
+    setDraft((prev) => ({
+      ...prev,
+      servers: prev.servers.map((server) => (server.id === id ? { ...server, ...updates } : server)),
+    }));
+  };
+
+  const validate = (): boolean => {
+    if (draft.mode !== "custom") return true;
+    if (draft.servers.length === 0) {
+      toast.error("请至少添加一个服务器");
+      return false;
+    }
+    for (const server of draft.servers) {
+      const error = validateIceServer(server);
+      if (error) {
+        toast.error(error);
+        return false;
+      }
+    }
+    return true;
+  };
+
+  const handleApply = () => {
+    if (!validate()) return;
+    onSettingsChange(draft);
+    toast.success("ICE 服务器配置已保存，对新建立的连接生效");
+  };
+
+  const handleTest = async () => {
+    if (!validate()) return;
+    setTesting(true);
+    try {
+      const result = await testIceSettings(draft);
+      result.errors.forEach((error) => toast.error(`获取 TURN 凭据失败: ${error}`));
+      const summary = `本机 ${result.host}，STUN ${result.srflx}，TURN ${result.relay}`;
+      if (result.relay > 0) {
+        toast.success(`TURN 中继可用（${summary}）`);
+      } else if (result.srflx > 0) {
+        toast.success(`STUN 可用，未获得中继地址（${summary}）`);
+      } else if (draft.mode === "lan") {
+        toast.info(`仅使用本机地址（${summary}）`);
+      } else {
+        toast.warning(`未能通过服务器获得地址，请检查配置（${summary}）`);
+      }
+    } catch (error) {
+      console.error("ICE 测试失败:", error);
+      toast.error("测试失败");
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>ICE 服务器</Label>
+        <Select value={draft.mode} onValueChange={(mode) => setDraft((prev) => ({ ...prev, mode: mode as IceMode }))}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default">默认</SelectItem>
+            <SelectItem value="custom">自定义 STUN/TURN</SelectItem>
+            <SelectItem value="lan">仅局域网</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-gray-500">{modeDescriptions[draft.mode]}</p>
+      </div>
+
+      {draft.mode === "custom" && (
+        <>
+          {draft.servers.map((server) => {
+            const useCredentialUrl = server.credentialUrl !== undefined;
+            return (
+              <div key={server.id} className="space-y-2 p-3 border border-gray-200 dark:border-gray-800 rounded-lg">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={useCredentialUrl ? "rest" : "static"}
+                    onValueChange={(value) =>
+                      updateServer(server.id, { credentialUrl: value === "rest" ? "" : undefined })
+                    }
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="static">服务器地址</SelectItem>
+                      <SelectItem value="rest">临时凭据接口</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDraft((prev) => ({ ...prev, servers: prev.servers.filter((s) => s.id !== server.id) }))}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+
+                {useCredentialUrl ? (
+                  <>
+                    <Input
+                      value={server.credentialUrl}
+                      onChange={(e) => updateServer(server.id, { credentialUrl: e.target.value.trim() })}
+                      placeholder="https://example.com/turn-credentials"
+                    />
+                    <p className="text-xs text-gray-500">
+                      每次连接前从此接口获取有时效的 TURN 凭据，过期前自动刷新
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <Input
+                      defaultValue={server.urls.join(", ")}
+                      onBlur={(e) => updateServer(server.id, { urls: parseIceUrls(e.target.value) })}
+                      placeholder="turn:turn.example.com:3478, stun:stun.example.com"
+                    />
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        value={server.username || ""}
+                        onChange={(e) => updateServer(server.id, { username: e.target.value || undefined })}
+                        placeholder="用户名（TURN）"
+                        autoComplete="off"
+                      />
+                      <Input
+                        type="password"
+                        value={server.credential || ""}
+                        onChange={(e) => updateServer(server.id, { credential: e.target.value || undefined })}
+                        placeholder="密码（TURN）"
+                        autoComplete="new-password"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDraft((prev) => ({ ...prev, servers: [...prev.servers, createIceServerEntry()] }))}
+          >
+            <Plus className="size-4" />
+            添加服务器
+          </Button>
+        </>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={handleTest} disabled={testing}>
+          {testing && <Loader2 className="size-4 animate-spin" />}
+          测试
+        </Button>
+        {dirty && (
+          <Button size="sm" onClick={handleApply}>
+            应用
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,30 +1,64 @@
-import { File, Download, X, Check } from "lucide-react";
+import { useState } from "react";
+import { File, Folder, Download, X, Check, ShieldAlert, Pause, Play, Ban } from "lucide-react";
 import { Button } from "./ui/button";
 import { Progress } from "./ui/progress";
+import { Checkbox } from "./ui/checkbox";
 
 interface IncomingFile {
   fileName: string;
   fileSize: number;
   senderName: string;
-  status: 'pending' | 'receiving' | 'completed' | 'rejected';
+  status: 'pending' | 'receiving' | 'paused' | 'interrupted' | 'corrupted' | 'cancelled' | 'completed' | 'rejected';
   progress: number;
+  fileCount?: number; // 文件夹或批量传输中的文件数
+  items?: { fileId: string; name: string; size: number }[]; // 批量传输中的文件
 }
 
 interface IncomingFilesListProps {
   files: Map<string, IncomingFile>;
-  onAccept: (fileId: string) => void;
+  onAccept: (fileId: string, selectedIds?: string[]) => void;
   onReject: (fileId: string) => void;
+  onPause?: (fileId: string) => void;
+  onResume?: (fileId: string) => void;
+  onCancel?: (fileId: string) => void;
 }
 
 export function IncomingFilesList({
   files,
   onAccept,
   onReject,
+  onPause,
+  onResume,
+  onCancel,
 }: IncomingFilesListProps) {
+  // 批量传输中取消勾选的文件
+  const [excluded, setExcluded] = useState<Map<string, Set<string>>>(new Map());
+
   if (files.size === 0) {
     return null;
   }
 
+  const toggleItem = (batchId: string, itemId: string, checked: boolean) => {
+    setExcluded((prev) => {
+      const newMap = new Map(prev);
+      const items = new Set(prev.get(batchId));
+      if (checked) {
+        items.delete(itemId);
+      } else {
+        items.add(itemId);
+      }
+      newMap.set(batchId, items);
+      return newMap;
+    });
+  };
+
+  // 选中的文件，非批量传输时返回 undefined
+  const getSelectedIds = (fileId: string, file: IncomingFile) => {
+    if (!file.items) return undefined;
+    const skipped = excluded.get(fileId);
+    return file.items.map((item) => item.fileId).filter((id) => !skipped?.has(id));
+  };
+
   const formatSize = (bytes: number) => {
     if (bytes === 0) return "0 Bytes";
     const k = 1024;
@@ -48,13 +82,18 @@ export function IncomingFilesList({
             <div key={fileId} className="p-4 space-y-3">
               <div className="flex items-start gap-3">
                 <div className="p-2 bg-blue-50 dark:bg-blue-950 rounded-lg">
-                  <File className="size-4 text-blue-600 dark:text-blue-400" />
+                  {file.fileCount !== undefined ? (
+                    <Folder className="size-4 text-blue-600 dark:text-blue-400" />
+                  ) : (
+                    <File className="size-4 text-blue-600 dark:text-blue-400" />
+                  )}
                 </div>
 
                 <div className="flex-1 min-w-0">
                   <p className="font-medium truncate">{file.fileName}</p>
                   <p className="text-sm text-gray-500 dark:text-gray-400">
                     {file.senderName} · {formatSize(file.fileSize)}
+                    {file.fileCount !== undefined && ` · ${file.fileCount} 个文件`}
                   </p>
                 </div>
               </div>
@@ -68,6 +107,63 @@ export function IncomingFilesList({
                 </div>
               )}
 
+              {file.status === 'paused' && (
+                <div className="space-y-2">
+                  <Progress value={file.progress} className="h-2" />
+                  <p className="text-xs text-center text-amber-600 dark:text-amber-400">
+                    已暂停（已完成 {file.progress}%）
+                  </p>
+                </div>
+              )}
+
+              {(file.status === 'receiving' || file.status === 'paused' || file.status === 'interrupted') && (
+                <div className="flex gap-2">
+                  {file.status === 'receiving' && onPause && (
+                    <Button variant="outline" size="sm" className="flex-1" onClick={() => onPause(fileId)}>
+                      <Pause className="size-4 mr-1" />
+                      暂停
+                    </Button>
+                  )}
+                  {file.status === 'paused' && onResume && (
+                    <Button variant="outline" size="sm" className="flex-1" onClick={() => onResume(fileId)}>
+                      <Play className="size-4 mr-1" />
+                      继续
+                    </Button>
+                  )}
+                  {onCancel && (
+                    <Button variant="outline" size="sm" className="flex-1" onClick={() => onCancel(fileId)}>
+                      <X className="size-4 mr-1" />
+                      取消
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {file.status === 'cancelled' && (
+                <div className="flex items-center justify-center gap-2 text-gray-500 dark:text-gray-400 py-2">
+                  <Ban className="size-4" />
+                  <span className="text-sm font-medium">传输已取消</span>
+                </div>
+              )}
+
+              {file.status === 'interrupted' && (
+                <div className="space-y-2">
+                  <Progress value={file.progress} className="h-2" />
+                  <p className="text-xs text-center text-amber-600 dark:text-amber-400">
+                    传输中断（已完成 {file.progress}%），重新连接后自动续传
+                  </p>
+                </div>
+              )}
+
+              {file.status === 'corrupted' && (
+                <div className="flex items-center justify-center gap-2 text-red-600 dark:text-red-400 py-2">
+                  <ShieldAlert className="size-4" />
+                  <span className="text-sm font-medium">
+                    {file.fileCount !== undefined ? '部分文件接收失败' : '完整性校验失败，文件已丢弃'}
+                  </span>
+                </div>
+              )}
+
               {file.status === 'completed' && (
                 <div className="flex items-center justify-center gap-2 text-green-600 dark:text-green-400 py-2">
                   <Check className="size-4" />
@@ -75,6 +171,21 @@ export function IncomingFilesList({
                 </div>
               )}
 
+              {file.status === 'pending' && file.items && (
+                <div className="max-h-40 overflow-y-auto space-y-1 rounded-md bg-gray-50 dark:bg-gray-900 p-2">
+                  {file.items.map((item) => (
+                    <label key={item.fileId} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={!excluded.get(fileId)?.has(item.fileId)}
+                        onCheckedChange={(checked) => toggleItem(fileId, item.fileId, checked === true)}
+                      />
+                      <span className="flex-1 truncate" title={item.name}>{item.name}</span>
+                      <span className="text-xs text-gray-500 flex-shrink-0">{formatSize(item.size)}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+
               {file.status === 'pending' && (
                 <div className="flex gap-2">
                   <Button
@@ -88,7 +199,8 @@ export function IncomingFilesList({
                   <Button
                     size="sm"
                     className="flex-1"
-                    onClick={() => onAccept(fileId)}
+                    disabled={getSelectedIds(fileId, file)?.length === 0}
+                    onClick={() => onAccept(fileId, getSelectedIds(fileId, file))}
                   >
                     <Download className="size-4 mr-1" />
                     接收
@@ -1,28 +1,75 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useClipboardMonitor } from "../hooks/use-clipboard-monitor";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "./ui/dialog";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
-import { QRCodeSVG } from "qrcode.react";
-import { Copy, Check, ScanLine, ArrowRight, Loader2, Circle, CircleCheck } from "lucide-react";
+import { Checkbox } from "./ui/checkbox";
+import { Copy, Check, ScanLine, ArrowRight, Loader2, Circle, CircleCheck, ShieldCheck, Users, Link as LinkIcon, AlertCircle, Smartphone } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { zhCN } from "date-fns/locale";
 import { toast } from "sonner";
 import { HybridConnectionManager } from "../lib/hybrid-connection-manager";
-import { sdpCompressor } from "../lib/sdp-compressor";
+import { DecompressResult, sdpCompressor } from "../lib/sdp-compressor";
+import { DeviceEvent, DeviceInfo } from "../lib/device-manager";
+import { generateRoomCode, normalizeRoomCode, ROOM_CODE_LENGTH, SignalingTransport } from "../lib/signaling-client";
+import { useStore } from "../store/use-store";
+import { QrScanner } from "./qr-scanner";
+import { AnimatedQrCode } from "./animated-qr-code";
+import { QrFrameAssembler } from "../lib/qr-frames";
+import { ConnectionLink, ConnectionLinkKind, createConnectionLink, listenForwardedLinks } from "../lib/connection-link";
+
+// 粗略判断文本是否为连接码（剪贴板、扫码结果）
+function isConnectionCode(text: string): boolean {
+  const trimmed = text.trim();
+  return (
+    trimmed.startsWith("X2:") ||
+    trimmed.startsWith("X1:") ||
+    trimmed.startsWith("XTRANS:") ||
+    trimmed.length > 100 // 简单验证：连接码通常很长
+  );
+}
+
+// 连接前显示连接码来自哪台设备，或无法使用的原因
+function CodePreview({ result }: { result: DecompressResult | null }) {
+  if (!result) return null;
+  if (!result.ok) {
+    return (
+      <p className="flex items-center gap-1.5 text-xs text-red-600">
+        <AlertCircle className="size-3.5 flex-shrink-0" />
+        {result.message}
+      </p>
+    );
+  }
+  if (!result.origin) {
+    return <p className="text-xs text-gray-500">对方使用的是旧版本，无法显示来源</p>;
+  }
+  return (
+    <p className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-400">
+      <Smartphone className="size-3.5 flex-shrink-0" />
+      来自 <span className="font-medium">{result.origin.deviceName || "未命名设备"}</span>，
+      {formatDistanceToNow(new Date(result.origin.createdAt), { addSuffix: true, locale: zhCN })}生成
+    </p>
+  );
+}
 
 interface ManualConnectionDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   connectionManager: HybridConnectionManager | null;
+  signaling: SignalingTransport | null; // 未配置信令服务器时为 null，只能手动交换连接码
+  initialLink?: ConnectionLink | null; // 从连接链接打开时预先填入的连接码
 }
 
 export function ManualConnectionDialog({
   open,
   onOpenChange,
   connectionManager,
+  signaling,
+  initialLink = null,
 }: ManualConnectionDialogProps) {
-  const [activeTab, setActiveTab] = useState<"sender" | "receiver">("sender");
+  const [activeTab, setActiveTab] = useState<"room" | "sender" | "receiver">("sender");
   const [step, setStep] = useState<number>(1);
   const [offerCode, setOfferCode] = useState<string>("");
   const [answerCode, setAnswerCode] = useState<string>("");
@@ -30,6 +77,27 @@ export function ManualConnectionDialog({
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [copied, setCopied] = useState<boolean>(false);
   const [connectionStatus, setConnectionStatus] = useState<string>("");
+  // 连接建立后核对安全码
+  const [verifying, setVerifying] = useState<{
+    deviceId: string;
+    deviceName: string;
+    authString: string | null;
+    encrypted: boolean;
+  } | null>(null);
+  const [trustAfterVerify, setTrustAfterVerify] = useState<boolean>(true);
+  // 房间码连接：已加入的房间和房间中的其他设备
+  const [room, setRoom] = useState<{ code: string; devices: DeviceInfo[] } | null>(null);
+  const [roomInput, setRoomInput] = useState<string>("");
+  const [scanning, setScanning] = useState<boolean>(false);
+  const [scanProgress, setScanProgress] = useState<{ received: number; total: number } | null>(null);
+  const frameAssemblerRef = useRef(new QrFrameAssembler());
+
+  // 输入的连接码：发起方需要响应码，接收方需要连接码
+  const codePreview = useMemo(() => {
+    const code = inputCode.trim();
+    if (!code || (activeTab !== "sender" && activeTab !== "receiver")) return null;
+    return sdpCompressor.decompress(code, activeTab === "sender" ? "answer" : "offer");
+  }, [inputCode, activeTab]);
 
   // 剪贴板监听 - 自动识别连接码
   const { setEnabled: setClipboardMonitorEnabled } = useClipboardMonitor({
@@ -38,33 +106,135 @@ export function ManualConnectionDialog({
       toast.success("已识别剪贴板中的连接码");
       setConnectionStatus("已自动填充连接码");
     },
-    validator: (text) => {
-      const trimmed = text.trim();
-      // 验证是否是有效的连接码格式
-      return (
-        trimmed.startsWith("X1:") ||
-        trimmed.startsWith("XTRANS:") ||
-        trimmed.length > 100 // 简单验证：连接码通常很长
-      );
-    },
+    validator: isConnectionCode,
     interval: 3000, // 每3秒检查一次
   });
 
   // 重置状态
   useEffect(() => {
     if (open) {
+      // 从连接链接打开时直接进入接收方，否则信令服务器可用时优先使用房间码，再否则手动交换连接码
+      if (initialLink?.kind === "offer") {
+        setActiveTab("receiver");
+      } else {
+        setActiveTab(signaling?.isConnected() ? "room" : "sender");
+      }
+      setRoom(null);
+      setRoomInput("");
       setStep(1);
       setOfferCode("");
       setAnswerCode("");
-      setInputCode("");
+      setInputCode(initialLink?.kind === "offer" ? initialLink.code : "");
+      setScanning(false);
       setIsLoading(false);
-      setConnectionStatus("");
+      setConnectionStatus(initialLink?.kind === "offer" ? "已从链接填入连接码，点击下一步生成响应码" : "");
+      setVerifying(null);
+      setTrustAfterVerify(true);
       // 关闭对话框时禁用剪贴板监听
       return () => {
         setClipboardMonitorEnabled(false);
       };
     }
-  }, [open, setClipboardMonitorEnabled]);
+  }, [open, initialLink, setClipboardMonitorEnabled]);
+
+  // 等待响应码时，接收在其他页面打开的响应码链接
+  useEffect(() => {
+    if (!open || activeTab !== "sender" || step !== 2) return;
+
+    return listenForwardedLinks((link) => {
+      if (link.kind !== "answer") return false;
+      setInputCode(link.code);
+      setConnectionStatus("已从链接填入响应码");
+      toast.success("已收到对方的响应码链接");
+      return true;
+    });
+  }, [open, activeTab, step]);
+
+  // 房间中的设备变化；关闭对话框时离开房间，已建立的连接不受影响
+  useEffect(() => {
+    if (!open || !signaling) return;
+
+    const handleSignalingEvent = (event: DeviceEvent) => {
+      if (event.type === "room_joined" && event.room) {
+        setRoom({ code: event.room, devices: event.devices });
+        setIsLoading(false);
+        setConnectionStatus(event.devices.length > 0 ? "正在连接房间中的设备..." : "等待其他设备加入房间...");
+      } else if (event.type === "device_joined") {
+        setRoom((prev) => prev && {
+          ...prev,
+          devices: [...prev.devices.filter((d) => d.deviceId !== event.device.deviceId), event.device],
+        });
+        setConnectionStatus(`${event.device.deviceName} 已加入，正在连接...`);
+      } else if (event.type === "device_left") {
+        setRoom((prev) => prev && { ...prev, devices: prev.devices.filter((d) => d.deviceId !== event.deviceId) });
+      }
+    };
+
+    signaling.addEventListener(handleSignalingEvent);
+    return () => {
+      signaling.removeEventListener(handleSignalingEvent);
+      if (signaling.getRoom()) {
+        signaling.joinRoom(null);
+      }
+    };
+  }, [open, signaling]);
+
+  // 加入房间，房间中的设备由连接管理器自动连接
+  const handleJoinRoom = (code: string) => {
+    if (!signaling?.joinRoom(code)) {
+      toast.error("无法连接信令服务器，请使用手动连接");
+      setActiveTab("sender");
+      return;
+    }
+    setIsLoading(true);
+    setConnectionStatus("正在加入房间...");
+  };
+
+  const handleSubmitRoomCode = () => {
+    const code = normalizeRoomCode(roomInput);
+    if (!code) {
+      toast.error(`房间码应为 ${ROOM_CODE_LENGTH} 位字母或数字`);
+      return;
+    }
+    handleJoinRoom(code);
+  };
+
+  const handleLeaveRoom = () => {
+    signaling?.joinRoom(null);
+    setRoom(null);
+    setConnectionStatus("");
+  };
+
+  const toggleScanning = () => {
+    frameAssemblerRef.current.reset();
+    setScanProgress(null);
+    setScanning(!scanning);
+  };
+
+  // 扫描到连接码后填入输入框，与粘贴的效果相同；多帧二维码收齐后再填入
+  const handleScan = (scanned: string) => {
+    const result = frameAssemblerRef.current.add(scanned);
+    if (result.status === "progress") {
+      setScanProgress({ received: result.received, total: result.total });
+      return;
+    }
+    if (result.status === "invalid") {
+      setScanProgress(null);
+      toast.error("动态二维码识别有误，请重新扫描");
+      return;
+    }
+
+    const text = result.code;
+    setScanProgress(null);
+    if (!isConnectionCode(text)) {
+      toast.error("二维码不是连接码");
+      return;
+    }
+    setInputCode(text.trim());
+    setScanning(false);
+    toast.success("已识别二维码中的连接码");
+    setConnectionStatus("已扫描连接码");
+  };
 
   // 当输入框获得焦点时，启用剪贴板监听
   const handleInputFocus = () => {
@@ -75,17 +245,31 @@ export function ManualConnectionDialog({
   useEffect(() => {
     if (!open || !connectionManager) return;
 
-    const handleConnectionEvent = (event: any) => {
-      // 监听握手成功事件
-      if (event.type === 'handshakeReceived') {
-        toast.success("连接建立成功！");
-        onOpenChange(false);
+    let verifyingDeviceId: string | null = null;
+
+    const handleConnectionEvent = async (event: any) => {
+      // 握手成功后显示安全码，由双方核对（握手会重复发送，只处理第一次）
+      if (event.type === 'handshakeReceived' && !verifyingDeviceId) {
+        const deviceId: string = event.deviceId;
+        verifyingDeviceId = deviceId;
+        const authString = await connectionManager.getAuthString(deviceId);
+        setVerifying({
+          deviceId,
+          deviceName: event.message?.data?.deviceName || deviceId,
+          authString,
+          encrypted: connectionManager.isEncrypted(deviceId),
+        });
+        setIsLoading(false);
+        setConnectionStatus("连接已建立，请与对方核对安全码");
+      }
+      // 对方身份验证失败时连接已被断开，不再等待握手
+      if (event.type === 'identityChecked' && event.identity === 'mismatch' && !verifyingDeviceId) {
+        setIsLoading(false);
+        setConnectionStatus("对方身份验证失败，可能是冒充的设备，已断开连接");
       }
-      // 也可以监听连接状态变化作为备选
       if (event.type === 'connectionStateChanged' && event.state?.status === 'connected') {
         console.log("连接状态变为已连接");
-        toast.success("连接建立成功！");
-        onOpenChange(false);
+        setConnectionStatus("已连接，正在交换设备信息...");
       }
     };
 
@@ -94,7 +278,28 @@ export function ManualConnectionDialog({
     return () => {
       connectionManager.removeEventListener(handleConnectionEvent);
     };
-  }, [open, connectionManager, onOpenChange]);
+  }, [open, connectionManager]);
+
+  // 安全码一致：完成连接，并按用户选择信任该设备
+  const handleConfirmAuth = async () => {
+    if (verifying && trustAfterVerify && connectionManager) {
+      const device = useStore.getState().getDeviceById(verifying.deviceId);
+      if (device && (await connectionManager.trustDevice(device))) {
+        toast.success(`已信任 ${device.deviceName}，重连时将验证其身份`);
+      }
+    }
+    toast.success("连接建立成功！");
+    onOpenChange(false);
+  };
+
+  // 安全码不一致：连接码在传递途中可能被篡改，断开连接
+  const handleRejectAuth = () => {
+    if (verifying) {
+      connectionManager?.disconnect(verifying.deviceId);
+    }
+    toast.error("安全码不一致，已断开连接");
+    onOpenChange(false);
+  };
 
   // 复制到剪贴板
   const handleCopy = async (text: string) => {
@@ -137,6 +342,22 @@ export function ManualConnectionDialog({
     }
   };
 
+  // 分享连接链接：支持系统分享时直接发送到聊天工具，否则复制链接
+  const handleShareLink = async (kind: ConnectionLinkKind, code: string) => {
+    const url = createConnectionLink(kind, code);
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: kind === "offer" ? "XTrans 连接邀请" : "XTrans 连接响应", url });
+        return;
+      } catch (error) {
+        // 用户取消分享时不再复制
+        if (error instanceof DOMException && error.name === "AbortError") return;
+        console.warn("系统分享失败，改为复制链接:", error);
+      }
+    }
+    await handleCopy(url);
+  };
+
   // 发起方：生成连接码 (Offer) - 已简化，使用压缩版本
   const handleGenerateOffer = async () => {
     if (!connectionManager) return;
@@ -295,144 +516,274 @@ export function ManualConnectionDialog({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>手动连接设备</DialogTitle>
+          <DialogTitle>连接设备</DialogTitle>
           <DialogDescription>
-            {connectionStatus || "通过扫描二维码或复制连接码来连接设备（无需服务器）"}
+            {connectionStatus || (activeTab === "room"
+              ? "在各台设备上输入同一个房间码，即可自动连接"
+              : "通过扫描二维码或复制连接码来连接设备（无需服务器）")}
           </DialogDescription>
         </DialogHeader>
 
         {/* 步骤指示器 */}
-        <div className="flex items-center justify-between px-4 py-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-          {steps.map((s, index) => (
-            <div key={index} className="flex items-center flex-1">
-              <div className="flex flex-col items-center flex-1">
-                {s.status === "completed" ? (
-                  <CircleCheck className="size-5 text-green-600" />
-                ) : s.status === "active" ? (
-                  <div className="relative">
-                    <Circle className="size-5 text-blue-600" />
-                    {isLoading && index === steps.findIndex(step => step.status === "active") && (
-                      <Loader2 className="absolute inset-0 size-5 text-blue-600 animate-spin" />
-                    )}
-                  </div>
-                ) : (
-                  <Circle className="size-5 text-gray-400" />
+        {activeTab !== "room" && (
+          <div className="flex items-center justify-between px-4 py-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+            {steps.map((s, index) => (
+              <div key={index} className="flex items-center flex-1">
+                <div className="flex flex-col items-center flex-1">
+                  {s.status === "completed" ? (
+                    <CircleCheck className="size-5 text-green-600" />
+                  ) : s.status === "active" ? (
+                    <div className="relative">
+                      <Circle className="size-5 text-blue-600" />
+                      {isLoading && index === steps.findIndex(step => step.status === "active") && (
+                        <Loader2 className="absolute inset-0 size-5 text-blue-600 animate-spin" />
+                      )}
+                    </div>
+                  ) : (
+                    <Circle className="size-5 text-gray-400" />
+                  )}
+                  <span className={`text-xs mt-1 ${
+                    s.status === "completed" ? "text-green-600" :
+                    s.status === "active" ? "text-blue-600 font-medium" :
+                    "text-gray-500"
+                  }`}>
+                    {s.title}
+                  </span>
+                </div>
+                {index < steps.length - 1 && (
+                  <div className={`h-px flex-1 mx-2 ${
+                    s.status === "completed" ? "bg-green-600" : "bg-gray-300"
+                  }`} />
                 )}
-                <span className={`text-xs mt-1 ${
-                  s.status === "completed" ? "text-green-600" :
-                  s.status === "active" ? "text-blue-600 font-medium" :
-                  "text-gray-500"
-                }`}>
-                  {s.title}
-                </span>
               </div>
-              {index < steps.length - 1 && (
-                <div className={`h-px flex-1 mx-2 ${
-                  s.status === "completed" ? "bg-green-600" : "bg-gray-300"
-                }`} />
+            ))}
+          </div>
+        )}
+
+        {verifying ? (
+          <div className="space-y-4 py-4">
+            <div className="flex flex-col items-center space-y-3 text-center">
+              <ShieldCheck className="size-10 text-green-600" />
+              <p className="text-sm">
+                已连接到 <span className="font-medium">{verifying.deviceName}</span>
+              </p>
+              {verifying.authString ? (
+                <>
+                  <p className="text-sm text-gray-500">请确认对方屏幕上显示的安全码与下方一致</p>
+                  <p className="font-mono text-3xl font-semibold tracking-widest">{verifying.authString}</p>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">当前环境无法生成安全码</p>
               )}
+              <p className="text-xs text-gray-500">
+                {verifying.encrypted ? "文件和消息已启用端到端加密" : "对方版本不支持端到端加密，仅使用 WebRTC 传输加密"}
+              </p>
             </div>
-          ))}
-        </div>
-
-        <Tabs value={activeTab} onValueChange={(v) => {
-          setActiveTab(v as "sender" | "receiver");
-          setStep(1);
-          setOfferCode("");
-          setAnswerCode("");
-          setInputCode("");
-        }} className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="sender">我是发起方</TabsTrigger>
-            <TabsTrigger value="receiver">我是接收方</TabsTrigger>
-          </TabsList>
-
-          {/* 发起方界面 */}
-          <TabsContent value="sender" className="space-y-4 py-4">
-            {step === 1 && (
-              <div className="flex flex-col items-center justify-center space-y-4">
-                <div className="text-center space-y-2">
-                  <p className="text-sm text-gray-500">第一步：生成连接码并发送给对方</p>
-                </div>
-                <Button onClick={generateOffer} disabled={isLoading} className="w-full">
-                  {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ScanLine className="mr-2 h-4 w-4" />}
-                  生成我的连接码
-                </Button>
+            {verifying.authString && (
+              <div className="flex items-center justify-center gap-2">
+                <Checkbox
+                  id="trust-device"
+                  checked={trustAfterVerify}
+                  onCheckedChange={(checked) => setTrustAfterVerify(checked === true)}
+                />
+                <label htmlFor="trust-device" className="text-sm">
+                  信任此设备，重连时自动验证身份
+                </label>
               </div>
             )}
-
-            {step === 2 && (
-              <div className="space-y-6">
-                <div className="space-y-2 text-center">
-                  <p className="text-sm font-medium">1. 让对方扫描或复制此代码</p>
-                  <div className="flex justify-center p-4 bg-white rounded-lg border">
-                    <QRCodeSVG value={offerCode} size={160} />
-                  </div>
-                  <div className="flex gap-2">
-                    <Input value={offerCode} readOnly className="font-mono text-xs" />
-                    <Button size="icon" variant="outline" onClick={() => handleCopy(offerCode)}>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={handleRejectAuth}>
+                不一致，断开
+              </Button>
+              <Button className="flex-1" onClick={handleConfirmAuth}>
+                一致
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Tabs value={activeTab} onValueChange={(v) => {
+            setActiveTab(v as "room" | "sender" | "receiver");
+            setStep(1);
+            setOfferCode("");
+            setAnswerCode("");
+            setInputCode("");
+            setScanning(false);
+            setConnectionStatus("");
+          }} className="w-full">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="room">房间码</TabsTrigger>
+              <TabsTrigger value="sender">我是发起方</TabsTrigger>
+              <TabsTrigger value="receiver">我是接收方</TabsTrigger>
+            </TabsList>
+
+            {/* 房间码界面 */}
+            <TabsContent value="room" className="space-y-4 py-4">
+              {!signaling ? (
+                <p className="text-sm text-gray-500 text-center">
+                  尚未配置信令服务器，请在设置中填写服务器地址，或使用手动连接
+                </p>
+              ) : room ? (
+                <div className="space-y-4 text-center">
+                  <p className="text-sm text-gray-500">让其他设备输入此房间码</p>
+                  <div className="flex items-center justify-center gap-2">
+                    <span className="font-mono text-4xl font-semibold tracking-[0.3em]">{room.code}</span>
+                    <Button size="icon" variant="ghost" onClick={() => handleCopy(room.code)}>
                       {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
                     </Button>
                   </div>
+                  {room.devices.length === 0 ? (
+                    <p className="flex items-center justify-center gap-2 text-sm text-gray-500">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      等待其他设备加入...
+                    </p>
+                  ) : (
+                    <div className="space-y-1 text-sm">
+                      {room.devices.map((device) => (
+                        <p key={device.deviceId} className="flex items-center justify-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+                          正在连接 {device.deviceName}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+                  <Button variant="ghost" className="w-full" onClick={handleLeaveRoom}>
+                    离开房间
+                  </Button>
                 </div>
-
-                <div className="space-y-2">
-                  <p className="text-sm font-medium text-center">2. 输入对方的响应码</p>
-                  <Input
-                    placeholder="粘贴对方的响应码（点击后自动识别剪贴板）"
-                    value={inputCode}
-                    onChange={(e) => setInputCode(e.target.value)}
-                    onFocus={handleInputFocus}
-                  />
-                  <Button onClick={finalizeConnection} disabled={!inputCode || isLoading} className="w-full">
-                    {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : "完成连接"}
+              ) : (
+                <div className="space-y-4">
+                  <Button onClick={() => handleJoinRoom(generateRoomCode())} disabled={isLoading} className="w-full">
+                    {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Users className="mr-2 h-4 w-4" />}
+                    创建房间
                   </Button>
+                  <div className="flex items-center gap-2 text-xs text-gray-400">
+                    <div className="h-px flex-1 bg-gray-200 dark:bg-gray-800" />
+                    或加入已有房间
+                    <div className="h-px flex-1 bg-gray-200 dark:bg-gray-800" />
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder={`输入 ${ROOM_CODE_LENGTH} 位房间码`}
+                      value={roomInput}
+                      onChange={(e) => setRoomInput(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleSubmitRoomCode()}
+                      className="font-mono uppercase tracking-widest"
+                    />
+                    <Button onClick={handleSubmitRoomCode} disabled={!roomInput || isLoading}>
+                      加入
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            )}
-          </TabsContent>
-
-          {/* 接收方界面 */}
-          <TabsContent value="receiver" className="space-y-4 py-4">
-            {step === 1 && (
-              <div className="space-y-4">
-                <div className="text-center space-y-2">
-                  <p className="text-sm text-gray-500">第一步：输入发起方的连接码</p>
+              )}
+            </TabsContent>
+
+            {/* 发起方界面 */}
+            <TabsContent value="sender" className="space-y-4 py-4">
+              {step === 1 && (
+                <div className="flex flex-col items-center justify-center space-y-4">
+                  <div className="text-center space-y-2">
+                    <p className="text-sm text-gray-500">第一步：生成连接码并发送给对方</p>
+                  </div>
+                  <Button onClick={generateOffer} disabled={isLoading} className="w-full">
+                    {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ScanLine className="mr-2 h-4 w-4" />}
+                    生成我的连接码
+                  </Button>
                 </div>
-                <Input
-                  placeholder="粘贴发起方的连接码（点击后自动识别剪贴板）"
-                  value={inputCode}
-                  onChange={(e) => setInputCode(e.target.value)}
-                  onFocus={handleInputFocus}
-                />
-                <Button onClick={handleProcessOffer} disabled={!inputCode || isLoading} className="w-full">
-                  {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ArrowRight className="mr-2 h-4 w-4" />}
-                  下一步
-                </Button>
-              </div>
-            )}
+              )}
 
-            {step === 2 && (
-              <div className="space-y-6">
-                <div className="space-y-2 text-center">
-                  <p className="text-sm font-medium">第二步：将此响应码发回给发起方</p>
-                  <div className="flex justify-center p-4 bg-white rounded-lg border">
-                    <QRCodeSVG value={answerCode} size={160} />
+              {step === 2 && (
+                <div className="space-y-6">
+                  <div className="space-y-2 text-center">
+                    <p className="text-sm font-medium">1. 让对方扫描此代码，或把代码、链接发给对方</p>
+                    <div className="flex justify-center p-4 bg-white rounded-lg border">
+                      <AnimatedQrCode value={offerCode} size={160} />
+                    </div>
+                    <div className="flex gap-2">
+                      <Input value={offerCode} readOnly className="font-mono text-xs" />
+                      <Button size="icon" variant="outline" onClick={() => handleCopy(offerCode)}>
+                        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                      </Button>
+                      <Button size="icon" variant="outline" onClick={() => handleShareLink("offer", offerCode)} title="分享连接链接">
+                        <LinkIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
                   </div>
+
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-center">2. 输入或扫描对方的响应码</p>
+                    {scanning && <QrScanner onScan={handleScan} onClose={toggleScanning} progress={scanProgress} />}
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="粘贴对方的响应码（点击后自动识别剪贴板）"
+                        value={inputCode}
+                        onChange={(e) => setInputCode(e.target.value)}
+                        onFocus={handleInputFocus}
+                      />
+                      <Button size="icon" variant="outline" onClick={toggleScanning} title="扫描二维码">
+                        <ScanLine className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <CodePreview result={codePreview} />
+                    <Button onClick={finalizeConnection} disabled={!codePreview?.ok || isLoading} className="w-full">
+                      {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : "完成连接"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </TabsContent>
+
+            {/* 接收方界面 */}
+            <TabsContent value="receiver" className="space-y-4 py-4">
+              {step === 1 && (
+                <div className="space-y-4">
+                  <div className="text-center space-y-2">
+                    <p className="text-sm text-gray-500">第一步：输入或扫描发起方的连接码</p>
+                  </div>
+                  {scanning && <QrScanner onScan={handleScan} onClose={toggleScanning} progress={scanProgress} />}
                   <div className="flex gap-2">
-                    <Input value={answerCode} readOnly className="font-mono text-xs" />
-                    <Button size="icon" variant="outline" onClick={() => handleCopy(answerCode)}>
-                      {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    <Input
+                      placeholder="粘贴发起方的连接码（点击后自动识别剪贴板）"
+                      value={inputCode}
+                      onChange={(e) => setInputCode(e.target.value)}
+                      onFocus={handleInputFocus}
+                    />
+                    <Button size="icon" variant="outline" onClick={toggleScanning} title="扫描二维码">
+                      <ScanLine className="h-4 w-4" />
                     </Button>
                   </div>
-                  <p className="text-xs text-gray-500 mt-4">
-                    等待发起方确认连接...
-                  </p>
+                  <CodePreview result={codePreview} />
+                  <Button onClick={handleProcessOffer} disabled={!codePreview?.ok || isLoading} className="w-full">
+                    {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ArrowRight className="mr-2 h-4 w-4" />}
+                    下一步
+                  </Button>
                 </div>
-              </div>
-            )}
-          </TabsContent>
-        </Tabs>
+              )}
+
+              {step === 2 && (
+                <div className="space-y-6">
+                  <div className="space-y-2 text-center">
+                    <p className="text-sm font-medium">第二步：将此响应码发回给发起方</p>
+                    <div className="flex justify-center p-4 bg-white rounded-lg border">
+                      <AnimatedQrCode value={answerCode} size={160} />
+                    </div>
+                    <div className="flex gap-2">
+                      <Input value={answerCode} readOnly className="font-mono text-xs" />
+                      <Button size="icon" variant="outline" onClick={() => handleCopy(answerCode)}>
+                        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                      </Button>
+                      <Button size="icon" variant="outline" onClick={() => handleShareLink("answer", answerCode)} title="分享响应链接">
+                        <LinkIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-4">
+                      等待发起方确认连接...
+                    </p>
+                  </div>
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,147 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "./ui/button";
+import { ImageUp, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { decodeQrFile, decodeQrFrame, isCameraAvailable } from "../lib/qr-scanner";
+
+// 摄像头画面的识别间隔
+const SCAN_INTERVAL = 200;
+
+interface QrScannerProps {
+  // 每识别到新的内容调用一次；是否停止扫描由调用方决定
+  onScan: (text: string) => void;
+  onClose: () => void;
+  // 多帧二维码的接收进度
+  progress?: { received: number; total: number } | null;
+}
+
+/**
+ * 二维码扫描
+ * 优先使用摄像头实时识别；无法使用摄像头时（不支持、未授权或非安全上下文）从图片文件（如截图）识别
+ */
+export function QrScanner({ onScan, onClose, progress }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const [cameraState, setCameraState] = useState<"starting" | "scanning" | "unavailable">(
+    isCameraAvailable() ? "starting" : "unavailable"
+  );
+
+  useEffect(() => {
+    if (!isCameraAvailable()) return;
+
+    let stopped = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let lastText: string | null = null;
+    const canvas = document.createElement("canvas");
+
+    const scan = () => {
+      if (stopped || !videoRef.current) return;
+      const text = decodeQrFrame(videoRef.current, canvas);
+      // 同一个二维码会在连续多帧中被识别，只通知一次
+      if (text && text !== lastText) {
+        lastText = text;
+        onScanRef.current(text);
+      }
+      timer = setTimeout(scan, SCAN_INTERVAL);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" }, audio: false })
+      .then(async (mediaStream) => {
+        if (stopped) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = mediaStream;
+        await video.play();
+        setCameraState("scanning");
+        scan();
+      })
+      .catch((error) => {
+        console.warn("无法打开摄像头:", error);
+        if (!stopped) {
+          setCameraState("unavailable");
+        }
+      });
+
+    return () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  // 多帧二维码可以一次选择多张截图
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // 允许再次选择同一文件
+    e.target.value = "";
+
+    for (const file of files) {
+      try {
+        const text = await decodeQrFile(file);
+        if (text) {
+          onScanRef.current(text);
+        } else {
+          toast.error(`未在图片中找到二维码: ${file.name}`);
+        }
+      } catch (error) {
+        console.error("识别图片失败:", error);
+        toast.error(`无法读取图片: ${file.name}`);
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative overflow-hidden rounded-lg bg-black aspect-square">
+        {cameraState !== "unavailable" && (
+          <video ref={videoRef} className="size-full object-cover" playsInline muted />
+        )}
+        {cameraState === "starting" && (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-white">
+            <Loader2 className="mr-2 size-4 animate-spin" />
+            正在打开摄像头...
+          </div>
+        )}
+        {cameraState === "scanning" && (
+          <div className="pointer-events-none absolute inset-[15%] rounded-lg border-2 border-white/80" />
+        )}
+        {cameraState === "unavailable" && (
+          <div className="absolute inset-0 flex items-center justify-center p-6 text-center text-sm text-gray-300">
+            无法使用摄像头，请选择包含二维码的图片或截图
+          </div>
+        )}
+        {progress && (
+          <div className="absolute inset-x-0 bottom-0 bg-black/60 px-3 py-2 text-center text-xs text-white">
+            动态二维码已接收 {progress.received}/{progress.total}，请保持扫描
+            <div className="mt-1 h-1 overflow-hidden rounded bg-white/30">
+              <div className="h-full bg-white" style={{ width: `${(progress.received / progress.total) * 100}%` }} />
+            </div>
+          </div>
+        )}
+        <Button
+          size="icon"
+          variant="ghost"
+          className="absolute right-2 top-2 text-white hover:bg-white/20 hover:text-white"
+          onClick={onClose}
+        >
+          <X className="size-4" />
+        </Button>
+      </div>
+      <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
+        <ImageUp className="mr-2 size-4" />
+        从图片识别
+      </Button>
+      <input ref={fileInputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleFileSelect} />
+    </div>
+  );
+}
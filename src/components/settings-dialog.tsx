@@ -13,6 +13,10 @@ import { Switch } from "./ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
 import { useState, useEffect } from "react";
 import { checkNotificationPermission } from "../lib/notifications";
+import { AutoAcceptRule } from "../lib/auto-accept";
+import { AutoAcceptRules } from "./auto-accept-rules";
+import { IceServerSettings } from "./ice-server-settings";
+import { IceSettings } from "../lib/ice-config";
 import { toast } from "sonner";
 
 interface SettingsDialogProps {
@@ -26,6 +30,14 @@ interface SettingsDialogProps {
   onSoundEnabledChange: (enabled: boolean) => void;
   notificationsEnabled: boolean;
   onNotificationsEnabledChange: (enabled: boolean) => void;
+  maxConcurrentTransfers: number;
+  onMaxConcurrentTransfersChange: (count: number) => void;
+  signalingUrl: string;
+  onSignalingUrlChange: (url: string) => void;
+  iceSettings: IceSettings;
+  onIceSettingsChange: (settings: IceSettings) => void;
+  autoAcceptRules: AutoAcceptRule[];
+  onAutoAcceptRulesChange: (rules: AutoAcceptRule[]) => void;
 }
 
 export function SettingsDialog({
@@ -39,22 +51,40 @@ export function SettingsDialog({
   onSoundEnabledChange,
   notificationsEnabled,
   onNotificationsEnabledChange,
+  maxConcurrentTransfers,
+  onMaxConcurrentTransfersChange,
+  signalingUrl,
+  onSignalingUrlChange,
+  iceSettings,
+  onIceSettingsChange,
+  autoAcceptRules,
+  onAutoAcceptRulesChange,
 }: SettingsDialogProps) {
   // 使用内部状态跟踪编辑中的设备名称
   const [editingDeviceName, setEditingDeviceName] = useState(deviceName);
+  const [editingSignalingUrl, setEditingSignalingUrl] = useState(signalingUrl);
 
   // 当对话框打开时，重置编辑中的名称为当前名称
   useEffect(() => {
     if (open) {
       setEditingDeviceName(deviceName);
+      setEditingSignalingUrl(signalingUrl);
     }
-  }, [open, deviceName]);
+  }, [open, deviceName, signalingUrl]);
 
   const handleDone = () => {
     // 只在名称真正改变时才触发更新
     if (editingDeviceName !== deviceName) {
       onDeviceNameChange(editingDeviceName);
     }
+    const url = editingSignalingUrl.trim();
+    if (url && !/^wss?:\/\//.test(url)) {
+      toast.error('信令服务器地址应以 ws:// 或 wss:// 开头');
+      return;
+    }
+    if (url !== signalingUrl) {
+      onSignalingUrlChange(url);
+    }
     onOpenChange(false);
   };
 
@@ -73,7 +103,7 @@ export function SettingsDialog({
   };
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-md">
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>设置</DialogTitle>
           <DialogDescription>
@@ -96,6 +126,27 @@ export function SettingsDialog({
             </p>
           </div>
 
+          {/* 信令服务器 */}
+          <div className="space-y-2">
+            <Label htmlFor="signaling-url">信令服务器（可选）</Label>
+            <Input
+              id="signaling-url"
+              value={editingSignalingUrl}
+              onChange={(e) => setEditingSignalingUrl(e.target.value)}
+              placeholder="ws://192.168.1.10:8080"
+            />
+            <p className="text-xs text-gray-500">
+              连接到同一服务器的设备将自动出现在设备列表中，运行 npm run signaling 启动服务器
+            </p>
+          </div>
+
+          {/* ICE 服务器 */}
+          <IceServerSettings
+            open={open}
+            settings={iceSettings}
+            onSettingsChange={onIceSettingsChange}
+          />
+
           {/* 主题 */}
           <div className="space-y-2">
             <Label>主题</Label>
@@ -111,6 +162,28 @@ export function SettingsDialog({
             </Select>
           </div>
 
+          {/* 并发传输 */}
+          <div className="space-y-2">
+            <Label>同时发送文件数</Label>
+            <Select
+              value={String(maxConcurrentTransfers)}
+              onValueChange={(value) => onMaxConcurrentTransfersChange(Number(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1</SelectItem>
+                <SelectItem value="2">2</SelectItem>
+                <SelectItem value="3">3</SelectItem>
+                <SelectItem value="5">5</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              向同一设备发送多个文件时，同时进行的文件数
+            </p>
+          </div>
+
           {/* 声音 */}
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
@@ -138,6 +211,13 @@ export function SettingsDialog({
               onCheckedChange={handleNotificationChange}
             />
           </div>
+
+          {/* 自动接收 */}
+          <AutoAcceptRules
+            open={open}
+            rules={autoAcceptRules}
+            onRulesChange={onAutoAcceptRulesChange}
+          />
         </div>
 
         <DialogFooter>
@@ -8,17 +8,19 @@ import {
   DialogTitle,
 } from "./ui/dialog";
 import { Button } from "./ui/button";
-import { Copy, Check, Share2, Link as LinkIcon } from "lucide-react";
+import { Copy, Check, Share2, Link as LinkIcon, Send } from "lucide-react";
 import { toast } from "sonner";
 
 interface ShareDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  onCreateConnectionLink: () => void; // 生成带连接码的链接（在连接对话框中完成）
 }
 
-export function ShareDialog({ open, onOpenChange }: ShareDialogProps) {
+export function ShareDialog({ open, onOpenChange, onCreateConnectionLink }: ShareDialogProps) {
   const [copied, setCopied] = useState(false);
-  const currentUrl = window.location.href;
+  // 只分享应用地址，不带查询参数和片段（片段中可能是连接码）
+  const currentUrl = window.location.origin + window.location.pathname;
 
   const handleCopy = async () => {
     try {
@@ -77,7 +79,7 @@ export function ShareDialog({ open, onOpenChange }: ShareDialogProps) {
           <div className="w-full space-y-2">
             <div className="flex items-center gap-2 text-sm text-gray-500">
               <LinkIcon className="size-4" />
-              <span>当前链接</span>
+              <span>应用链接</span>
             </div>
             <div className="flex items-center gap-2">
               <div className="flex-1 p-3 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-800">
@@ -100,6 +102,12 @@ export function ShareDialog({ open, onOpenChange }: ShareDialogProps) {
             </div>
           </div>
 
+          {/* 连接链接：对方打开后直接进入连接流程 */}
+          <Button variant="outline" className="w-full" onClick={onCreateConnectionLink}>
+            <Send className="size-4 mr-2" />
+            发送连接链接
+          </Button>
+
           {/* 提示信息 */}
           <div className="w-full p-3 bg-blue-50 dark:bg-blue-950 rounded-lg border border-blue-200 dark:border-blue-800">
             <p className="text-xs text-blue-700 dark:text-blue-300 leading-relaxed">
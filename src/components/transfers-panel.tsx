@@ -0,0 +1,130 @@
+import { Upload, Download, Pause, Play, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Progress } from "./ui/progress";
+import { TransferTask, TransferStatus } from "../store/use-store";
+
+interface TransfersPanelProps {
+  transfers: TransferTask[];
+  onPause: (transferId: string) => void;
+  onResume: (transferId: string) => void;
+  onCancel: (transferId: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<TransferStatus, string> = {
+  pending: "等待中",
+  transferring: "传输中",
+  paused: "已暂停",
+  completed: "已完成",
+  failed: "失败",
+  cancelled: "已取消",
+};
+
+// 传输面板：显示发送和接收任务的进度，可暂停、继续或取消
+export function TransfersPanel({
+  transfers,
+  onPause,
+  onResume,
+  onCancel,
+  onClearFinished,
+}: TransfersPanelProps) {
+  const tasks = transfers
+    .filter((t) => t.type === "file")
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  if (tasks.length === 0) {
+    return null;
+  }
+
+  const isActive = (task: TransferTask) =>
+    task.status === "pending" || task.status === "transferring" || task.status === "paused";
+  const hasFinished = tasks.some((t) => !isActive(t));
+
+  const describe = (task: TransferTask) => {
+    const files = task.files || [];
+    return files.length === 1 ? files[0].name : `${files.length} 个文件`;
+  };
+
+  const formatSize = (bytes: number) => {
+    if (bytes === 0) return "0 Bytes";
+    const k = 1024;
+    const sizes = ["Bytes", "KB", "MB", "GB"];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + " " + sizes[i];
+  };
+
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          传输
+        </h2>
+        {hasFinished && (
+          <Button variant="ghost" size="sm" onClick={onClearFinished}>
+            清除已结束
+          </Button>
+        )}
+      </div>
+      <div className="bg-white dark:bg-gray-900 rounded-lg shadow-sm border border-gray-200 dark:border-gray-800 divide-y divide-gray-200 dark:divide-gray-800">
+        {tasks.map((task) => {
+          const sent = task.direction === "sent";
+          return (
+            <div key={task.transferId} className="flex items-center gap-3 p-4">
+              <div className="p-2 bg-blue-50 dark:bg-blue-950 rounded-lg flex-shrink-0">
+                {sent ? (
+                  <Upload className="size-4 text-blue-600 dark:text-blue-400" />
+                ) : (
+                  <Download className="size-4 text-blue-600 dark:text-blue-400" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium truncate">{describe(task)}</p>
+                  <Badge
+                    variant={task.status === "failed" ? "destructive" : "secondary"}
+                    className="text-xs flex-shrink-0"
+                  >
+                    {STATUS_LABELS[task.status]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                  {sent ? `发送到 ${task.toDeviceName}` : `来自 ${task.fromDeviceName}`}
+                  {task.status === "transferring" && task.speed > 0 && ` · ${formatSize(task.speed)}/s`}
+                </p>
+                {isActive(task) && (
+                  <div className="flex items-center gap-2">
+                    <Progress value={task.progress} className="h-2" />
+                    <span className="text-xs text-gray-500 w-10 text-right">{task.progress}%</span>
+                  </div>
+                )}
+              </div>
+              {isActive(task) && (
+                <>
+                  {task.status === "paused" ? (
+                    <Button variant="ghost" size="sm" onClick={() => onResume(task.transferId)} title="继续">
+                      <Play className="size-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onPause(task.transferId)}
+                      disabled={task.status === "pending"}
+                      title="暂停"
+                    >
+                      <Pause className="size-4" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => onCancel(task.transferId)} title="取消">
+                    <X className="size-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
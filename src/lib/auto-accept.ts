@@ -0,0 +1,179 @@
+/**
+ * 自动接收规则
+ * 来自受信任设备、且满足大小和类型限制的文件跳过确认弹窗直接接收。
+ * 规则只对身份验证结果为 trusted 的连接生效（见 device-identity.ts），冒用设备 ID 的对方无法触发。
+ * 规则保存在 localStorage 中；每台设备的默认保存目录是 FileSystemDirectoryHandle，保存在 IndexedDB 中。
+ */
+
+import { xtransIndexedDB } from './indexeddb-manager';
+
+const STORAGE_KEY = 'xtrans-auto-accept-rules';
+
+// showDirectoryPicker 尚未进入 TypeScript 的 DOM 类型
+type DirectoryPicker = (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+// 目录句柄的权限查询尚未进入 TypeScript 的 DOM 类型
+type PermissionedHandle = FileSystemDirectoryHandle & {
+  queryPermission?: (descriptor: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+};
+
+export interface AutoAcceptRule {
+  id: string;
+  deviceId: string;
+  deviceName: string;
+  enabled: boolean;
+  maxSize: number; // 单次传输的总大小上限（字节），0 表示不限
+  allow: string[]; // 允许的类型：MIME（如 image/*）或扩展名（如 .pdf），为空表示不限
+  deny: string[]; // 拒绝的类型，优先于 allow
+  saveLocation: 'download' | 'directory';
+  directoryName?: string; // 保存目录的名称，仅用于显示
+}
+
+// 待接收文件的信息
+export interface IncomingFileInfo {
+  name: string;
+  size: number;
+  type: string;
+}
+
+export function createAutoAcceptRule(deviceId: string, deviceName: string): AutoAcceptRule {
+  return {
+    id: Math.random().toString(36).substring(7),
+    deviceId,
+    deviceName,
+    enabled: true,
+    maxSize: 0,
+    allow: [],
+    deny: [],
+    saveLocation: 'download',
+  };
+}
+
+export function loadAutoAcceptRules(): AutoAcceptRule[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('读取自动接收规则失败:', error);
+    return [];
+  }
+}
+
+export function saveAutoAcceptRules(rules: AutoAcceptRule[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+}
+
+/**
+ * 解析类型列表（逗号或空白分隔），扩展名统一为小写并以 "." 开头
+ */
+export function parseTypeList(text: string): string[] {
+  return text
+    .split(/[\s,，]+/)
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean)
+    .map((item) => (item.includes('/') || item.startsWith('.') ? item : `.${item}`));
+}
+
+function matchesType(file: IncomingFileInfo, pattern: string): boolean {
+  if (pattern.startsWith('.')) {
+    return file.name.toLowerCase().endsWith(pattern);
+  }
+  const type = file.type.toLowerCase();
+  if (pattern.endsWith('/*')) {
+    return type.startsWith(pattern.slice(0, -1));
+  }
+  return type === pattern;
+}
+
+function isAllowed(rule: AutoAcceptRule, file: IncomingFileInfo): boolean {
+  if (rule.deny.some((pattern) => matchesType(file, pattern))) {
+    return false;
+  }
+  return rule.allow.length === 0 || rule.allow.some((pattern) => matchesType(file, pattern));
+}
+
+/**
+ * 查找适用的规则：文件夹和批量传输中的每个文件都需满足类型限制，总大小不超过上限
+ * @returns 第一条匹配的规则，没有时返回 null
+ */
+export function findAutoAcceptRule(
+  rules: AutoAcceptRule[],
+  deviceId: string,
+  files: IncomingFileInfo[]
+): AutoAcceptRule | null {
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+  return (
+    rules.find(
+      (rule) =>
+        rule.enabled &&
+        rule.deviceId === deviceId &&
+        (rule.maxSize === 0 || totalSize <= rule.maxSize) &&
+        files.every((file) => isAllowed(rule, file))
+    ) ?? null
+  );
+}
+
+function formatLimit(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) {
+    return `${Math.round((bytes / (1024 * 1024 * 1024)) * 100) / 100} GB`;
+  }
+  return `${Math.round((bytes / (1024 * 1024)) * 100) / 100} MB`;
+}
+
+/**
+ * 规则说明，显示在设置和历史记录中
+ */
+export function describeAutoAcceptRule(rule: AutoAcceptRule): string {
+  const parts = [`来自 ${rule.deviceName}`];
+  if (rule.maxSize > 0) parts.push(`不超过 ${formatLimit(rule.maxSize)}`);
+  if (rule.allow.length > 0) parts.push(`仅 ${rule.allow.join(', ')}`);
+  if (rule.deny.length > 0) parts.push(`排除 ${rule.deny.join(', ')}`);
+  parts.push(rule.saveLocation === 'directory' && rule.directoryName ? `保存到 ${rule.directoryName}` : '保存到下载');
+  return parts.join('，');
+}
+
+function saveDirectoryKey(deviceId: string): string {
+  return `save-dir:${deviceId}`;
+}
+
+export function isDirectoryPickerSupported(): boolean {
+  return typeof (window as any).showDirectoryPicker === 'function';
+}
+
+/**
+ * 选择设备的默认保存目录（必须在用户手势中调用）
+ * @returns 目录名称，用户取消时返回 null
+ */
+export async function chooseSaveDirectory(deviceId: string): Promise<string | null> {
+  const showDirectoryPicker = (window as any).showDirectoryPicker as DirectoryPicker;
+  try {
+    const handle = await showDirectoryPicker({ mode: 'readwrite' });
+    await xtransIndexedDB.saveHandle(saveDirectoryKey(deviceId), handle);
+    return handle.name;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 读取设备的默认保存目录
+ * 自动接收时没有用户手势，无法请求权限；权限已失效时返回 null，由调用方回退到浏览器下载
+ */
+export async function getSaveDirectory(deviceId: string): Promise<FileSystemDirectoryHandle | null> {
+  const handle = (await xtransIndexedDB.getHandle(saveDirectoryKey(deviceId))) as PermissionedHandle | null;
+  if (!handle) return null;
+
+  const permission = await handle.queryPermission?.({ mode: 'readwrite' });
+  if (permission !== 'granted') {
+    console.warn(`保存目录 ${handle.name} 的写入权限已失效`);
+    return null;
+  }
+  return handle;
+}
+
+export function removeSaveDirectory(deviceId: string): Promise<void> {
+  return xtransIndexedDB.removeHandle(saveDirectoryKey(deviceId));
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseConnectionLink } from './connection-link';
+
+describe('parseConnectionLink', () => {
+  it.each([
+    ['#offer=X2%3AAbC-_', { kind: 'offer', code: 'X2:AbC-_' }],
+    ['#answer=X2:AbC', { kind: 'answer', code: 'X2:AbC' }],
+    ['#offer=%20X1%3Aabc%0A', { kind: 'offer', code: 'X1:abc' }],
+  ])('解析 %s', (hash, expected) => {
+    expect(parseConnectionLink(hash)).toEqual(expected);
+  });
+
+  it.each([
+    '',
+    '#',
+    '#offer=',
+    '#offer=%20',
+    '#candidate=X2:abc',
+    'offer=X2:abc',
+    '#offer=%E0%A4%A',
+  ])('不是连接链接时返回 null: %s', (hash) => {
+    expect(parseConnectionLink(hash)).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * 连接链接
+ *
+ * 将连接码放在链接的片段中（`/#offer=<连接码>`、`/#answer=<响应码>`），通过任意聊天工具发送链接即可代替复制连接码。
+ * 浏览器不会把片段发送给托管应用的服务器；页面读取后立即从地址栏清除，不留在历史记录中。
+ *
+ * 响应码链接通常在新页面中打开，而等待响应码的是生成连接码的原页面，
+ * 因此新页面先经 BroadcastChannel 转发给同一浏览器中的其他页面，由持有对应连接的页面接收。
+ */
+
+export type ConnectionLinkKind = 'offer' | 'answer';
+
+export interface ConnectionLink {
+  kind: ConnectionLinkKind;
+  code: string;
+}
+
+const LINK_PATTERN = /^#(offer|answer)=(.+)$/;
+const CHANNEL_NAME = 'xtrans-connection-link';
+// 等待其他页面确认接收的时长
+const FORWARD_TIMEOUT = 1000;
+
+type ChannelMessage =
+  | { type: 'link'; id: string; link: ConnectionLink }
+  | { type: 'accepted'; id: string };
+
+// 生成指向当前应用的连接链接
+export function createConnectionLink(kind: ConnectionLinkKind, code: string): string {
+  const { origin, pathname } = window.location;
+  return `${origin}${pathname}#${kind}=${encodeURIComponent(code)}`;
+}
+
+/**
+ * 解析链接片段
+ * @returns 不是连接链接时返回 null
+ */
+export function parseConnectionLink(hash: string): ConnectionLink | null {
+  const match = LINK_PATTERN.exec(hash);
+  if (!match) return null;
+  try {
+    const code = decodeURIComponent(match[2]).trim();
+    return code ? { kind: match[1] as ConnectionLinkKind, code } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 读取当前地址中的连接链接，并从地址栏清除
+ */
+export function takeConnectionLink(): ConnectionLink | null {
+  const link = parseConnectionLink(window.location.hash);
+  if (link) {
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+  }
+  return link;
+}
+
+/**
+ * 将连接链接转发给同一浏览器中的其他页面
+ * @returns 是否有页面接收
+ */
+export function forwardConnectionLink(link: ConnectionLink): Promise<boolean> {
+  if (typeof BroadcastChannel === 'undefined') {
+    return Promise.resolve(false);
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const id = Math.random().toString(36).substring(2, 10);
+  return new Promise((resolve) => {
+    const finish = (accepted: boolean) => {
+      clearTimeout(timeout);
+      channel.close();
+      resolve(accepted);
+    };
+    const timeout = setTimeout(() => finish(false), FORWARD_TIMEOUT);
+    channel.onmessage = (event: MessageEvent<ChannelMessage>) => {
+      if (event.data?.type === 'accepted' && event.data.id === id) {
+        finish(true);
+      }
+    };
+    channel.postMessage({ type: 'link', id, link } satisfies ChannelMessage);
+  });
+}
+
+/**
+ * 接收其他页面转发的连接链接
+ * @param handler 返回 true 表示已接收，转发方随即停止等待
+ * @returns 停止接收
+ */
+export function listenForwardedLinks(handler: (link: ConnectionLink) => boolean): () => void {
+  if (typeof BroadcastChannel === 'undefined') {
+    return () => {};
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<ChannelMessage>) => {
+    const message = event.data;
+    if (message?.type === 'link' && handler(message.link)) {
+      channel.postMessage({ type: 'accepted', id: message.id } satisfies ChannelMessage);
+    }
+  };
+  return () => channel.close();
+}
@@ -0,0 +1,166 @@
+/**
+ * 设备身份与受信任设备
+ *
+ * 每个安装首次启动时生成 ECDSA (P-256) 签名密钥对，私钥不可导出，以 CryptoKey 形式存入 IndexedDB。
+ * 握手时对 "设备 ID + 双方 DTLS 指纹" 签名：指纹每次连接都不同，录下的握手无法在其他连接上重放。
+ * 用户信任某台设备后记录其身份公钥；之后该设备 ID 的握手必须由同一公钥签名，否则视为冒充。
+ * 登记到信令服务器时也用同一密钥对服务器下发的随机数签名，服务器据此阻止其他客户端冒用本机的设备 ID。
+ */
+
+import { xtransIndexedDB } from './indexeddb-manager';
+import { DeviceInfo } from './device-manager';
+import { fromBase64, isEncryptionAvailable, toBase64 } from './e2e-encryption';
+
+const SIGNATURE_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const SIGNATURE_CONTEXT = 'xtrans-identity-v1';
+// 与 server/signaling-server.js 保持一致
+const SIGNALING_CONTEXT = 'xtrans-signaling-v1';
+
+// 本机身份
+export interface DeviceIdentity {
+  keyPair: CryptoKeyPair;
+  publicKey: string; // SPKI，Base64
+}
+
+// 握手中携带的身份信息
+export interface HandshakeIdentity {
+  publicKey: string;
+  signature: string;
+}
+
+/**
+ * 对方身份的验证结果
+ * - trusted: 受信任设备，签名有效且公钥与记录一致
+ * - verified: 签名有效，但尚未信任该设备
+ * - unsigned: 对方未签名（旧版本或不支持 WebCrypto），且不是受信任设备
+ * - mismatch: 签名无效，或受信任设备的公钥不一致/未签名，可能是冒充的设备
+ */
+export type IdentityStatus = 'trusted' | 'verified' | 'unsigned' | 'mismatch';
+
+export interface IdentityCheck {
+  status: IdentityStatus;
+  publicKey?: string; // 签名有效时为对方的身份公钥
+}
+
+/**
+ * 读取本机身份，首次调用时生成并保存
+ * @returns 不支持 WebCrypto 或 IndexedDB 时返回 null
+ */
+export async function loadDeviceIdentity(): Promise<DeviceIdentity | null> {
+  if (!isEncryptionAvailable()) {
+    return null;
+  }
+
+  try {
+    let keyPair = await xtransIndexedDB.getIdentityKeyPair();
+    if (!keyPair) {
+      keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+      await xtransIndexedDB.saveIdentityKeyPair(keyPair);
+    }
+    const publicKey = toBase64(new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey)));
+    return { keyPair, publicKey };
+  } catch (error) {
+    console.error('加载设备身份失败:', error);
+    return null;
+  }
+}
+
+function signedData(deviceId: string, fingerprints: string[]): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode([SIGNATURE_CONTEXT, deviceId, ...[...fingerprints].sort()].join('|'));
+}
+
+/**
+ * 为握手签名
+ * @param deviceId 本机设备 ID
+ * @param fingerprints 本次连接双方的 DTLS 指纹
+ */
+export async function signHandshake(
+  identity: DeviceIdentity,
+  deviceId: string,
+  fingerprints: string[]
+): Promise<HandshakeIdentity> {
+  const signature = await crypto.subtle.sign(
+    SIGNATURE_ALGORITHM,
+    identity.keyPair.privateKey,
+    signedData(deviceId, fingerprints)
+  );
+  return { publicKey: identity.publicKey, signature: toBase64(new Uint8Array(signature)) };
+}
+
+/**
+ * 为信令服务器的登记签名
+ * @param nonce 服务器为本次连接下发的随机数，签名无法在其他连接上重放
+ */
+export async function signSignalingChallenge(
+  identity: DeviceIdentity,
+  deviceId: string,
+  nonce: string
+): Promise<HandshakeIdentity> {
+  const signature = await crypto.subtle.sign(
+    SIGNATURE_ALGORITHM,
+    identity.keyPair.privateKey,
+    new TextEncoder().encode([SIGNALING_CONTEXT, deviceId, nonce].join('|'))
+  );
+  return { publicKey: identity.publicKey, signature: toBase64(new Uint8Array(signature)) };
+}
+
+async function verifySignature(identity: HandshakeIdentity, deviceId: string, fingerprints: string[]): Promise<boolean> {
+  try {
+    const publicKey = await crypto.subtle.importKey(
+      'spki',
+      fromBase64(identity.publicKey),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    return await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      publicKey,
+      fromBase64(identity.signature),
+      signedData(deviceId, fingerprints)
+    );
+  } catch (error) {
+    console.warn('身份签名格式错误:', error);
+    return false;
+  }
+}
+
+/**
+ * 验证对方握手中的身份，并与受信任设备列表比对
+ * @param identity 对方握手中的身份信息，未签名时为 undefined
+ * @param fingerprints 本次连接双方的 DTLS 指纹，不可用时无法验证签名
+ */
+export async function checkDeviceIdentity(
+  deviceId: string,
+  identity: HandshakeIdentity | undefined,
+  fingerprints: string[] | null
+): Promise<IdentityCheck> {
+  const trusted = await xtransIndexedDB.getDevice(deviceId).catch(() => null);
+  const trustedKey = trusted?.isTrusted ? trusted.identityKey : undefined;
+
+  if (!identity || !fingerprints || !isEncryptionAvailable()) {
+    return { status: trustedKey ? 'mismatch' : 'unsigned' };
+  }
+  if (!(await verifySignature(identity, deviceId, fingerprints))) {
+    return { status: 'mismatch' };
+  }
+  if (trustedKey) {
+    return { status: trustedKey === identity.publicKey ? 'trusted' : 'mismatch', publicKey: identity.publicKey };
+  }
+  return { status: 'verified', publicKey: identity.publicKey };
+}
+
+// 信任设备，记录其身份公钥
+export function trustDevice(device: DeviceInfo, identityKey: string): Promise<void> {
+  return xtransIndexedDB.trustDevice(device, identityKey);
+}
+
+// 取消信任设备
+export function untrustDevice(deviceId: string): Promise<void> {
+  return xtransIndexedDB.untrustDevice(deviceId);
+}
+
+// 受信任设备列表
+export function getTrustedDevices(): Promise<DeviceInfo[]> {
+  return xtransIndexedDB.getTrustedDevices();
+}
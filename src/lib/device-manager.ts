@@ -1,3 +1,5 @@
+import type { HandshakeIdentity } from './device-identity';
+
 // 设备信息
 export interface DeviceInfo {
   deviceId: string;
@@ -12,14 +14,32 @@ export interface DeviceInfo {
 }
 
 // 事件类型
+// challenge 为信令服务器在连接建立后下发的随机数，登记时用身份密钥签名
 export type DeviceEvent =
+  | { type: 'challenge'; nonce: string }
   | { type: 'devices_updated'; devices: DeviceInfo[] }
   | { type: 'device_joined'; device: DeviceInfo }
   | { type: 'device_left'; deviceId: string }
   | { type: 'device_name_updated'; deviceId: string; deviceName: string }
-  | { type: 'offer'; from: string; sdp: RTCSessionDescriptionInit }
-  | { type: 'answer'; from: string; sdp: RTCSessionDescriptionInit }
+  | { type: 'room_joined'; room: string | null; devices: DeviceInfo[] }
+  | { type: 'paired_devices'; devices: DeviceInfo[] }
+  | { type: 'offer'; from: string; sdp: RTCSessionDescriptionInit; restart?: boolean }
+  | { type: 'answer'; from: string; sdp: RTCSessionDescriptionInit; restart?: boolean }
   | { type: 'ice_candidate'; from: string; candidate: RTCIceCandidateInit }
   | { type: 'transfer_request'; from: string; files: any[]; transferId: string }
   | { type: 'transfer_response'; transferId: string; accepted: boolean }
   | { type: 'text_message'; from: string; message: any };
+
+// 发送给信令服务器的消息，服务器以 DeviceEvent 推送设备列表或转发给目标设备
+// 加入房间后只能看到同一房间的设备；room 为 null 时回到服务器的公共大厅
+// offer/answer 带 restart 标记时为已有连接的 ICE restart，而不是新连接
+// pairings 为配对令牌（见 pairing.ts）：持有相同令牌的在线设备以 paired_devices 推送，不受房间限制
+// identity 为对 challenge 的签名（见 device-identity.ts），服务器将设备 ID 与首次证明的公钥绑定
+export type SignalingRequest =
+  | { type: 'announce'; device: DeviceInfo; room?: string | null; pairings?: string[]; identity?: HandshakeIdentity }
+  | { type: 'update_pairings'; pairings: string[] }
+  | { type: 'join_room'; room: string | null }
+  | { type: 'device_name_updated'; deviceName: string }
+  | { type: 'offer'; to: string; sdp: RTCSessionDescriptionInit; restart?: boolean }
+  | { type: 'answer'; to: string; sdp: RTCSessionDescriptionInit; restart?: boolean }
+  | { type: 'ice_candidate'; to: string; candidate: RTCIceCandidateInit };
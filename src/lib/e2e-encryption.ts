@@ -0,0 +1,141 @@
+/**
+ * 应用层端到端加密（基于 WebCrypto）
+ *
+ * 连接码经由聊天软件等第三方渠道传递，若被篡改，攻击者可以分别与双方建立 DTLS 连接（中间人）。
+ * 因此在 DTLS 之上再加密一层：
+ * - 握手时交换临时 ECDH (P-256) 公钥，经 HKDF-SHA-256 派生 AES-256-GCM 会话密钥
+ * - 派生时以双方 DTLS 指纹为盐，会话密钥与当前 DTLS 连接绑定
+ * - 双方 DTLS 指纹生成 6 位短认证串（SAS），由用户当面或通过电话核对；
+ *   中间人无法让两端的指纹一致，两端看到的数字会不同
+ *
+ * 密文格式：iv(12) | AES-GCM 密文（含 16 字节认证标签）
+ */
+
+const IV_SIZE = 12;
+const TAG_SIZE = 16;
+
+// 每个加密负载增加的字节数
+export const ENCRYPTION_OVERHEAD = IV_SIZE + TAG_SIZE;
+
+const HKDF_INFO = new TextEncoder().encode('xtrans-e2e-v1');
+const SAS_INFO = 'xtrans-sas-v1';
+
+// 当前环境是否支持 WebCrypto（非安全上下文中 crypto.subtle 不可用）
+export function isEncryptionAvailable(): boolean {
+  return typeof crypto !== 'undefined' && !!crypto.subtle;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * 生成本次连接使用的临时 ECDH 密钥对
+ */
+export function generateKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+}
+
+/**
+ * 导出公钥（未压缩点格式，Base64）
+ */
+export async function exportPublicKey(publicKey: CryptoKey): Promise<string> {
+  return toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', publicKey)));
+}
+
+/**
+ * 从 SDP 中提取 DTLS 指纹（如 "sha-256 AB:CD:..."）
+ */
+export function extractFingerprint(sdp: string | undefined): string | null {
+  const match = sdp?.match(/^a=fingerprint:(\S+)\s+([0-9A-Fa-f:]+)/m);
+  return match ? `${match[1].toLowerCase()} ${match[2].toUpperCase()}` : null;
+}
+
+// 双方指纹排序后拼接，两端得到相同的结果
+function digestFingerprints(fingerprints: string[], label: string): Promise<ArrayBuffer> {
+  const input = [label, ...[...fingerprints].sort()].join('|');
+  return crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+}
+
+/**
+ * 派生会话密钥
+ * @param privateKey 本端 ECDH 私钥
+ * @param peerPublicKey 对方公钥（Base64）
+ * @param fingerprints 双方 DTLS 指纹
+ */
+export async function deriveSessionKey(
+  privateKey: CryptoKey,
+  peerPublicKey: string,
+  fingerprints: string[]
+): Promise<CryptoKey> {
+  const publicKey = await crypto.subtle.importKey(
+    'raw',
+    fromBase64(peerPublicKey),
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    []
+  );
+  const sharedSecret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: await digestFingerprints(fingerprints, 'salt'),
+      info: HKDF_INFO,
+    },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * 加密数据
+ * @returns iv | 密文
+ */
+export async function encryptPayload(key: CryptoKey, data: BufferSource): Promise<ArrayBuffer> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_SIZE));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+
+  const payload = new Uint8Array(IV_SIZE + ciphertext.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(ciphertext), IV_SIZE);
+  return payload.buffer;
+}
+
+/**
+ * 解密数据，认证失败（数据被篡改或密钥不一致）时抛出异常
+ */
+export async function decryptPayload(key: CryptoKey, payload: ArrayBuffer): Promise<ArrayBuffer> {
+  if (payload.byteLength < ENCRYPTION_OVERHEAD) {
+    throw new Error('密文长度不足');
+  }
+  const iv = new Uint8Array(payload, 0, IV_SIZE);
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, new Uint8Array(payload, IV_SIZE));
+}
+
+/**
+ * 由双方 DTLS 指纹生成 6 位短认证串，格式为 "123 456"
+ */
+export async function computeAuthString(fingerprints: string[]): Promise<string> {
+  const digest = await digestFingerprints(fingerprints, SAS_INFO);
+  const value = new DataView(digest).getUint32(0, false) % 1000000;
+  const digits = value.toString().padStart(6, '0');
+  return `${digits.slice(0, 3)} ${digits.slice(3)}`;
+}
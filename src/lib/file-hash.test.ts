@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { computeFileDigest, HASH_SEGMENT_SIZE, sha256Hex } from './file-hash';
+import { CHUNK_SIZE, MAX_CHUNK_SIZE, selectChunkSize } from './webrtc';
+
+// 内容随位置变化的测试文件，错位的分片摘要不会碰巧相同
+function createFile(size: number): Blob {
+  const data = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    data[i] = (i * 31 + (i >> 12)) & 0xff;
+  }
+  return new Blob([data]);
+}
+
+async function expectedChunkHashes(blob: Blob, chunkSize: number): Promise<string[]> {
+  const hashes: string[] = [];
+  for (let start = 0; start < blob.size; start += chunkSize) {
+    hashes.push(await sha256Hex(await blob.slice(start, start + chunkSize).arrayBuffer()));
+  }
+  return hashes;
+}
+
+describe('computeFileDigest', () => {
+  it.each([
+    ['整除分段的分片', 256 * 1024],
+    ['不整除分段的分片', 240 * 1024],
+    ['48KB 分片', 48 * 1024],
+  ])('逐片摘要与传输分片一一对应（%s）', async (_, chunkSize) => {
+    const file = createFile(6 * 1024 * 1024 + 12345);
+    const { chunkHashes } = await computeFileDigest(file, chunkSize);
+
+    expect(chunkHashes).toHaveLength(Math.ceil(file.size / chunkSize));
+    expect(chunkHashes).toEqual(await expectedChunkHashes(file, chunkSize));
+  });
+
+  it('整文件摘要与分片大小无关', async () => {
+    const file = createFile(HASH_SEGMENT_SIZE + 1000);
+    const a = await computeFileDigest(file, 240 * 1024);
+    const b = await computeFileDigest(file, 256 * 1024);
+    const c = await computeFileDigest(file);
+
+    expect(a.sha256).toBe(b.sha256);
+    expect(a.sha256).toBe(c.sha256);
+    expect(c.chunkHashes).toBeUndefined();
+  });
+
+  it('空文件没有逐片摘要', async () => {
+    const { sha256, chunkHashes } = await computeFileDigest(new Blob([]), CHUNK_SIZE);
+    expect(sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(chunkHashes).toEqual([]);
+  });
+});
+
+describe('selectChunkSize', () => {
+  it.each([
+    [262144, true, 128 * 1024], // Chrome
+    [1073741823, true, MAX_CHUNK_SIZE], // Firefox
+    [1073741823, false, 64 * 1024],
+    [65536, true, 32 * 1024],
+    [16 * 1024, true, CHUNK_SIZE],
+  ])('maxMessageSize %i（局域网 %s）选择 %i', (maxMessageSize, lan, expected) => {
+    expect(selectChunkSize(maxMessageSize, lan)).toBe(expected);
+  });
+
+  it('分片大小总能整除哈希分段', () => {
+    for (let maxMessageSize = 1024; maxMessageSize <= 2 * 1024 * 1024; maxMessageSize += 4099) {
+      expect(HASH_SEGMENT_SIZE % selectChunkSize(maxMessageSize, true)).toBe(0);
+    }
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * 文件完整性校验工具（基于 WebCrypto SHA-256）
+ *
+ * WebCrypto 不支持增量摘要，直接对大文件求 SHA-256 需要把整个文件读入内存。
+ * 因此整文件摘要按固定大小分段计算：
+ *   sha256 = SHA-256(SHA-256(段0) || SHA-256(段1) || ...)
+ * 发送方和接收方使用相同的分段方式，内存占用与文件大小无关。
+ */
+
+// 整文件摘要的分段大小 (4MB)；逐片摘要按传输分片的边界计算，与分段无关
+export const HASH_SEGMENT_SIZE = 4 * 1024 * 1024;
+
+// 分片数量不超过此值时才附带逐片摘要，避免元数据过大
+export const MAX_CHUNK_DIGESTS = 1024;
+
+// 将摘要转换为十六进制字符串
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * 计算一段数据的 SHA-256
+ * @returns 十六进制摘要
+ */
+export async function sha256Hex(data: BufferSource): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+}
+
+/**
+ * 计算文件的分段 SHA-256 摘要
+ * @param blob 文件内容
+ * @param chunkSize 传输分片大小；提供时同时计算逐片摘要（仅限小文件）
+ * @returns 整文件摘要和可选的逐片摘要
+ */
+export async function computeFileDigest(
+  blob: Blob,
+  chunkSize?: number
+): Promise<{ sha256: string; chunkHashes?: string[] }> {
+  const withChunks =
+    chunkSize !== undefined && Math.ceil(blob.size / chunkSize) <= MAX_CHUNK_DIGESTS;
+  const segmentDigests: Uint8Array[] = [];
+  const chunkHashes: string[] = [];
+
+  // 空文件也计算一个空段的摘要
+  const segmentCount = Math.max(1, Math.ceil(blob.size / HASH_SEGMENT_SIZE));
+
+  for (let i = 0; i < segmentCount; i++) {
+    const offset = i * HASH_SEGMENT_SIZE;
+    const segment = await blob.slice(offset, offset + HASH_SEGMENT_SIZE).arrayBuffer();
+    segmentDigests.push(new Uint8Array(await crypto.subtle.digest('SHA-256', segment)));
+
+    if (withChunks) {
+      // 计算起点落在本段内的分片；跨越段边界的分片单独从文件读取
+      const end = offset + segment.byteLength;
+      for (let start = chunkHashes.length * chunkSize!; start < end; start += chunkSize!) {
+        const stop = Math.min(start + chunkSize!, blob.size);
+        const chunk = stop <= end
+          ? segment.slice(start - offset, stop - offset)
+          : await blob.slice(start, stop).arrayBuffer();
+        chunkHashes.push(await sha256Hex(chunk));
+      }
+    }
+  }
+
+  const combined = new Uint8Array(segmentDigests.length * 32);
+  segmentDigests.forEach((digest, i) => combined.set(digest, i * 32));
+
+  return {
+    sha256: await sha256Hex(combined),
+    chunkHashes: withChunks ? chunkHashes : undefined,
+  };
+}
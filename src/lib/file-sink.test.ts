@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { FileSystemAccessSink } from './file-sink';
+
+// 第 failAt 次写入失败的文件句柄
+function createHandle(failAt: number) {
+  const writes: number[] = [];
+  const writable = {
+    write: async ({ position }: { position: number }) => {
+      if (writes.length + 1 === failAt) {
+        throw new DOMException('磁盘已满', 'QuotaExceededError');
+      }
+      writes.push(position);
+    },
+    close: async () => {},
+    abort: async () => {},
+  };
+  const handle = {
+    name: 'test.bin',
+    createWritable: async () => writable,
+    getFile: async () => new File([], 'test.bin'),
+  } as unknown as FileSystemFileHandle;
+  return { handle, writes };
+}
+
+describe('FileSystemAccessSink', () => {
+  it('写入失败时该次写入立即失败', async () => {
+    const { handle, writes } = createHandle(2);
+    const sink = await FileSystemAccessSink.fromHandle(handle);
+
+    await expect(sink.write(0, new ArrayBuffer(4))).resolves.toBeUndefined();
+    await expect(sink.write(4, new ArrayBuffer(4))).rejects.toThrow('磁盘已满');
+    // 之后的写入不再执行
+    await expect(sink.write(8, new ArrayBuffer(4))).rejects.toThrow('磁盘已满');
+    await expect(sink.close()).rejects.toThrow('磁盘已满');
+    expect(writes).toEqual([0]);
+  });
+
+  it('写入按顺序执行', async () => {
+    const { handle, writes } = createHandle(0);
+    const sink = await FileSystemAccessSink.fromHandle(handle);
+
+    await Promise.all([0, 4, 8].map((position) => sink.write(position, new ArrayBuffer(4))));
+    await sink.close();
+    expect(writes).toEqual([0, 4, 8]);
+  });
+});
@@ -0,0 +1,294 @@
+/**
+ * 接收文件的写入目标（Sink）
+ * 接收端按分片位置写入，避免把整个文件缓存在内存中：
+ * - FileSystemAccessSink: 用户通过 showSaveFilePicker 选择的位置，直接写入磁盘
+ * - OpfsFileSink: 源私有文件系统（OPFS）中的临时文件，完成后再触发下载
+ * - MemoryFileSink: 内存中的分片，仅用于小文件或浏览器不支持上述能力时
+ */
+
+// 小于此大小的文件直接在内存中组装 (64MB)
+export const MEMORY_SINK_LIMIT = 64 * 1024 * 1024;
+
+// OPFS 中存放临时文件的目录
+const OPFS_DIR = 'xtrans-incoming';
+
+// showSaveFilePicker 尚未进入 TypeScript 的 DOM 类型
+type SaveFilePicker = (options?: {
+  suggestedName?: string;
+  types?: { description?: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle>;
+
+export interface FileSink {
+  readonly kind: 'memory' | 'file-system' | 'opfs';
+  // 文件已保存到用户选择的位置，无需再触发浏览器下载
+  readonly savedToDisk: boolean;
+  write(position: number, data: ArrayBuffer): Promise<void>;
+  // 完成写入并返回文件
+  close(): Promise<File>;
+  // 放弃写入（关闭后调用无效果）
+  abort(): Promise<void>;
+  // 释放临时存储（下载完成后调用）
+  release(): Promise<void>;
+  // 删除已写入的文件（关闭后校验失败时调用），不留下内容错误的文件
+  discard(): Promise<void>;
+}
+
+/**
+ * 顺序写入队列
+ * FileSystemWritableFileStream 不允许并发写入，所有写操作串行执行
+ * 某次写入失败后，之后的写入和 flush() 都以同一错误失败
+ */
+abstract class QueuedSink {
+  private queue: Promise<void> = Promise.resolve();
+  private error: unknown = null;
+
+  protected enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.queue.then(async () => {
+      if (this.error) throw this.error;
+      try {
+        await task();
+      } catch (error) {
+        this.error = error;
+        throw error;
+      }
+    });
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  protected async flush(): Promise<void> {
+    await this.queue;
+    if (this.error) {
+      throw this.error;
+    }
+  }
+}
+
+// 内存 Sink
+export class MemoryFileSink implements FileSink {
+  readonly kind = 'memory' as const;
+  readonly savedToDisk = false;
+  private parts = new Map<number, ArrayBuffer>();
+
+  constructor(private name: string, private type: string) {}
+
+  async write(position: number, data: ArrayBuffer): Promise<void> {
+    this.parts.set(position, data);
+  }
+
+  async close(): Promise<File> {
+    const ordered = Array.from(this.parts.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, data]) => data);
+    this.parts.clear();
+    return new File(ordered, this.name, { type: this.type });
+  }
+
+  async abort(): Promise<void> {
+    this.parts.clear();
+  }
+
+  async release(): Promise<void> {}
+
+  async discard(): Promise<void> {
+    this.parts.clear();
+  }
+}
+
+// 用户选择的磁盘位置
+export class FileSystemAccessSink extends QueuedSink implements FileSink {
+  readonly kind = 'file-system' as const;
+  readonly savedToDisk = true;
+  private closed = false;
+
+  private constructor(
+    private handle: FileSystemFileHandle,
+    private writable: FileSystemWritableFileStream,
+    private parent?: FileSystemDirectoryHandle
+  ) {
+    super();
+  }
+
+  static isSupported(): boolean {
+    return typeof (window as any).showSaveFilePicker === 'function';
+  }
+
+  /**
+   * 弹出保存对话框并创建 Sink（必须在用户手势中调用）
+   * @returns 用户取消时返回 null
+   */
+  static async create(name: string): Promise<FileSystemAccessSink | null> {
+    const showSaveFilePicker = (window as any).showSaveFilePicker as SaveFilePicker;
+    try {
+      const handle = await showSaveFilePicker({ suggestedName: name });
+      return await FileSystemAccessSink.fromHandle(handle);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 基于已有的文件句柄创建 Sink（如目录中新建的文件）
+   * @param parent 文件所在目录，校验失败时用于删除文件
+   */
+  static async fromHandle(handle: FileSystemFileHandle, parent?: FileSystemDirectoryHandle): Promise<FileSystemAccessSink> {
+    const writable = await handle.createWritable();
+    return new FileSystemAccessSink(handle, writable, parent);
+  }
+
+  write(position: number, data: ArrayBuffer): Promise<void> {
+    return this.enqueue(() => this.writable.write({ type: 'write', position, data }));
+  }
+
+  async close(): Promise<File> {
+    await this.flush();
+    await this.writable.close();
+    this.closed = true;
+    return this.handle.getFile();
+  }
+
+  async abort(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    await this.writable.abort().catch(() => {});
+  }
+
+  async release(): Promise<void> {}
+
+  async discard(): Promise<void> {
+    await this.abort();
+    if (this.parent) {
+      await this.parent.removeEntry(this.handle.name);
+      return;
+    }
+    // 保存对话框选择的文件没有目录句柄：支持时直接删除（Chromium 的 FileSystemHandle.remove），否则清空内容
+    const remove = (this.handle as FileSystemFileHandle & { remove?: () => Promise<void> }).remove;
+    if (typeof remove === 'function') {
+      await remove.call(this.handle);
+      return;
+    }
+    const writable = await this.handle.createWritable({ keepExistingData: false });
+    await writable.close();
+  }
+}
+
+// OPFS 临时文件
+export class OpfsFileSink extends QueuedSink implements FileSink {
+  readonly kind = 'opfs' as const;
+  readonly savedToDisk = false;
+  private closed = false;
+
+  private constructor(
+    private dir: FileSystemDirectoryHandle,
+    private entryName: string,
+    private handle: FileSystemFileHandle,
+    private writable: FileSystemWritableFileStream,
+    private name: string,
+    private type: string
+  ) {
+    super();
+  }
+
+  static isSupported(): boolean {
+    return (
+      typeof navigator.storage?.getDirectory === 'function' &&
+      typeof FileSystemFileHandle !== 'undefined' &&
+      'createWritable' in FileSystemFileHandle.prototype
+    );
+  }
+
+  static async create(fileId: string, name: string, type: string): Promise<OpfsFileSink> {
+    const root = await navigator.storage.getDirectory();
+    const dir = await root.getDirectoryHandle(OPFS_DIR, { create: true });
+    const entryName = `${fileId}.part`;
+    const handle = await dir.getFileHandle(entryName, { create: true });
+    const writable = await handle.createWritable();
+    return new OpfsFileSink(dir, entryName, handle, writable, name, type);
+  }
+
+  write(position: number, data: ArrayBuffer): Promise<void> {
+    return this.enqueue(() => this.writable.write({ type: 'write', position, data }));
+  }
+
+  async close(): Promise<File> {
+    await this.flush();
+    await this.writable.close();
+    this.closed = true;
+    // 以原文件名和类型包装磁盘上的临时文件（不会读入内存）
+    const stored = await this.handle.getFile();
+    return new File([stored], this.name, { type: this.type });
+  }
+
+  async abort(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+    await this.writable.abort().catch(() => {});
+    await this.release();
+  }
+
+  async release(): Promise<void> {
+    await this.dir.removeEntry(this.entryName).catch(() => {});
+  }
+
+  async discard(): Promise<void> {
+    await this.abort();
+    await this.release();
+  }
+}
+
+/**
+ * 在目录中创建文件并写入，同名文件已存在时在文件名后加序号
+ */
+export async function createSinkInDirectory(dir: FileSystemDirectoryHandle, name: string): Promise<FileSink> {
+  const safeName = name.replace(/[\\/:*?"<>|]/g, '_') || 'file';
+  const dot = safeName.lastIndexOf('.');
+  const base = dot > 0 ? safeName.slice(0, dot) : safeName;
+  const ext = dot > 0 ? safeName.slice(dot) : '';
+
+  for (let i = 0; ; i++) {
+    const candidate = i === 0 ? safeName : `${base} (${i})${ext}`;
+    try {
+      await dir.getFileHandle(candidate);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'NotFoundError') {
+        return FileSystemAccessSink.fromHandle(await dir.getFileHandle(candidate, { create: true }), dir);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * 根据文件大小和浏览器能力选择写入目标
+ * 需要弹出保存对话框时，必须在用户手势（如点击“接收”）中调用
+ * @param allowPicker 是否允许弹出保存对话框（自动接收时不在用户手势中，不能弹出）
+ * @returns 用户取消保存时返回 null
+ */
+export async function chooseFileSink(
+  fileId: string,
+  name: string,
+  size: number,
+  type: string,
+  allowPicker = true
+): Promise<FileSink | null> {
+  if (size < MEMORY_SINK_LIMIT) {
+    return new MemoryFileSink(name, type);
+  }
+
+  if (allowPicker && FileSystemAccessSink.isSupported()) {
+    return FileSystemAccessSink.create(name);
+  }
+
+  if (OpfsFileSink.isSupported()) {
+    try {
+      return await OpfsFileSink.create(fileId, name, type);
+    } catch (error) {
+      console.warn('OPFS 不可用，回退到内存接收:', error);
+    }
+  }
+
+  return new MemoryFileSink(name, type);
+}
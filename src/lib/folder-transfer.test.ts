@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { createDirectoryDestination, createZipDestination, sanitizeFolderName } from './folder-transfer';
+import type { ManifestEntry } from './webrtc';
+
+// 内存中的目录句柄，只实现接收时用到的方法
+class FakeDirectory {
+  files = new Set<string>();
+  dirs = new Map<string, FakeDirectory>();
+
+  async getDirectoryHandle(name: string, options?: { create?: boolean }) {
+    if (!this.dirs.has(name)) {
+      if (!options?.create) throw new DOMException(name, 'NotFoundError');
+      this.dirs.set(name, new FakeDirectory());
+    }
+    return this.dirs.get(name)!;
+  }
+
+  async getFileHandle(name: string, options?: { create?: boolean }) {
+    if (!this.files.has(name)) {
+      if (!options?.create) throw new DOMException(name, 'NotFoundError');
+      this.files.add(name);
+    }
+    return { createWritable: async () => ({}) };
+  }
+}
+
+function entry(path: string): ManifestEntry {
+  return { fileId: path, path, size: 1, fileType: 'text/plain' };
+}
+
+describe('sanitizeFolderName', () => {
+  it.each([
+    ['照片', '照片'],
+    ['./docs', 'docs'],
+    ['docs/', 'docs'],
+    ['/etc', 'etc'],
+  ])('接受单个路径片段 %s', (name, expected) => {
+    expect(sanitizeFolderName(name)).toBe(expected);
+  });
+
+  it.each(['', '.', '..', '../..', 'a/b', 'a\\b', '../evil'])('拒绝 %s', (name) => {
+    expect(sanitizeFolderName(name)).toBeNull();
+  });
+});
+
+describe('createZipDestination', () => {
+  it('拒绝包含路径的文件夹名称', () => {
+    expect(() => createZipDestination('../../evil')).toThrow();
+    expect(() => createZipDestination('docs')).not.toThrow();
+  });
+});
+
+describe('createDirectoryDestination', () => {
+  it('不覆盖目录中已有的同名文件', async () => {
+    const root = new FakeDirectory();
+    const docs = await root.getDirectoryHandle('docs', { create: true });
+    docs.files.add('a.txt');
+    docs.files.add('a (1).txt');
+    const destination = createDirectoryDestination(root as unknown as FileSystemDirectoryHandle);
+
+    await destination.createSink(entry('docs/a.txt'));
+    await destination.createSink(entry('docs/b.txt'));
+
+    expect([...docs.files]).toEqual(['a.txt', 'a (1).txt', 'a (2).txt', 'b.txt']);
+  });
+});
@@ -0,0 +1,308 @@
+import { createSinkInDirectory, FileSink, MemoryFileSink, MEMORY_SINK_LIMIT, OpfsFileSink } from './file-sink';
+import { ZipWriter } from './zip-writer';
+import type { ManifestEntry } from './webrtc';
+
+/**
+ * 文件夹与批量传输
+ * 发送方：收集文件夹内的文件及其相对路径（webkitdirectory 或拖放的目录）
+ * 接收方：按清单中的相对路径重建目录结构，写入用户选择的目录或打包为 ZIP；
+ *         批量传输的文件逐个下载
+ */
+
+// 文件夹中的文件
+export interface FolderFile {
+  file: File;
+  path: string; // 相对于文件夹根目录的路径，使用 / 分隔
+}
+
+// 选中的文件夹
+export interface FolderSelection {
+  rootName: string;
+  files: FolderFile[];
+  totalSize: number;
+}
+
+// showDirectoryPicker 尚未进入 TypeScript 的 DOM 类型
+type DirectoryPicker = (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+
+/**
+ * 规范化相对路径，拒绝绝对路径和目录穿越
+ * @returns 路径片段；路径无效时返回 null
+ */
+export function sanitizeRelativePath(path: string): string[] | null {
+  const segments = path.replace(/\\/g, '/').split('/').filter((s) => s && s !== '.');
+  if (segments.length === 0 || segments.some((s) => s === '..')) {
+    return null;
+  }
+  return segments;
+}
+
+/**
+ * 校验清单中的文件夹名称：必须是单个有效的路径片段
+ * @returns 名称无效时返回 null
+ */
+export function sanitizeFolderName(name: string): string | null {
+  const segments = sanitizeRelativePath(name);
+  return segments && segments.length === 1 ? segments[0] : null;
+}
+
+// 文件夹名称来自远端清单，写入 ZIP 或目录前再次校验
+function requireFolderName(name: string): string {
+  const folderName = sanitizeFolderName(name);
+  if (!folderName) {
+    throw new Error(`无效的文件夹名称: ${name}`);
+  }
+  return folderName;
+}
+
+/**
+ * 将 <input webkitdirectory> 选择的文件按顶层目录分组
+ */
+export function groupByRootFolder(files: File[]): FolderSelection[] {
+  const folders = new Map<string, FolderSelection>();
+
+  for (const file of files) {
+    const segments = sanitizeRelativePath(file.webkitRelativePath || file.name);
+    if (!segments || segments.length < 2) continue;
+
+    const [rootName, ...rest] = segments;
+    let folder = folders.get(rootName);
+    if (!folder) {
+      folder = { rootName, files: [], totalSize: 0 };
+      folders.set(rootName, folder);
+    }
+    folder.files.push({ file, path: rest.join('/') });
+    folder.totalSize += file.size;
+  }
+
+  return Array.from(folders.values());
+}
+
+// 读取目录中的全部条目（readEntries 每次只返回一部分）
+function readAllEntries(dir: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = dir.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  return new Promise((resolve, reject) => {
+    const readBatch = () => {
+      reader.readEntries((batch) => {
+        if (batch.length === 0) {
+          resolve(entries);
+          return;
+        }
+        entries.push(...batch);
+        readBatch();
+      }, reject);
+    };
+    readBatch();
+  });
+}
+
+// 递归收集目录中的文件
+async function collectFiles(dir: FileSystemDirectoryEntry, prefix: string, out: FolderFile[]): Promise<void> {
+  for (const entry of await readAllEntries(dir)) {
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory) {
+      await collectFiles(entry as FileSystemDirectoryEntry, path, out);
+    } else if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      out.push({ file, path });
+    }
+  }
+}
+
+/**
+ * 解析拖放的内容，区分普通文件和文件夹
+ */
+export async function readDroppedItems(
+  items: DataTransferItemList
+): Promise<{ files: File[]; folders: FolderSelection[] }> {
+  // DataTransferItemList 在第一次 await 之后失效，先同步取出所有条目
+  const entries = Array.from(items)
+    .filter((item) => item.kind === 'file')
+    .map((item) => ({ entry: item.webkitGetAsEntry(), file: item.getAsFile() }));
+
+  const files: File[] = [];
+  const folders: FolderSelection[] = [];
+
+  for (const { entry, file } of entries) {
+    if (entry?.isDirectory) {
+      const folderFiles: FolderFile[] = [];
+      await collectFiles(entry as FileSystemDirectoryEntry, '', folderFiles);
+      folders.push({
+        rootName: entry.name,
+        files: folderFiles,
+        totalSize: folderFiles.reduce((sum, f) => sum + f.file.size, 0),
+      });
+    } else if (file) {
+      files.push(file);
+    }
+  }
+
+  return { files, folders };
+}
+
+/**
+ * 接收清单中文件的目标位置
+ */
+export interface ManifestDestination {
+  readonly kind: 'directory' | 'zip' | 'download';
+  // 为清单中的文件创建写入目标
+  createSink(entry: ManifestEntry): Promise<FileSink>;
+  // 单个文件接收完成
+  complete(entry: ManifestEntry, file: File): Promise<void>;
+  // 全部文件接收完成（ZIP 在此触发下载）
+  finish(): Promise<void>;
+}
+
+// 写入用户选择的目录
+class DirectoryDestination implements ManifestDestination {
+  readonly kind = 'directory' as const;
+
+  constructor(private root: FileSystemDirectoryHandle) {}
+
+  async createSink(entry: ManifestEntry): Promise<FileSink> {
+    const segments = sanitizeRelativePath(entry.path);
+    if (!segments) {
+      throw new Error(`无效的文件路径: ${entry.path}`);
+    }
+
+    let dir = this.root;
+    for (const segment of segments.slice(0, -1)) {
+      dir = await dir.getDirectoryHandle(segment, { create: true });
+    }
+    // 目录中已有同名文件时另存为“name (n).ext”，不覆盖
+    return createSinkInDirectory(dir, segments[segments.length - 1]);
+  }
+
+  async complete(): Promise<void> {}
+
+  async finish(): Promise<void> {}
+}
+
+// 打包为 ZIP 下载
+class ZipDestination implements ManifestDestination {
+  readonly kind = 'zip' as const;
+  private zip = new ZipWriter();
+  private sinks: FileSink[] = [];
+  private rootName: string;
+
+  constructor(rootName: string) {
+    this.rootName = requireFolderName(rootName);
+  }
+
+  async createSink(entry: ManifestEntry): Promise<FileSink> {
+    if (!sanitizeRelativePath(entry.path)) {
+      throw new Error(`无效的文件路径: ${entry.path}`);
+    }
+
+    let sink: FileSink = new MemoryFileSink(entry.path, entry.fileType);
+    if (entry.size >= MEMORY_SINK_LIMIT && OpfsFileSink.isSupported()) {
+      sink = await OpfsFileSink.create(entry.fileId, entry.path, entry.fileType);
+    }
+    this.sinks.push(sink);
+    return sink;
+  }
+
+  async complete(entry: ManifestEntry, file: File): Promise<void> {
+    const segments = sanitizeRelativePath(entry.path)!;
+    await this.zip.add([this.rootName, ...segments].join('/'), file);
+  }
+
+  async finish(): Promise<void> {
+    const blob = this.zip.finish();
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${this.rootName}.zip`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    // 下载开始后再释放临时文件
+    setTimeout(() => {
+      this.sinks.forEach((sink) => sink.release());
+    }, 60000);
+  }
+}
+
+// 批量传输：每个文件接收完成后单独下载
+class DownloadDestination implements ManifestDestination {
+  readonly kind = 'download' as const;
+  private sinks = new Map<string, FileSink>();
+
+  async createSink(entry: ManifestEntry): Promise<FileSink> {
+    let sink: FileSink = new MemoryFileSink(entry.path, entry.fileType);
+    if (entry.size >= MEMORY_SINK_LIMIT && OpfsFileSink.isSupported()) {
+      try {
+        sink = await OpfsFileSink.create(entry.fileId, entry.path, entry.fileType);
+      } catch (error) {
+        console.warn('OPFS 不可用，回退到内存接收:', error);
+      }
+    }
+    this.sinks.set(entry.fileId, sink);
+    return sink;
+  }
+
+  async complete(entry: ManifestEntry, file: File): Promise<void> {
+    const url = URL.createObjectURL(file);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = file.name;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    // 下载开始后再释放临时文件
+    const sink = this.sinks.get(entry.fileId);
+    this.sinks.delete(entry.fileId);
+    setTimeout(() => sink?.release(), 60000);
+  }
+
+  async finish(): Promise<void> {}
+}
+
+/**
+ * 写入已有目录（如自动接收规则中设置的保存目录）
+ */
+export function createDirectoryDestination(root: FileSystemDirectoryHandle): ManifestDestination {
+  return new DirectoryDestination(root);
+}
+
+/**
+ * 文件夹打包为 ZIP 下载，不弹出对话框
+ */
+export function createZipDestination(rootName: string): ManifestDestination {
+  return new ZipDestination(rootName);
+}
+
+/**
+ * 批量传输的保存位置：逐个下载，不弹出对话框
+ */
+export function createDownloadDestination(): ManifestDestination {
+  return new DownloadDestination();
+}
+
+/**
+ * 选择文件夹的保存位置：支持目录写入时让用户选择目录，否则打包为 ZIP
+ * 必须在用户手势中调用
+ * @returns 用户取消时返回 null
+ */
+export async function chooseFolderDestination(rootName: string): Promise<ManifestDestination | null> {
+  const folderName = requireFolderName(rootName);
+  const showDirectoryPicker = (window as any).showDirectoryPicker as DirectoryPicker | undefined;
+  if (typeof showDirectoryPicker !== 'function') {
+    return new ZipDestination(folderName);
+  }
+
+  try {
+    const parent = await showDirectoryPicker({ mode: 'readwrite' });
+    const root = await parent.getDirectoryHandle(folderName, { create: true });
+    return new DirectoryDestination(root);
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -1,5 +1,26 @@
-import { P2PConnection } from './webrtc';
-import { DeviceInfo } from './device-manager';
+import { P2PConnection, CHUNK_SIZE, DataMessage, FileMetadata, IceRestartMessage, MessageType, ReceivedFile, ResumeAckMessage, TransferCancelledError, TransferInterruptedError, TransferManifest, TransferProgress } from './webrtc';
+import { DeviceEvent, DeviceInfo } from './device-manager';
+import { InterruptedSend, transferResumeRegistry } from './transfer-resume';
+import { Capability, createProtocolInfo, negotiateProtocol, NegotiatedProtocol, ProtocolInfo } from './protocol';
+import {
+  checkDeviceIdentity,
+  DeviceIdentity,
+  HandshakeIdentity,
+  IdentityCheck,
+  IdentityStatus,
+  signHandshake,
+  trustDevice as saveTrustedDevice,
+  untrustDevice as removeTrustedDevice,
+} from './device-identity';
+import type { FileSink } from './file-sink';
+import type { SignalingTransport } from './signaling-client';
+import type { CodeCreator } from './sdp-compressor';
+import { generatePairingSecret, getPairingSecret, loadPairingTokens, savePairing } from './pairing';
+
+// ICE 中断（disconnected）常在几秒内自行恢复，超过此时间仍未恢复才开始重连
+const RECONNECT_GRACE_PERIOD = 2000;
+// 每次重连未成功时，在超时之后再等待的退避间隔，超出后按最后一项等待
+const RECONNECT_DELAYS = [1000, 2000, 5000, 10000];
 
 // 连接类型枚举
 export enum ConnectionType {
@@ -11,7 +32,7 @@ export enum ConnectionType {
 // 连接状态
 export interface ConnectionState {
   type: ConnectionType;
-  status: 'connecting' | 'connected' | 'failed' | 'disconnected';
+  status: 'connecting' | 'connected' | 'reconnecting' | 'failed' | 'disconnected';
   deviceId: string;
   latency?: number;
   lastActive: number;
@@ -23,6 +44,7 @@ export interface ConnectionStrategy {
   fallbackTypes: ConnectionType[];
   timeout: number;
   retryAttempts: number;
+  bulkChannels?: number; // 每个 WebRTC 连接的批量数据通道数，0 表示只用控制通道
 }
 
 // 消息类型
@@ -31,6 +53,9 @@ export interface P2PMessage {
   data: any;
   timestamp: number;
   id: string;
+  protocol?: ProtocolInfo; // 握手消息携带的协议版本和能力（旧版本不提供）
+  encryption?: { publicKey: string }; // 握手消息携带的 ECDH 公钥，由 P2PConnection 附加
+  identity?: HandshakeIdentity; // 握手消息的身份签名
 }
 
 export class HybridConnectionManager {
@@ -39,6 +64,26 @@ export class HybridConnectionManager {
   private messageHandlers = new Map<string, (message: P2PMessage) => void>();
   private eventListeners = new Set<(event: ConnectionEvent) => void>();
   private localDeviceInfo: DeviceInfo | null = null;
+  // 与各设备协商出的协议（收到握手后确定）
+  private protocols = new Map<string, NegotiatedProtocol>();
+  // 本机身份，用于为握手签名
+  private identity: DeviceIdentity | null = null;
+  // 各连接上对方身份的验证结果
+  private identityChecks = new WeakMap<P2PConnection, IdentityCheck>();
+  // 信令服务器，用于自动发现设备和交换 SDP（未配置时只能手动连接）
+  private signaling: SignalingTransport | null = null;
+  private signalingListener = (event: DeviceEvent) => this.handleSignalingEvent(event);
+  // 通过信令服务器协商中的连接，建立后移入 connections
+  private pendingConnections = new Map<string, P2PConnection>();
+  // 重连中的设备：已尝试的次数和下一次尝试的定时器
+  private reconnects = new Map<string, { attempts: number; timer: ReturnType<typeof setTimeout> | null }>();
+  // 握手中得到的对方设备信息，数据通道关闭后重新建立连接时使用
+  private peerDevices = new Map<string, DeviceInfo>();
+  // 信令服务器上可以直接连接的设备：同一房间（或大厅）中的设备，以及已配对的设备
+  private roomDevices = new Map<string, DeviceInfo>();
+  private pairedDevices = new Map<string, DeviceInfo>();
+  // 已发送过配对密钥的连接（握手会重复发送）
+  private pairingSent = new WeakSet<P2PConnection>();
 
   constructor(private strategy: ConnectionStrategy = {
     preferredType: ConnectionType.WEBRTC,
@@ -60,25 +105,155 @@ export class HybridConnectionManager {
     const activeConnections = this.getActiveConnections();
 
     for (const state of activeConnections) {
-      this.sendMessage(state.deviceId, {
-        type: 'handshake',
-        data: this.localDeviceInfo,
-        timestamp: Date.now(),
-        id: this.generateMessageId()
-      });
+      this.sendMessage(state.deviceId, this.createHandshake(state.deviceId));
+    }
+  }
+
+  // 握手消息：设备信息 + 协议版本和能力
+  private createHandshake(deviceId: string): P2PMessage {
+    const connection = this.connections.get(deviceId);
+    const bulkChannels = connection instanceof P2PConnection ? connection.getBulkChannelLimit() : 0;
+    return {
+      type: 'handshake',
+      data: this.localDeviceInfo,
+      timestamp: Date.now(),
+      id: this.generateMessageId(),
+      protocol: createProtocolInfo(bulkChannels)
+    };
+  }
+
+  // 根据对方握手中的协议信息协商，并应用到连接上（收到握手时立即调用，才能解密对方随后发来的消息）
+  private applyHandshakeProtocol(connection: P2PConnection, handshake: P2PMessage): NegotiatedProtocol {
+    const protocol = negotiateProtocol(handshake.protocol, connection.getBulkChannelLimit());
+    connection.applyPeerProtocol(protocol);
+
+    // 加密分片需要 v1 帧标记
+    const publicKey = handshake.encryption?.publicKey;
+    if (publicKey && protocol.capabilities.has('encryption') && protocol.capabilities.has('binary-framing')) {
+      connection.setPeerPublicKey(publicKey);
+    }
+    return protocol;
+  }
+
+  // 记录与设备协商的协议（身份验证通过后调用）
+  private registerProtocol(deviceId: string, protocol: NegotiatedProtocol, handshake: P2PMessage) {
+    const previous = this.protocols.get(deviceId);
+    this.protocols.set(deviceId, protocol);
+    if (!previous) {
+      console.log(`与 ${deviceId} 协商协议: v${protocol.version}`, Array.from(protocol.capabilities));
+      if (!protocol.compatible) {
+        this.emitEvent({ type: 'protocolIncompatible', deviceId, message: handshake });
+      }
+    }
+  }
+
+  // 与设备的连接是否已启用端到端加密
+  isEncrypted(deviceId: string): boolean {
+    const connection = this.connections.get(deviceId);
+    return connection instanceof P2PConnection && connection.isEncrypted();
+  }
+
+  // 供用户核对的短认证串，见 P2PConnection.getAuthString
+  async getAuthString(deviceId: string): Promise<string | null> {
+    const connection = this.connections.get(deviceId);
+    return connection instanceof P2PConnection ? connection.getAuthString() : null;
+  }
+
+  setIdentity(identity: DeviceIdentity) {
+    this.identity = identity;
+  }
+
+  // 为握手签名（本机没有身份密钥或指纹不可用时不签名）
+  private async signHandshake(connection: P2PConnection, message: P2PMessage): Promise<P2PMessage> {
+    const fingerprints = connection.getFingerprints();
+    if (!this.identity || !this.localDeviceInfo || !fingerprints) {
+      return message;
+    }
+    try {
+      const identity = await signHandshake(this.identity, this.localDeviceInfo.deviceId, fingerprints);
+      return { ...message, identity };
+    } catch (error) {
+      console.error('握手签名失败:', error);
+      return message;
+    }
+  }
+
+  // 验证对方握手中的身份；通过且结果变化时通知上层（握手会重复发送），失败由调用方断开连接
+  private async verifyIdentity(deviceId: string, connection: P2PConnection, handshake: P2PMessage): Promise<IdentityCheck> {
+    const check = await checkDeviceIdentity(deviceId, handshake.identity, connection.getFingerprints());
+    const previous = this.identityChecks.get(connection);
+    if (previous?.status !== check.status) {
+      this.identityChecks.set(connection, check);
+      if (check.status !== 'mismatch') {
+        this.emitEvent({ type: 'identityChecked', deviceId, identity: check.status });
+      }
+    }
+    return check;
+  }
+
+  /**
+   * 对方身份验证失败，可能是冒充的设备：断开连接
+   * 连接不以对方声称的设备 ID 登记，也不配对、不通知上层添加设备，以免替换该设备真正的连接或写入连接历史
+   * @param currentDeviceId 连接当前登记的 ID（手动连接为临时 ID）
+   */
+  private rejectImpostor(currentDeviceId: string, connection: P2PConnection, handshake: P2PMessage) {
+    console.warn(`${handshake.data?.deviceId} 的身份验证失败，可能是冒充的设备，已断开连接`);
+    if (this.connections.get(currentDeviceId) === connection) {
+      this.connections.delete(currentDeviceId);
+      const state = this.connectionStates.get(currentDeviceId);
+      if (state) {
+        state.status = 'failed';
+        this.emitEvent({ type: 'connectionStateChanged', deviceId: currentDeviceId, state });
+      }
+    }
+    connection.close();
+    this.emitEvent({ type: 'identityChecked', deviceId: currentDeviceId, identity: 'mismatch', message: handshake });
+  }
+
+  // 对方身份的验证结果（尚未验证时返回 null）
+  getIdentityStatus(deviceId: string): IdentityStatus | null {
+    const connection = this.connections.get(deviceId);
+    if (!(connection instanceof P2PConnection)) return null;
+    return this.identityChecks.get(connection)?.status ?? null;
+  }
+
+  /**
+   * 信任当前连接的设备，记录其身份公钥
+   * @returns 对方未签名或签名无效时返回 false
+   */
+  async trustDevice(device: DeviceInfo): Promise<boolean> {
+    const connection = this.connections.get(device.deviceId);
+    if (!(connection instanceof P2PConnection)) return false;
+    const check = this.identityChecks.get(connection);
+    if (!check?.publicKey || check.status === 'mismatch') return false;
+
+    await saveTrustedDevice(device, check.publicKey);
+    this.identityChecks.set(connection, { ...check, status: 'trusted' });
+    this.emitEvent({ type: 'identityChecked', deviceId: device.deviceId, identity: 'trusted' });
+    return true;
+  }
+
+  // 取消信任设备
+  async untrustDevice(deviceId: string): Promise<void> {
+    await removeTrustedDevice(deviceId);
+    const connection = this.connections.get(deviceId);
+    const check = connection instanceof P2PConnection ? this.identityChecks.get(connection) : undefined;
+    if (connection instanceof P2PConnection && check?.status === 'trusted') {
+      this.identityChecks.set(connection, { ...check, status: 'verified' });
+      this.emitEvent({ type: 'identityChecked', deviceId, identity: 'verified' });
     }
   }
 
+  // 对方是否支持某项能力（尚未完成握手时返回 false）
+  supports(deviceId: string, capability: Capability): boolean {
+    return this.protocols.get(deviceId)?.capabilities.has(capability) ?? false;
+  }
+
   // 发送握手信息的辅助方法
   private sendHandshake(deviceId: string) {
     if (this.localDeviceInfo) {
       console.log(`向 ${deviceId} 发送握手信息...`);
-      this.sendMessage(deviceId, {
-        type: 'handshake',
-        data: this.localDeviceInfo,
-        timestamp: Date.now(),
-        id: this.generateMessageId()
-      }).then(success => {
+      this.sendMessage(deviceId, this.createHandshake(deviceId)).then(success => {
         console.log(`握手发送结果 (${deviceId}):`, success);
       });
     } else {
@@ -86,12 +261,223 @@ export class HybridConnectionManager {
     }
   }
 
+  // 连接建立后发送握手，多次尝试以确保送达
+  private startHandshake(deviceId: string) {
+    // 使用原始 deviceId 检查连接是否还存在：手动连接的临时 ID 在握手成功后会被移除，
+    // 说明握手已经成功，不必再发
+    const sendHandshakeWithCheck = () => {
+      if (this.connections.has(deviceId)) {
+        this.sendHandshake(deviceId);
+      }
+    };
+
+    sendHandshakeWithCheck();
+    setTimeout(sendHandshakeWithCheck, 1000);
+    setTimeout(sendHandshakeWithCheck, 3000);
+  }
+
+  // 设置信令传输，传入 null 时停止使用
+  setSignaling(client: SignalingTransport | null) {
+    this.signaling?.removeEventListener(this.signalingListener);
+    this.signaling = client;
+    client?.addEventListener(this.signalingListener);
+
+    this.updateReachable(() => {
+      this.roomDevices.clear();
+      this.pairedDevices.clear();
+    });
+    this.refreshPairings();
+  }
+
+  // 向信令服务器登记本机的配对令牌（配对增删后调用）
+  refreshPairings() {
+    const signaling = this.signaling;
+    if (!signaling) return;
+    loadPairingTokens()
+      .then((tokens) => {
+        if (this.signaling === signaling) {
+          signaling.setPairings(tokens);
+        }
+      })
+      .catch((error) => console.error('读取配对信息失败:', error));
+  }
+
+  // 信令服务器上可以直接连接（无需交换连接码）的设备
+  getReachableDevices(): string[] {
+    return [...new Set([...this.roomDevices.keys(), ...this.pairedDevices.keys()])];
+  }
+
+  isReachable(deviceId: string): boolean {
+    return this.roomDevices.has(deviceId) || this.pairedDevices.has(deviceId);
+  }
+
+  // 更新可直接连接的设备，对变化的设备发出 reachabilityChanged 事件
+  private updateReachable(update: () => void) {
+    const before = new Set(this.getReachableDevices());
+    update();
+    const after = new Set(this.getReachableDevices());
+    for (const deviceId of new Set([...before, ...after])) {
+      if (before.has(deviceId) !== after.has(deviceId)) {
+        this.emitEvent({ type: 'reachabilityChanged', deviceId });
+      }
+    }
+  }
+
+  /**
+   * 快速重连：对方在同一信令服务器上（同一房间或已配对）时直接发起连接，无需交换连接码
+   * @returns 对方不可达或连接失败时返回 false
+   */
+  async reconnectDevice(deviceId: string): Promise<boolean> {
+    const device = this.roomDevices.get(deviceId) ?? this.pairedDevices.get(deviceId);
+    if (!device || !this.signaling?.isConnected()) {
+      return false;
+    }
+    return this.connectToDevice(deviceId, device);
+  }
+
+  private handleSignalingEvent(event: DeviceEvent) {
+    switch (event.type) {
+      case 'devices_updated':
+      case 'room_joined':
+        this.updateReachable(() => {
+          this.roomDevices = new Map(event.devices.map((device) => [device.deviceId, device]));
+        });
+        event.devices.forEach((device) => this.autoConnect(device));
+        break;
+      case 'device_joined':
+        this.updateReachable(() => this.roomDevices.set(event.device.deviceId, event.device));
+        this.autoConnect(event.device);
+        break;
+      case 'device_left':
+        this.updateReachable(() => this.roomDevices.delete(event.deviceId));
+        break;
+      case 'paired_devices':
+        // 已配对的设备只显示为可重连，不自动连接
+        this.updateReachable(() => {
+          this.pairedDevices = new Map(event.devices.map((device) => [device.deviceId, device]));
+        });
+        break;
+      case 'offer': {
+        const connection = this.connections.get(event.from);
+        if (event.restart && !(connection instanceof P2PConnection)) {
+          console.warn(`收到 ${event.from} 的 ICE restart，但没有对应的连接`);
+          break;
+        }
+        const accepting = event.restart
+          ? this.acceptIceRestart(event.from, connection as P2PConnection, event.sdp, true)
+          : this.acceptSignalingOffer(event.from, event.sdp);
+        accepting.catch((error) => {
+          console.error(`处理 ${event.from} 的 Offer 失败:`, error);
+        });
+        break;
+      }
+      case 'answer': {
+        const connection = event.restart ? this.connections.get(event.from) : this.pendingConnections.get(event.from);
+        if (connection instanceof P2PConnection) {
+          connection.setRemoteDescription(event.sdp).catch((error) => {
+            console.error(`处理 ${event.from} 的 Answer 失败:`, error);
+          });
+        }
+        break;
+      }
+      case 'ice_candidate': {
+        // 连接建立后仍可能收到对方较晚收集到的候选
+        const connection = this.pendingConnections.get(event.from) ?? this.connections.get(event.from);
+        if (connection instanceof P2PConnection) {
+          connection.addIceCandidate(event.candidate).catch((error) => {
+            console.warn(`添加 ${event.from} 的 ICE 候选失败:`, error);
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  // 自动连接同一信令服务器上的设备；只由设备 ID 较小的一方发起，避免双方同时发起
+  private autoConnect(device: DeviceInfo) {
+    // 重连中的设备重新出现在信令服务器上（如一方切换网络后重新登记），立即重试
+    if (this.reconnects.has(device.deviceId)) {
+      this.retryReconnect(device.deviceId);
+      return;
+    }
+
+    const localDeviceId = this.localDeviceInfo?.deviceId;
+    if (!localDeviceId || device.deviceId <= localDeviceId) return;
+    if (this.connectionStates.get(device.deviceId)?.status === 'connecting') return;
+
+    this.connectToDevice(device.deviceId, device).then((success) => {
+      if (!success) {
+        console.warn(`自动连接 ${device.deviceName} 失败`);
+      }
+    });
+  }
+
+  // 通过信令服务器逐个发送本端的 ICE 候选（trickle ICE），无需等待收集完成
+  private trickleIceCandidates(connection: P2PConnection, deviceId: string) {
+    connection.onIceCandidate((candidate) => {
+      this.signaling?.send({ type: 'ice_candidate', to: deviceId, candidate });
+    });
+  }
+
+  // 接受通过信令服务器收到的 Offer
+  private async acceptSignalingOffer(fromDeviceId: string, sdp: RTCSessionDescriptionInit): Promise<void> {
+    // 对方重新发起（如刷新页面）时放弃之前未完成的协商
+    this.pendingConnections.get(fromDeviceId)?.close();
+
+    const connection = new P2PConnection(
+      this.getLocalDeviceId(),
+      fromDeviceId,
+      false,
+      this.strategy.bulkChannels
+    );
+    this.pendingConnections.set(fromDeviceId, connection);
+
+    connection.onStatus((status) => {
+      if (status === 'connected') {
+        this.pendingConnections.delete(fromDeviceId);
+        const previous = this.connections.get(fromDeviceId);
+        if (previous && previous !== connection) {
+          previous.close();
+        }
+        this.connections.set(fromDeviceId, connection);
+        this.setupConnectionHandlers(fromDeviceId, connection);
+        this.startHandshake(fromDeviceId);
+        // 重连中的对方重新发起了连接
+        this.cancelReconnect(fromDeviceId);
+
+        const state: ConnectionState = {
+          type: ConnectionType.WEBRTC,
+          status: 'connected',
+          deviceId: fromDeviceId,
+          lastActive: Date.now()
+        };
+        this.connectionStates.set(fromDeviceId, state);
+        this.emitEvent({ type: 'connectionStateChanged', deviceId: fromDeviceId, state });
+      } else if (status === 'failed' && this.pendingConnections.get(fromDeviceId) === connection) {
+        this.pendingConnections.delete(fromDeviceId);
+        connection.close();
+      }
+    });
+
+    this.trickleIceCandidates(connection, fromDeviceId);
+    await connection.setRemoteDescription(sdp);
+    const answer = await connection.createAnswer();
+    this.signaling?.send({ type: 'answer', to: fromDeviceId, sdp: answer });
+  }
+
+  // 写入连接码的本机信息，对方在连接前据此确认连接码来自谁
+  private getCodeCreator(): CodeCreator | undefined {
+    if (!this.localDeviceInfo) return undefined;
+    return { deviceId: this.localDeviceInfo.deviceId, deviceName: this.localDeviceInfo.deviceName };
+  }
+
   // 手动创建连接 Offer
   async createManualConnection(targetDeviceId: string): Promise<string> {
     const connection = new P2PConnection(
       this.getLocalDeviceId(),
       targetDeviceId,
-      true
+      true,
+      this.strategy.bulkChannels
     );
 
     // 存储连接实例
@@ -104,21 +490,7 @@ export class HybridConnectionManager {
         this.setupConnectionHandlers(targetDeviceId, connection);
 
         // 发送握手信息 (多次尝试以确保送达)
-        // 使用闭包变量 currentDeviceId 来确保总是向最新的 ID 发送（如果需要的话）
-        // 但实际上，如果 ID 变了，说明握手已经成功了，就不需要再发了。
-        // 所以我们只在 ID 没变的情况下重试。
-
-        const sendHandshakeWithCheck = () => {
-           // 检查连接是否还存在于 connections 中（使用原始 targetDeviceId）
-           // 注意：如果握手成功，targetDeviceId (临时ID) 会被从 connections 中移除
-           if (this.connections.has(targetDeviceId)) {
-              this.sendHandshake(targetDeviceId);
-           }
-        };
-
-        sendHandshakeWithCheck();
-        setTimeout(sendHandshakeWithCheck, 1000);
-        setTimeout(sendHandshakeWithCheck, 3000);
+        this.startHandshake(targetDeviceId);
 
         const state: ConnectionState = {
           type: ConnectionType.WEBRTC,
@@ -134,7 +506,7 @@ export class HybridConnectionManager {
     });
 
     // 创建压缩的离线 Offer
-    return await connection.createCompressedOffer();
+    return await connection.createCompressedOffer(this.getCodeCreator());
   }
 
   // 接受手动连接 Offer
@@ -142,7 +514,8 @@ export class HybridConnectionManager {
     const connection = new P2PConnection(
       this.getLocalDeviceId(),
       targetDeviceId,
-      false
+      false,
+      this.strategy.bulkChannels
     );
 
     // 存储连接实例
@@ -155,15 +528,7 @@ export class HybridConnectionManager {
         this.setupConnectionHandlers(targetDeviceId, connection);
 
         // 发送握手信息 (多次尝试)
-        const sendHandshakeWithCheck = () => {
-           if (this.connections.has(targetDeviceId)) {
-              this.sendHandshake(targetDeviceId);
-           }
-        };
-
-        sendHandshakeWithCheck();
-        setTimeout(sendHandshakeWithCheck, 1000);
-        setTimeout(sendHandshakeWithCheck, 3000);
+        this.startHandshake(targetDeviceId);
 
         const state: ConnectionState = {
           type: ConnectionType.WEBRTC,
@@ -179,7 +544,7 @@ export class HybridConnectionManager {
     });
 
     // 创建压缩的离线 Answer
-    return await connection.createCompressedAnswer(offerSdp);
+    return await connection.createCompressedAnswer(offerSdp, this.getCodeCreator());
   }
 
   // 完成手动连接 (发起方接收 Answer)
@@ -254,23 +619,39 @@ export class HybridConnectionManager {
   }
 
   private async tryWebRTCConnection(deviceId: string, deviceInfo: DeviceInfo): Promise<boolean> {
+    // 自动建立 WebRTC 连接需要信令服务器交换 SDP
+    if (!this.signaling?.isConnected()) {
+      return false;
+    }
+
     return new Promise((resolve) => {
       const connection = new P2PConnection(
         this.getLocalDeviceId(),
         deviceId,
-        true
+        true,
+        this.strategy.bulkChannels
       );
+      this.pendingConnections.get(deviceId)?.close();
+      this.pendingConnections.set(deviceId, connection);
 
-      const timeout = setTimeout(() => {
+      const abandon = () => {
+        clearTimeout(timeout);
+        if (this.pendingConnections.get(deviceId) === connection) {
+          this.pendingConnections.delete(deviceId);
+        }
         connection.close();
         resolve(false);
-      }, this.strategy.timeout);
+      };
+
+      const timeout = setTimeout(abandon, this.strategy.timeout);
 
       connection.onStatus((status) => {
         if (status === 'connected') {
           clearTimeout(timeout);
+          this.pendingConnections.delete(deviceId);
           this.connections.set(deviceId, connection);
           this.setupConnectionHandlers(deviceId, connection);
+          this.startHandshake(deviceId);
           
           const state = this.connectionStates.get(deviceId)!;
           state.type = ConnectionType.WEBRTC;
@@ -278,17 +659,14 @@ export class HybridConnectionManager {
           this.connectionStates.set(deviceId, state);
           
           resolve(true);
-        } else if (status === 'failed') {
-          clearTimeout(timeout);
-          connection.close();
-          resolve(false);
+        } else if (status === 'failed' && this.pendingConnections.get(deviceId) === connection) {
+          abandon();
         }
       });
 
-      this.initiateWebRTCConnection(connection, deviceInfo).catch(() => {
-        clearTimeout(timeout);
-        connection.close();
-        resolve(false);
+      this.initiateWebRTCConnection(connection, deviceInfo).catch((error) => {
+        console.error(`向 ${deviceId} 发起连接失败:`, error);
+        abandon();
       });
     });
   }
@@ -330,32 +708,13 @@ export class HybridConnectionManager {
     });
   }
 
+  // 通过信令服务器立即发送 Offer，ICE 候选随后逐个发送；对方的 Answer 和候选由 handleSignalingEvent 处理
   private async initiateWebRTCConnection(connection: P2PConnection, deviceInfo: DeviceInfo): Promise<void> {
+    this.trickleIceCandidates(connection, deviceInfo.deviceId);
     const offer = await connection.createOffer();
-    this.exchangeSignaling(deviceInfo.deviceId, { type: 'offer', sdp: offer });
-  }
-
-  private async exchangeSignaling(targetDeviceId: string, signal: any): Promise<any> {
-    const signalKey = `signal_${targetDeviceId}`;
-    const responseKey = `signal_response_${this.getLocalDeviceId()}`;
-    
-    localStorage.setItem(signalKey, JSON.stringify(signal));
-    
-    return new Promise((resolve) => {
-      const checkInterval = setInterval(() => {
-        const response = localStorage.getItem(responseKey);
-        if (response) {
-          clearInterval(checkInterval);
-          localStorage.removeItem(responseKey);
-          resolve(JSON.parse(response));
-        }
-      }, 100);
-      
-      setTimeout(() => {
-        clearInterval(checkInterval);
-        resolve(null);
-      }, this.strategy.timeout);
-    });
+    if (!this.signaling?.send({ type: 'offer', to: deviceInfo.deviceId, sdp: offer })) {
+      throw new Error('信令服务器未连接');
+    }
   }
 
   private getWebSocketUrl(deviceInfo: DeviceInfo): string {
@@ -366,21 +725,58 @@ export class HybridConnectionManager {
 
   private setupConnectionHandlers(deviceId: string, connection: P2PConnection) {
     let currentDeviceId = deviceId;
+    this.watchConnection(connection);
 
+    // 消息按收到的顺序逐条处理：握手需等身份验证通过，之后的消息才按对方的设备 ID 分发
+    let received = Promise.resolve();
+    let rejected = false;
     connection.onMessage((message) => {
+      // 加密需在收到握手时立即启用，否则无法解密对方随后发来的消息
+      const protocol = this.getMessageType(message) === 'handshake'
+        ? this.applyHandshakeProtocol(connection, typeof message === 'string' ? JSON.parse(message) : message)
+        : null;
+      received = received
+        .then(() => handleMessage(message, protocol))
+        .catch((error) => console.error(`处理来自 ${currentDeviceId} 的消息失败:`, error));
+    });
+
+    const handleMessage = async (message: DataMessage, protocol: NegotiatedProtocol | null) => {
+      if (rejected) return;
+      if (message.type === MessageType.IceRestart) {
+        this.handleIceRestartMessage(currentDeviceId, connection, message);
+        return;
+      }
+      if (message.type === MessageType.Pairing) {
+        this.acceptPairing(currentDeviceId, connection, message.secret);
+        return;
+      }
+
       console.log(`收到来自 ${currentDeviceId} (原: ${deviceId}) 的消息:`, message);
       // 处理握手消息
       const msgType = this.getMessageType(message);
       console.log(`消息类型: ${msgType}`);
 
       if (msgType === 'handshake') {
-        const handshakeData = typeof message === 'string' ? JSON.parse(message).data : (message as any).data;
+        const handshake = typeof message === 'string' ? JSON.parse(message) : (message as any);
+        const handshakeData = handshake.data;
         console.log("握手数据:", handshakeData);
 
         if (handshakeData && handshakeData.deviceId) {
           const realDeviceId = handshakeData.deviceId;
           console.log(`识别到真实设备ID: ${realDeviceId}, 当前ID: ${currentDeviceId}`);
 
+          const check = await this.verifyIdentity(realDeviceId, connection, handshake);
+          if (check.status === 'mismatch') {
+            rejected = true;
+            this.rejectImpostor(currentDeviceId, connection, handshake);
+            return;
+          }
+
+          this.peerDevices.set(realDeviceId, handshakeData);
+          // 先记录协议，之后的事件处理（如续传、发送队列）据此选择可用的能力
+          this.registerProtocol(realDeviceId, protocol!, handshake);
+          this.offerPairing(realDeviceId, connection);
+
           // 如果是临时 ID，更新映射
           if (currentDeviceId.startsWith('manual-')) {
             console.log("正在更新设备映射...");
@@ -413,6 +809,9 @@ export class HybridConnectionManager {
             // 更新当前 ID
             currentDeviceId = realDeviceId;
 
+            // 重连后续传之前被中断的文件
+            this.resumeInterruptedSends(realDeviceId, connection);
+
             return; // 握手消息不传递给普通消息处理器
           } else {
              console.log("当前ID不是临时ID，忽略映射更新");
@@ -422,6 +821,7 @@ export class HybridConnectionManager {
               deviceId: realDeviceId,
               message: { type: 'handshake', data: handshakeData, timestamp: Date.now(), id: '' }
             });
+            this.resumeInterruptedSends(realDeviceId, connection);
           }
         }
       }
@@ -452,7 +852,7 @@ export class HybridConnectionManager {
            console.warn(`未找到设备 ${currentDeviceId} 的消息处理器，已触发通用事件`);
         }
       }
-    });
+    };
   }
 
   private getMessageType(message: any): 'text' | 'file' | 'control' | 'handshake' {
@@ -469,7 +869,7 @@ export class HybridConnectionManager {
     // 检查对象是否包含 type 属性
     if (message && typeof message === 'object' && 'type' in message) {
         // 将 WebRTC 底层协议消息归类为 file
-        if (['metadata', 'chunk', 'end', 'ack', 'file_accept', 'file_reject', 'file_cancel'].includes(message.type)) {
+        if (['metadata', 'chunk', 'end', 'ack', 'file_accept', 'file_reject', 'file_cancel', 'resume_request', 'resume_ack', 'manifest', 'manifest_accept', 'manifest_reject', 'transfer_pause', 'transfer_resume', 'transfer_cancel'].includes(message.type)) {
             return 'file';
         }
         return message.type;
@@ -486,12 +886,12 @@ export class HybridConnectionManager {
     try {
       if (connection instanceof P2PConnection) {
         if (message.type === 'text') {
-          connection.sendText(message.data);
+          await connection.sendText(message.data);
         } else if (message.type === 'handshake') {
-          // 使用 sendCustomMessage 发送握手消息
-          connection.sendCustomMessage(message);
+          // 握手消息不加密，并附带本端的 ECDH 公钥和身份签名
+          await connection.sendHandshake(await this.signHandshake(connection, message));
         } else if (message.type === 'file') {
-          return await this.sendFileViaWebRTC(connection, message.data);
+          return await this.sendFileViaWebRTC(deviceId, message.data, message.id);
         }
       } else if (connection instanceof WebSocketConnection) {
         return connection.send(JSON.stringify(message));
@@ -504,9 +904,10 @@ export class HybridConnectionManager {
     }
   }
 
-  private async sendFileViaWebRTC(connection: P2PConnection, file: File): Promise<boolean> {
+  // fileId 沿用消息 ID，调用方可据此暂停或取消传输
+  private async sendFileViaWebRTC(deviceId: string, file: File, fileId: string): Promise<boolean> {
     try {
-      await connection.sendFile(file);
+      await this.sendFile(deviceId, file, { fileId });
       return true;
     } catch (error) {
       console.error('WebRTC file transfer failed:', error);
@@ -514,28 +915,206 @@ export class HybridConnectionManager {
     }
   }
 
-  async receiveFile(deviceId: string, fileId: string, initialMetadata?: any, onProgress?: (progress: number) => void): Promise<File> {
+  // 发送单个文件（可属于某个清单），失败时抛出异常
+  // 连接断开导致的失败会登记下来，重连后自动续传，并以 TransferInterruptedError 通知调用方
+  async sendFile(
+    deviceId: string,
+    file: File,
+    options: { fileId: string; manifestId?: string; path?: string },
+    onProgress?: TransferProgress
+  ): Promise<void> {
+    const connection = this.connections.get(deviceId);
+    if (!connection || !(connection instanceof P2PConnection)) {
+      throw new Error('Connection not found or not P2P');
+    }
+
+    try {
+      await connection.sendFile(file, onProgress, options);
+    } catch (error) {
+      // 连接已被关闭（不再重连）时无法续传
+      const recoverable = this.connections.has(deviceId) || this.reconnects.has(deviceId);
+      if (!connection.isReady() && recoverable && !(error instanceof TransferCancelledError)) {
+        transferResumeRegistry.addInterruptedSend(deviceId, { fileId: options.fileId, file, manifestId: options.manifestId });
+        throw new TransferInterruptedError(options.fileId);
+      }
+      throw error;
+    }
+  }
+
+  // 发送传输清单（文件夹或批量传输），等待接收方确认
+  // 返回接收方选择接收的文件 ID，被拒绝时返回 null
+  async sendManifest(deviceId: string, manifest: TransferManifest): Promise<string[] | null> {
+    const connection = this.connections.get(deviceId);
+    if (!connection || !(connection instanceof P2PConnection)) {
+      throw new Error('Connection not found or not P2P');
+    }
+    if (!this.supports(deviceId, 'manifest')) {
+      throw new Error('对方版本不支持传输清单');
+    }
+    return connection.sendManifest(manifest);
+  }
+
+  // 设备的数据通道是否可用于发送（需已完成握手，且双方协议版本可以互通）
+  isReady(deviceId: string): boolean {
+    const connection = this.connections.get(deviceId);
+    return (
+      connection instanceof P2PConnection &&
+      connection.isReady() &&
+      this.protocols.get(deviceId)?.compatible === true
+    );
+  }
+
+  // 暂停、继续或取消传输（transferId 为 fileId 或 manifestId）
+  controlTransfer(deviceId: string, transferId: string, action: 'pause' | 'resume' | 'cancel'): boolean {
+    const connection = this.connections.get(deviceId);
+    if (!connection || !(connection instanceof P2PConnection)) {
+      return false;
+    }
+    // 旧版本不理解暂停和继续；取消仍可在本地生效
+    if (action !== 'cancel' && !this.supports(deviceId, 'transfer-control')) {
+      return false;
+    }
+
+    if (action === 'cancel') {
+      connection.cancelTransfer(transferId);
+      return true;
+    }
+    // 暂停和继续须告知对方，连接已断开时不生效
+    if (!connection.isReady()) {
+      return false;
+    }
+    const sent = action === 'pause' ? connection.pauseTransfer(transferId) : connection.resumeTransfer(transferId);
+    sent.catch((error) => {
+      console.error(`Failed to ${action} transfer:`, error);
+    });
+    return true;
+  }
+
+  // 响应传输清单
+  // @param fileIds 选择接收的文件，null 表示拒绝整个清单
+  respondToManifest(deviceId: string, manifestId: string, fileIds: string[] | null): void {
+    const connection = this.connections.get(deviceId);
+    if (!connection || !(connection instanceof P2PConnection)) {
+      return;
+    }
+
+    connection.sendMessage(
+      fileIds
+        ? { type: MessageType.ManifestAccept, manifestId, fileIds }
+        : { type: MessageType.ManifestReject, manifestId }
+    ).catch((error) => {
+      console.error('Failed to respond to manifest:', error);
+    });
+  }
+
+  // 续传被中断的文件（握手完成后调用）
+  private resumeInterruptedSends(deviceId: string, connection: P2PConnection) {
+    const sends = transferResumeRegistry.takeInterruptedSends(deviceId);
+    if (sends.length > 0 && !this.supports(deviceId, 'resume')) {
+      console.warn(`${deviceId} 不支持续传，放弃 ${sends.length} 个被中断的文件`);
+      sends.forEach((send) => this.emitResumeEvent('transferResumeFailed', deviceId, send));
+      return;
+    }
+    for (const send of sends) {
+      console.log(`向 ${deviceId} 续传文件 ${send.file.name}`);
+      connection.resumeFile(send.file, send.fileId, undefined, send.manifestId).then(() => {
+        this.emitResumeEvent('transferResumed', deviceId, send);
+      }).catch((error) => {
+        console.error('续传失败:', error);
+        if (!connection.isReady()) {
+          // 再次断开，等待下一次重连
+          transferResumeRegistry.addInterruptedSend(deviceId, send);
+        } else {
+          this.emitResumeEvent('transferResumeFailed', deviceId, send);
+        }
+      });
+    }
+  }
+
+  // 放弃某设备所有被中断的发送（连接关闭、不再自动重连时调用）
+  private abandonInterruptedSends(deviceId: string) {
+    const sends = transferResumeRegistry.takeInterruptedSends(deviceId);
+    if (sends.length > 0) {
+      console.warn(`与 ${deviceId} 的连接已关闭，放弃 ${sends.length} 个被中断的文件`);
+    }
+    sends.forEach((send) => this.emitResumeEvent('transferResumeFailed', deviceId, send));
+  }
+
+  private emitResumeEvent(type: 'transferResumed' | 'transferResumeFailed', deviceId: string, send: InterruptedSend) {
+    this.emitEvent({
+      type,
+      deviceId,
+      message: {
+        type: 'file',
+        data: { fileId: send.fileId, fileName: send.file.name, fileSize: send.file.size },
+        timestamp: Date.now(),
+        id: send.fileId
+      }
+    });
+  }
+
+  async receiveFile(deviceId: string, fileId: string, initialMetadata?: any, onProgress?: (progress: number) => void, sink?: FileSink): Promise<ReceivedFile> {
     const connection = this.connections.get(deviceId);
     if (!connection || !(connection instanceof P2PConnection)) {
       throw new Error('Connection not found or not P2P');
     }
 
     // 发送接受确认
-    connection.sendCustomMessage({
+    await connection.sendCustomMessage({
       type: 'file_accept',
       fileId: fileId
     });
 
-    const { file } = await connection.receiveFile(fileId, (transferred, total) => {
+    return await connection.receiveFile(fileId, (transferred, total) => {
+      if (onProgress && total > 0) {
+        onProgress(Math.round((transferred / total) * 100));
+      }
+    }, initialMetadata, sink);
+  }
+
+  // 响应续传请求：告知发送方缺失的分片并继续接收
+  async resumeReceive(deviceId: string, fileId: string, metadata: FileMetadata, onProgress?: (progress: number) => void): Promise<ReceivedFile> {
+    const connection = this.connections.get(deviceId);
+    if (!connection || !(connection instanceof P2PConnection)) {
+      throw new Error('Connection not found or not P2P');
+    }
+
+    // 先注册接收监听，再发送应答，避免丢失分片
+    const receiving = connection.receiveFile(fileId, (transferred, total) => {
       if (onProgress && total > 0) {
         onProgress(Math.round((transferred / total) * 100));
       }
-    }, initialMetadata);
+    }, metadata);
+
+    const ack: ResumeAckMessage = {
+      type: MessageType.ResumeAck,
+      fileId,
+      missingRanges: transferResumeRegistry.getMissingRanges(fileId, metadata.chunks),
+      chunkSize: metadata.chunkSize ?? CHUNK_SIZE
+    };
+    const [received] = await Promise.all([receiving, connection.sendMessage(ack)]);
+    return received;
+  }
+
+  // 拒绝文件（或拒绝续传）
+  rejectFile(deviceId: string, fileId: string): void {
+    const connection = this.connections.get(deviceId);
+    if (!connection || !(connection instanceof P2PConnection)) {
+      return;
+    }
 
-    return file;
+    connection.sendMessage({ type: MessageType.FileReject, fileId }).catch((error) => {
+      console.error('Failed to send file reject:', error);
+    });
   }
 
   disconnect(deviceId: string): void {
+    this.closeConnection(deviceId, 'disconnected');
+  }
+
+  // 关闭连接并通知状态：主动断开为 disconnected，重连失败为 failed
+  private closeConnection(deviceId: string, status: 'disconnected' | 'failed'): void {
+    this.cancelReconnect(deviceId);
     const connection = this.connections.get(deviceId);
     if (connection) {
       if (connection instanceof P2PConnection) {
@@ -545,15 +1124,226 @@ export class HybridConnectionManager {
       }
       this.connections.delete(deviceId);
     }
+    this.protocols.delete(deviceId);
+    this.abandonInterruptedSends(deviceId);
 
     const state = this.connectionStates.get(deviceId);
     if (state) {
-      state.status = 'disconnected';
+      state.status = status;
       this.connectionStates.set(deviceId, state);
       this.emitEvent({ type: 'connectionStateChanged', deviceId, state });
     }
   }
 
+  /**
+   * 交换配对密钥，由设备 ID 较小的一方在加密启用后发送
+   * 已有配对时沿用原来的密钥，对方据此覆盖自己保存的密钥，双方始终一致
+   */
+  private async offerPairing(deviceId: string, connection: P2PConnection) {
+    const localDeviceId = this.localDeviceInfo?.deviceId;
+    const device = this.peerDevices.get(deviceId);
+    if (!localDeviceId || localDeviceId >= deviceId || !device) return;
+    if (this.pairingSent.has(connection) || !this.supports(deviceId, 'pairing') || !connection.isEncrypted()) return;
+
+    this.pairingSent.add(connection);
+    try {
+      const secret = (await getPairingSecret(deviceId)) ?? generatePairingSecret();
+      await savePairing(device, secret);
+      await connection.sendMessage({ type: MessageType.Pairing, secret });
+      this.refreshPairings();
+    } catch (error) {
+      console.error(`与 ${deviceId} 交换配对密钥失败:`, error);
+      this.pairingSent.delete(connection);
+    }
+  }
+
+  // 保存对方发来的配对密钥（未加密的消息在 P2PConnection 中已被丢弃）
+  private async acceptPairing(deviceId: string, connection: P2PConnection, secret: string) {
+    const device = this.peerDevices.get(deviceId);
+    if (!device || !connection.isEncrypted() || typeof secret !== 'string') return;
+    try {
+      await savePairing(device, secret);
+      console.log(`已与 ${device.deviceName} 配对`);
+      this.refreshPairings();
+    } catch (error) {
+      console.error('保存配对密钥失败:', error);
+    }
+  }
+
+  // 监视已建立的连接：ICE 中断或数据通道关闭时进入重连，恢复后回到 connected
+  private watchConnection(connection: P2PConnection) {
+    connection.onStatus((status) => {
+      // 手动连接在握手后改用真实 ID，按连接实例查找；找不到说明连接已被替换或断开
+      const deviceId = this.findDeviceId(connection);
+      if (!deviceId) return;
+
+      if (status === 'connected') {
+        this.finishReconnect(deviceId);
+      } else if (status === 'disconnected') {
+        this.startReconnect(deviceId, RECONNECT_GRACE_PERIOD);
+      } else if (status === 'failed') {
+        this.startReconnect(deviceId, 0);
+      }
+    });
+  }
+
+  private findDeviceId(connection: P2PConnection): string | undefined {
+    for (const [deviceId, candidate] of this.connections) {
+      if (candidate === connection) return deviceId;
+    }
+    return undefined;
+  }
+
+  private setConnectionStatus(deviceId: string, status: ConnectionState['status']) {
+    const state: ConnectionState = this.connectionStates.get(deviceId) ?? {
+      type: ConnectionType.WEBRTC,
+      status,
+      deviceId,
+      lastActive: Date.now()
+    };
+    state.status = status;
+    if (status === 'connected') {
+      state.lastActive = Date.now();
+    }
+    this.connectionStates.set(deviceId, state);
+    this.emitEvent({ type: 'connectionStateChanged', deviceId, state });
+  }
+
+  /**
+   * 进入重连状态，delay 后开始第一次尝试
+   * 每次尝试时：
+   * - 数据通道仍打开：由最初的发起方进行 ICE restart，另一方等待（ICE 也可能自行恢复）
+   * - 数据通道已关闭：经信令服务器重新建立连接，由设备 ID 较小的一方发起
+   * 尝试 strategy.retryAttempts 次仍未恢复时放弃，状态变为 failed
+   */
+  private startReconnect(deviceId: string, delay: number) {
+    // 重连中数据通道关闭时，下一次尝试会改为重新建立连接
+    if (this.reconnects.has(deviceId)) return;
+
+    console.log(`与 ${deviceId} 的连接中断，准备重连`);
+    this.setConnectionStatus(deviceId, 'reconnecting');
+    this.reconnects.set(deviceId, {
+      attempts: 0,
+      timer: setTimeout(() => this.attemptReconnect(deviceId), delay)
+    });
+  }
+
+  private async attemptReconnect(deviceId: string) {
+    const reconnect = this.reconnects.get(deviceId);
+    if (!reconnect) return;
+    reconnect.timer = null;
+
+    if (reconnect.attempts >= this.strategy.retryAttempts) {
+      console.warn(`与 ${deviceId} 重连 ${reconnect.attempts} 次未成功，放弃`);
+      this.closeConnection(deviceId, 'failed');
+      return;
+    }
+
+    const attempt = ++reconnect.attempts;
+    // 本次尝试在超时内未恢复时，退避后再试
+    const backoff = RECONNECT_DELAYS[Math.min(attempt - 1, RECONNECT_DELAYS.length - 1)];
+    reconnect.timer = setTimeout(() => this.attemptReconnect(deviceId), this.strategy.timeout + backoff);
+
+    const connection = this.connections.get(deviceId);
+    const device = this.peerDevices.get(deviceId);
+    try {
+      if (connection instanceof P2PConnection && connection.canRestartIce()) {
+        // 旧版本不支持 ICE restart，只能等待 ICE 自行恢复
+        if (connection.isOfferer() && this.supports(deviceId, 'ice-restart')) {
+          console.log(`ICE restart (${deviceId})，第 ${attempt}/${this.strategy.retryAttempts} 次`);
+          await this.restartIce(deviceId, connection);
+        }
+      } else if (this.signaling && device) {
+        // 信令服务器可能也在重连，未连接时等待下一次尝试
+        const localDeviceId = this.localDeviceInfo?.deviceId;
+        if (this.signaling.isConnected() && localDeviceId && localDeviceId < deviceId) {
+          console.log(`重新连接 ${deviceId}，第 ${attempt}/${this.strategy.retryAttempts} 次`);
+          connection?.close();
+          this.connections.delete(deviceId);
+          if (await this.tryWebRTCConnection(deviceId, device)) {
+            this.finishReconnect(deviceId);
+          }
+        }
+      } else {
+        // 数据通道已关闭且没有信令服务器，无法重新交换连接信息
+        console.warn(`无法与 ${deviceId} 重新交换连接信息，放弃重连`);
+        this.closeConnection(deviceId, 'failed');
+      }
+    } catch (error) {
+      console.error(`重连 ${deviceId} 失败:`, error);
+    }
+  }
+
+  // 立即进行下一次重连尝试
+  private retryReconnect(deviceId: string) {
+    const reconnect = this.reconnects.get(deviceId);
+    if (!reconnect) return;
+    if (reconnect.timer) {
+      clearTimeout(reconnect.timer);
+    }
+    this.attemptReconnect(deviceId);
+  }
+
+  private finishReconnect(deviceId: string) {
+    if (!this.cancelReconnect(deviceId)) return;
+    console.log(`已恢复与 ${deviceId} 的连接`);
+    this.setConnectionStatus(deviceId, 'connected');
+  }
+
+  // 停止重连，返回之前是否在重连中
+  private cancelReconnect(deviceId: string): boolean {
+    const reconnect = this.reconnects.get(deviceId);
+    if (!reconnect) return false;
+    if (reconnect.timer) {
+      clearTimeout(reconnect.timer);
+    }
+    this.reconnects.delete(deviceId);
+    return true;
+  }
+
+  // 发起 ICE restart：有信令服务器时经服务器交换，候选逐个发送；否则在仍打开的数据通道上发送包含候选的完整 SDP
+  private async restartIce(deviceId: string, connection: P2PConnection): Promise<void> {
+    const viaSignaling = this.signaling?.isConnected() ?? false;
+    if (viaSignaling) {
+      this.trickleIceCandidates(connection, deviceId);
+    }
+    const offer = await connection.createRestartOffer(!viaSignaling);
+    if (viaSignaling) {
+      this.signaling?.send({ type: 'offer', to: deviceId, sdp: offer, restart: true });
+    } else {
+      await connection.sendMessage({ type: MessageType.IceRestart, sdp: offer });
+    }
+  }
+
+  // 应答对方的 ICE restart，经收到 Offer 的同一途径回复
+  private async acceptIceRestart(
+    deviceId: string,
+    connection: P2PConnection,
+    offer: RTCSessionDescriptionInit,
+    viaSignaling: boolean
+  ): Promise<void> {
+    console.log(`收到 ${deviceId} 的 ICE restart`);
+    if (viaSignaling) {
+      this.trickleIceCandidates(connection, deviceId);
+    }
+    const answer = await connection.acceptRestartOffer(offer, !viaSignaling);
+    if (viaSignaling) {
+      this.signaling?.send({ type: 'answer', to: deviceId, sdp: answer, restart: true });
+    } else {
+      await connection.sendMessage({ type: MessageType.IceRestart, sdp: answer });
+    }
+  }
+
+  // 数据通道上收到的 ICE restart 消息
+  private handleIceRestartMessage(deviceId: string, connection: P2PConnection, message: IceRestartMessage) {
+    const handling = message.sdp.type === 'offer'
+      ? this.acceptIceRestart(deviceId, connection, message.sdp, false)
+      : connection.setRemoteDescription(message.sdp);
+    handling.catch((error) => {
+      console.error(`处理 ${deviceId} 的 ICE restart 失败:`, error);
+    });
+  }
+
   getConnectionState(deviceId: string): ConnectionState | undefined {
     return this.connectionStates.get(deviceId);
   }
@@ -661,8 +1451,17 @@ class WebSocketConnection {
 }
 
 export interface ConnectionEvent {
-  type: 'connectionStateChanged' | 'messageReceived' | 'handshakeReceived';
+  type:
+    | 'connectionStateChanged'
+    | 'messageReceived'
+    | 'handshakeReceived'
+    | 'transferResumed'
+    | 'transferResumeFailed' // 被中断的文件无法续传（对方不支持、续传出错或重连失败）
+    | 'protocolIncompatible'
+    | 'identityChecked'
+    | 'reachabilityChanged'; // 设备是否可经信令服务器直接连接发生变化，见 getReachableDevices
   deviceId: string;
   state?: ConnectionState;
   message?: P2PMessage;
+  identity?: IdentityStatus; // identityChecked 事件的验证结果
 }
\ No newline at end of file
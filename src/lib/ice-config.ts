@@ -0,0 +1,253 @@
+/**
+ * ICE 服务器配置
+ *
+ * - default: 使用内置的公共 STUN 服务器
+ * - custom: 使用用户配置的 STUN/TURN 服务器；TURN 可填写固定凭据，
+ *   或填写凭据接口地址，由接口返回有时效的临时凭据（TURN REST API），过期前自动刷新
+ * - lan: 不使用任何 ICE 服务器，只交换本机地址，外部服务器无法得知本机的公网地址
+ *
+ * 配置保存在 IndexedDB 中；解析后的 RTCConfiguration 在新建 P2PConnection 时读取，已建立的连接不受影响。
+ */
+
+import { xtransIndexedDB } from './indexeddb-manager';
+
+// 内置的公共 STUN 服务器
+export const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  // Google STUN
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+  { urls: 'stun:stun2.l.google.com:19302' },
+  { urls: 'stun:stun3.l.google.com:19302' },
+  { urls: 'stun:stun4.l.google.com:19302' },
+  // 其他公共 STUN
+  { urls: 'stun:stun.miwifi.com' },
+  { urls: 'stun:stun.qq.com' },
+  { urls: 'stun:stun.chat.bilibili.com' },
+  { urls: 'stun:stun.stunprotocol.org:3478' },
+];
+
+// 凭据接口未返回有效期时使用的有效期（秒）
+const DEFAULT_CREDENTIAL_TTL = 3600;
+// 临时凭据在过期前多久刷新
+const REFRESH_MARGIN = 60 * 1000;
+// 收集候选的测试时长上限
+const TEST_TIMEOUT = 8000;
+
+const ICE_URL_PATTERN = /^(stun|stuns|turn|turns):[^\s]+$/i;
+
+export type IceMode = 'default' | 'custom' | 'lan';
+
+export interface IceServerEntry {
+  id: string;
+  urls: string[];
+  username?: string;
+  credential?: string;
+  credentialUrl?: string; // 临时凭据接口，填写后忽略 username/credential
+}
+
+export interface IceSettings {
+  mode: IceMode;
+  servers: IceServerEntry[];
+}
+
+export const DEFAULT_ICE_SETTINGS: IceSettings = { mode: 'default', servers: [] };
+
+// 解析结果
+export interface ResolvedIceConfig {
+  config: RTCConfiguration;
+  expiresAt: number | null; // 最早过期的临时凭据的过期时间
+  errors: string[]; // 获取失败的凭据接口，对应的服务器被跳过
+}
+
+let currentConfig: RTCConfiguration = { iceServers: DEFAULT_ICE_SERVERS };
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+// 配置变更后丢弃仍在进行中的旧解析结果
+let generation = 0;
+
+export function createIceServerEntry(): IceServerEntry {
+  return { id: Math.random().toString(36).substring(7), urls: [] };
+}
+
+// 解析逗号或空白分隔的服务器地址
+export function parseIceUrls(text: string): string[] {
+  return text.split(/[\s,，]+/).map((url) => url.trim()).filter(Boolean);
+}
+
+/**
+ * 检查服务器配置
+ * @returns 错误说明，配置有效时返回 null
+ */
+export function validateIceServer(entry: IceServerEntry): string | null {
+  if (entry.credentialUrl !== undefined) {
+    return /^https?:\/\//i.test(entry.credentialUrl) ? null : '凭据接口地址应以 http:// 或 https:// 开头';
+  }
+  if (entry.urls.length === 0) {
+    return '请填写服务器地址';
+  }
+  const invalid = entry.urls.find((url) => !ICE_URL_PATTERN.test(url));
+  if (invalid) {
+    return `无效的地址 ${invalid}，应以 stun:、stuns:、turn: 或 turns: 开头`;
+  }
+  if (entry.urls.some((url) => /^turns?:/i.test(url)) && (!entry.username || !entry.credential)) {
+    return 'TURN 服务器需要用户名和密码';
+  }
+  return null;
+}
+
+export async function loadIceSettings(): Promise<IceSettings> {
+  try {
+    return (await xtransIndexedDB.getIceSettings()) ?? DEFAULT_ICE_SETTINGS;
+  } catch (error) {
+    console.error('读取 ICE 服务器配置失败:', error);
+    return DEFAULT_ICE_SETTINGS;
+  }
+}
+
+export function saveIceSettings(settings: IceSettings): Promise<void> {
+  return xtransIndexedDB.saveIceSettings(settings);
+}
+
+/**
+ * 从凭据接口获取临时凭据
+ * 支持的返回格式：
+ * - { iceServers: RTCIceServer[] | RTCIceServer }（Cloudflare、Twilio 等）
+ * - RTCIceServer[]（Metered 等）
+ * - { username, password, ttl, uris }（TURN REST API 草案，coturn 的 use-auth-secret）
+ */
+async function fetchCredentials(entry: IceServerEntry): Promise<{ servers: RTCIceServer[]; expiresAt: number }> {
+  const response = await fetch(entry.credentialUrl!);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  const data = await response.json();
+
+  let servers: any[];
+  if (Array.isArray(data)) {
+    servers = data;
+  } else if (Array.isArray(data?.iceServers)) {
+    servers = data.iceServers;
+  } else if (data?.iceServers && typeof data.iceServers === 'object') {
+    servers = [data.iceServers];
+  } else if (data?.username && (data.uris || data.urls || entry.urls.length > 0)) {
+    servers = [{ urls: data.uris || data.urls || entry.urls, username: data.username, credential: data.password ?? data.credential }];
+  } else {
+    throw new Error('无法识别的凭据格式');
+  }
+
+  const ttl = typeof data?.ttl === 'number' ? data.ttl : DEFAULT_CREDENTIAL_TTL;
+  return {
+    // Twilio 等服务的旧格式使用 url 字段
+    servers: servers.map((server) => ({
+      urls: server.urls ?? server.url,
+      username: server.username,
+      credential: server.credential,
+    })),
+    expiresAt: Date.now() + ttl * 1000,
+  };
+}
+
+/**
+ * 将配置解析为 RTCConfiguration，临时凭据在此时获取
+ */
+export async function resolveIceSettings(settings: IceSettings): Promise<ResolvedIceConfig> {
+  if (settings.mode === 'lan') {
+    return { config: { iceServers: [] }, expiresAt: null, errors: [] };
+  }
+  if (settings.mode === 'default') {
+    return { config: { iceServers: DEFAULT_ICE_SERVERS }, expiresAt: null, errors: [] };
+  }
+
+  const iceServers: RTCIceServer[] = [];
+  const errors: string[] = [];
+  let expiresAt: number | null = null;
+
+  for (const entry of settings.servers) {
+    if (validateIceServer(entry)) continue;
+
+    if (!entry.credentialUrl) {
+      iceServers.push({ urls: entry.urls, username: entry.username, credential: entry.credential });
+      continue;
+    }
+    try {
+      const result = await fetchCredentials(entry);
+      iceServers.push(...result.servers);
+      expiresAt = expiresAt === null ? result.expiresAt : Math.min(expiresAt, result.expiresAt);
+    } catch (error) {
+      console.error(`获取 TURN 凭据失败 (${entry.credentialUrl}):`, error);
+      errors.push(`${entry.credentialUrl}: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  }
+
+  return { config: { iceServers }, expiresAt, errors };
+}
+
+/**
+ * 应用配置，之后新建的连接使用新的 ICE 服务器；临时凭据在过期前自动刷新
+ * @returns 获取失败的凭据接口
+ */
+export async function applyIceSettings(settings: IceSettings): Promise<string[]> {
+  const current = ++generation;
+  if (refreshTimer) {
+    clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+
+  const { config, expiresAt, errors } = await resolveIceSettings(settings);
+  if (current !== generation) {
+    return errors;
+  }
+  currentConfig = config;
+
+  if (expiresAt !== null) {
+    const delay = Math.max(expiresAt - Date.now() - REFRESH_MARGIN, REFRESH_MARGIN);
+    refreshTimer = setTimeout(() => {
+      applyIceSettings(settings).then((refreshErrors) => {
+        refreshErrors.forEach((error) => console.warn('刷新 TURN 凭据失败:', error));
+      });
+    }, delay);
+  }
+  return errors;
+}
+
+// 新建连接时使用的配置
+export function getRtcConfiguration(): RTCConfiguration {
+  return { ...currentConfig };
+}
+
+/**
+ * 测试配置：按配置收集本机候选，统计各类型的数量
+ * relay 候选表示 TURN 服务器可用，srflx 候选表示 STUN 服务器可用
+ */
+export async function testIceSettings(settings: IceSettings): Promise<Record<RTCIceCandidateType, number> & { errors: string[] }> {
+  const { config, errors } = await resolveIceSettings(settings);
+  const counts: Record<RTCIceCandidateType, number> = { host: 0, srflx: 0, prflx: 0, relay: 0 };
+  const pc = new RTCPeerConnection(config);
+
+  try {
+    pc.createDataChannel('ice-test');
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(resolve, TEST_TIMEOUT);
+      pc.onicecandidate = (event) => {
+        if (!event.candidate) {
+          clearTimeout(timeout);
+          resolve();
+          return;
+        }
+        if (event.candidate.type) {
+          counts[event.candidate.type]++;
+        }
+      };
+      pc.createOffer()
+        .then((offer) => pc.setLocalDescription(offer))
+        .catch((error) => {
+          console.error('ICE 测试失败:', error);
+          clearTimeout(timeout);
+          resolve();
+        });
+    });
+  } finally {
+    pc.close();
+  }
+
+  return { ...counts, errors };
+}
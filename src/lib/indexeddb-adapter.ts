@@ -112,7 +112,11 @@ export class IndexedDBAdapter {
           deviceName: '我的设备',
           theme: 'system' as const,
           soundEnabled: false,
-          notificationsEnabled: false
+          notificationsEnabled: false,
+          maxConcurrentTransfers: 3,
+          autoAcceptRules: [],
+          signalingUrl: '',
+          iceSettings: { mode: 'default' as const, servers: [] }
         },
         transfers: transfers.map(t => ({
           transferId: t.transferId,
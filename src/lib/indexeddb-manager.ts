@@ -1,5 +1,6 @@
 import { DeviceInfo } from './device-manager';
 import { HistoryItem, Settings } from '../store/use-store';
+import type { IceSettings } from './ice-config';
 
 // 数据库版本和配置
 const DB_NAME = 'xtrans-db';
@@ -16,7 +17,9 @@ const STORES = {
 // 键名常量
 const KEYS = {
   SETTINGS: 'app-settings',
-  LAST_SYNC: 'last-sync'
+  LAST_SYNC: 'last-sync',
+  IDENTITY: 'identity-key',
+  ICE_SERVERS: 'ice-servers'
 } as const;
 
 // 传输任务状态
@@ -48,10 +51,13 @@ export interface TransferTask {
 }
 
 // 设备记录（在IndexedDB中的存储格式）
-interface DeviceRecord extends DeviceInfo {
+export interface DeviceRecord extends DeviceInfo {
   // 添加一些本地字段
   lastSeenLocal: number; // 本地最后看到的时间
   isFavorite: boolean;   // 是否为收藏设备
+  isTrusted?: boolean;   // 是否为受信任设备
+  identityKey?: string;  // 受信任设备的身份公钥（SPKI，Base64），重连时据此验证握手签名
+  pairingSecret?: string; // 与该设备共享的配对密钥，见 pairing.ts
 }
 
 // 历史记录（在IndexedDB中的存储格式）
@@ -228,6 +234,177 @@ export class XTransIndexedDB {
     }
   }
 
+  // 信任设备并记录其身份公钥
+  async trustDevice(device: DeviceInfo, identityKey: string): Promise<void> {
+    const existing = await this.getDevice(device.deviceId);
+    const tx = await this.getTransaction(STORES.DEVICES, 'readwrite');
+    const store = tx.objectStore(STORES.DEVICES);
+
+    const deviceRecord: DeviceRecord = {
+      ...existing,
+      ...device,
+      lastSeenLocal: Date.now(),
+      isFavorite: existing?.isFavorite ?? false,
+      isTrusted: true,
+      identityKey
+    };
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(deviceRecord);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // 取消信任设备
+  async untrustDevice(deviceId: string): Promise<void> {
+    const device = await this.getDevice(deviceId);
+    if (device) {
+      device.isTrusted = false;
+      delete device.identityKey;
+      await this.saveDevice(device, device.isFavorite);
+    }
+  }
+
+  // 获取受信任设备
+  async getTrustedDevices(): Promise<DeviceRecord[]> {
+    const devices = await this.getAllDevices();
+    return devices.filter((device) => device.isTrusted && device.identityKey);
+  }
+
+  // 记录与设备共享的配对密钥
+  async pairDevice(device: DeviceInfo, pairingSecret: string): Promise<void> {
+    const existing = await this.getDevice(device.deviceId);
+    const tx = await this.getTransaction(STORES.DEVICES, 'readwrite');
+    const store = tx.objectStore(STORES.DEVICES);
+
+    const deviceRecord: DeviceRecord = {
+      ...existing,
+      ...device,
+      lastSeenLocal: Date.now(),
+      isFavorite: existing?.isFavorite ?? false,
+      pairingSecret
+    };
+
+    return new Promise((resolve, reject) => {
+      const request = store.put(deviceRecord);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // 删除配对密钥
+  async unpairDevice(deviceId: string): Promise<void> {
+    const device = await this.getDevice(deviceId);
+    if (device?.pairingSecret) {
+      delete device.pairingSecret;
+      await this.saveDevice(device, device.isFavorite);
+    }
+  }
+
+  // 获取已配对的设备
+  async getPairedDevices(): Promise<DeviceRecord[]> {
+    const devices = await this.getAllDevices();
+    return devices.filter((device) => device.pairingSecret);
+  }
+
+  /**
+   * 本机身份密钥
+   */
+
+  // 获取本机的签名密钥对（私钥不可导出，以 CryptoKey 形式直接存储）
+  async getIdentityKeyPair(): Promise<CryptoKeyPair | null> {
+    const tx = await this.getTransaction(STORES.SETTINGS, 'readonly');
+    const store = tx.objectStore(STORES.SETTINGS);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(KEYS.IDENTITY);
+      request.onsuccess = () => {
+        const record = request.result;
+        resolve(record ? { privateKey: record.privateKey, publicKey: record.publicKey } : null);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // 保存本机的签名密钥对
+  async saveIdentityKeyPair(keyPair: CryptoKeyPair): Promise<void> {
+    const tx = await this.getTransaction(STORES.SETTINGS, 'readwrite');
+    const store = tx.objectStore(STORES.SETTINGS);
+
+    return new Promise((resolve, reject) => {
+      const request = store.put({ key: KEYS.IDENTITY, privateKey: keyPair.privateKey, publicKey: keyPair.publicKey });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * ICE 服务器配置
+   */
+
+  async saveIceSettings(settings: IceSettings): Promise<void> {
+    const tx = await this.getTransaction(STORES.SETTINGS, 'readwrite');
+    const store = tx.objectStore(STORES.SETTINGS);
+
+    return new Promise((resolve, reject) => {
+      const request = store.put({ key: KEYS.ICE_SERVERS, settings });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getIceSettings(): Promise<IceSettings | null> {
+    const tx = await this.getTransaction(STORES.SETTINGS, 'readonly');
+    const store = tx.objectStore(STORES.SETTINGS);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(KEYS.ICE_SERVERS);
+      request.onsuccess = () => resolve(request.result?.settings || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * 文件系统句柄（如自动接收的保存目录）
+   */
+
+  // 保存句柄（FileSystemHandle 可直接存入 IndexedDB）
+  async saveHandle(key: string, handle: FileSystemHandle): Promise<void> {
+    const tx = await this.getTransaction(STORES.SETTINGS, 'readwrite');
+    const store = tx.objectStore(STORES.SETTINGS);
+
+    return new Promise((resolve, reject) => {
+      const request = store.put({ key, handle });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // 获取句柄
+  async getHandle(key: string): Promise<FileSystemHandle | null> {
+    const tx = await this.getTransaction(STORES.SETTINGS, 'readonly');
+    const store = tx.objectStore(STORES.SETTINGS);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(key);
+      request.onsuccess = () => resolve(request.result?.handle || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // 删除句柄
+  async removeHandle(key: string): Promise<void> {
+    const tx = await this.getTransaction(STORES.SETTINGS, 'readwrite');
+    const store = tx.objectStore(STORES.SETTINGS);
+
+    return new Promise((resolve, reject) => {
+      const request = store.delete(key);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   /**
    * 历史记录管理
    */
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FRAME_HEADER_SIZE,
+  FRAME_MAGIC,
+  FrameType,
+  MAX_FRAME_HEADER_SIZE,
+  decodeFrame,
+  encodeChunkFrame,
+  encodeControlFrame,
+} from './packet-framing';
+
+const UUID = '3f2b8c1e-9a4d-4e7f-b6c5-1d2e3f4a5b6c';
+
+function payload(...values: number[]): ArrayBuffer {
+  return new Uint8Array(values).buffer;
+}
+
+describe('encodeChunkFrame / decodeFrame', () => {
+  it('UUID 以 16 字节存储并原样还原', () => {
+    const frame = encodeChunkFrame(UUID, 7, payload(1, 2, 3));
+    expect(frame.byteLength).toBe(FRAME_HEADER_SIZE + 3);
+    expect(new DataView(frame).getUint32(0, false)).toBe(FRAME_MAGIC);
+    expect(new TextDecoder().decode(new Uint8Array(frame, 0, 4))).toBe('XTFR');
+
+    const decoded = decodeFrame(frame);
+    expect(decoded).toMatchObject({ frameType: FrameType.Chunk, fileId: UUID, chunkIndex: 7, encrypted: false });
+    expect(decoded?.frameType === FrameType.Chunk && [...new Uint8Array(decoded.data)]).toEqual([1, 2, 3]);
+  });
+
+  it('大写 UUID 还原为小写', () => {
+    const decoded = decodeFrame(encodeChunkFrame(UUID.toUpperCase(), 0, payload()));
+    expect(decoded?.frameType === FrameType.Chunk && decoded.fileId).toBe(UUID);
+  });
+
+  it('不超过 16 字符的 ASCII id 使用 v1 格式', () => {
+    for (const fileId of ['f1', 'abcdefghijklmnop']) {
+      const frame = encodeChunkFrame(fileId, 2, payload(9));
+      expect(frame.byteLength).toBe(FRAME_HEADER_SIZE + 1);
+      expect(decodeFrame(frame)).toMatchObject({ frameType: FrameType.Chunk, fileId, chunkIndex: 2 });
+    }
+  });
+
+  it('超过 16 字符或非 ASCII 的 id 回退到旧格式', () => {
+    for (const fileId of ['abcdefghijklmnopq', '文件-1']) {
+      const frame = encodeChunkFrame(fileId, 3, payload(9));
+      expect(frame.byteLength).toBe(MAX_FRAME_HEADER_SIZE + 1);
+      expect(decodeFrame(frame)).toMatchObject({ frameType: FrameType.Chunk, fileId, chunkIndex: 3, encrypted: false });
+    }
+  });
+
+  it('加密分片带 FLAG_ENCRYPTED 标志', () => {
+    const decoded = decodeFrame(encodeChunkFrame(UUID, 1, payload(5), false, true));
+    expect(decoded).toMatchObject({ frameType: FrameType.Chunk, fileId: UUID, encrypted: true });
+  });
+
+  it('加密分片无法使用旧格式时抛出异常', () => {
+    expect(() => encodeChunkFrame(UUID, 1, payload(5), true, true)).toThrow();
+    expect(() => encodeChunkFrame('abcdefghijklmnopq', 1, payload(5), false, true)).toThrow();
+  });
+
+  it('对方只支持旧格式时发送 BDTL 帧', () => {
+    const frame = encodeChunkFrame(UUID, 42, payload(1, 2), true);
+    expect(new TextDecoder().decode(new Uint8Array(frame, 0, 4))).toBe('BDTL');
+    expect(frame.byteLength).toBe(MAX_FRAME_HEADER_SIZE + 2);
+
+    const decoded = decodeFrame(frame);
+    expect(decoded).toMatchObject({ frameType: FrameType.Chunk, fileId: UUID, chunkIndex: 42, encrypted: false });
+    expect(decoded?.frameType === FrameType.Chunk && [...new Uint8Array(decoded.data)]).toEqual([1, 2]);
+  });
+});
+
+describe('encodeControlFrame / decodeFrame', () => {
+  it('JSON 控制消息原样还原', () => {
+    const json = JSON.stringify({ type: 'file-manifest', name: '照片.jpg' });
+    expect(decodeFrame(encodeControlFrame(json))).toEqual({ frameType: FrameType.Control, json });
+  });
+});
+
+describe('decodeFrame 无法识别的数据', () => {
+  it('头部不完整时返回 null', () => {
+    const frame = encodeChunkFrame(UUID, 0, payload());
+    expect(decodeFrame(frame.slice(0, FRAME_HEADER_SIZE - 1))).toBeNull();
+    expect(decodeFrame(frame.slice(0, 3))).toBeNull();
+
+    const legacy = encodeChunkFrame(UUID, 0, payload(), true);
+    expect(decodeFrame(legacy.slice(0, MAX_FRAME_HEADER_SIZE - 1))).toBeNull();
+  });
+
+  it('magic 不符时返回 null', () => {
+    const frame = encodeChunkFrame(UUID, 0, payload(1));
+    new Uint8Array(frame)[0] = 0x59;
+    expect(decodeFrame(frame)).toBeNull();
+  });
+
+  it('版本或帧类型未知时返回 null', () => {
+    const wrongVersion = encodeControlFrame('{}');
+    new DataView(wrongVersion).setUint8(4, 2);
+    expect(decodeFrame(wrongVersion)).toBeNull();
+
+    const wrongType = encodeControlFrame('{}');
+    new DataView(wrongType).setUint8(5, 9);
+    expect(decodeFrame(wrongType)).toBeNull();
+  });
+});
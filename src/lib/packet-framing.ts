@@ -0,0 +1,187 @@
+/**
+ * DataChannel 二进制帧格式
+ *
+ * v1 帧（28 字节头部）：
+ *   magic(4) "XTFR" | version(1) | frameType(1) | flags(1) | reserved(1) | id(16) | chunkIndex(4)
+ * - frameType 为 Chunk 时，id 为 fileId，负载为文件分片
+ * - frameType 为 Control 时，id 和 chunkIndex 为 0，负载为 UTF-8 编码的 JSON 控制消息
+ * - id 为 UUID 时以 16 字节二进制存储（flags 含 FLAG_UUID_ID），否则为不超过 16 字节的 ASCII，末尾补 0
+ * - 分片负载经端到端加密时 flags 含 FLAG_ENCRYPTED
+ *
+ * 旧格式（44 字节头部，仅用于分片）：
+ *   magic(4) "BDTL" | fileId(36，补 0) | chunkIndex(4)
+ * 接收时两种格式都接受；对方不支持 v1 时发送旧格式。
+ */
+
+export const FRAME_MAGIC = 0x58544652; // "XTFR"
+export const FRAME_VERSION = 1;
+export const FRAME_HEADER_SIZE = 28;
+
+const LEGACY_MAGIC = 0x4244544c; // "BDTL"
+const LEGACY_HEADER_SIZE = 44;
+const LEGACY_ID_SIZE = 36;
+
+// 两种格式中较大的头部，用于计算分片大小上限
+export const MAX_FRAME_HEADER_SIZE = LEGACY_HEADER_SIZE;
+
+const ID_SIZE = 16;
+
+export enum FrameType {
+  Chunk = 1,
+  Control = 2,
+}
+
+// 帧标志位
+const FLAG_UUID_ID = 0x01;
+const FLAG_ENCRYPTED = 0x02;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type DecodedFrame =
+  | { frameType: FrameType.Chunk; fileId: string; chunkIndex: number; data: ArrayBuffer; encrypted: boolean }
+  | { frameType: FrameType.Control; json: string };
+
+// 将 id 编码为 16 字节，无法编码时返回 null
+function encodeId(id: string): { bytes: Uint8Array; flags: number } | null {
+  const bytes = new Uint8Array(ID_SIZE);
+  if (UUID_PATTERN.test(id)) {
+    const hex = id.replace(/-/g, '');
+    for (let i = 0; i < ID_SIZE; i++) {
+      bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    }
+    return { bytes, flags: FLAG_UUID_ID };
+  }
+
+  const ascii = new TextEncoder().encode(id);
+  if (ascii.length > ID_SIZE || ascii.length !== id.length) {
+    return null;
+  }
+  bytes.set(ascii);
+  return { bytes, flags: 0 };
+}
+
+function decodeId(bytes: Uint8Array, flags: number): string {
+  if (flags & FLAG_UUID_ID) {
+    const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+  }
+  return new TextDecoder().decode(bytes).replace(/\0+$/, '');
+}
+
+function writeHeader(
+  frame: Uint8Array,
+  frameType: FrameType,
+  flags: number,
+  id: Uint8Array | null,
+  chunkIndex: number
+) {
+  const view = new DataView(frame.buffer, frame.byteOffset, FRAME_HEADER_SIZE);
+  view.setUint32(0, FRAME_MAGIC, false);
+  view.setUint8(4, FRAME_VERSION);
+  view.setUint8(5, frameType);
+  view.setUint8(6, flags);
+  if (id) {
+    frame.set(id, 8);
+  }
+  view.setUint32(24, chunkIndex, false);
+}
+
+/**
+ * 编码分片帧
+ * @param legacy 对方只支持旧格式；fileId 无法放入 16 字节时也会使用旧格式
+ * @param encrypted 负载为密文（旧格式无法标记，此时抛出异常）
+ */
+export function encodeChunkFrame(
+  fileId: string,
+  chunkIndex: number,
+  data: ArrayBuffer,
+  legacy = false,
+  encrypted = false
+): ArrayBuffer {
+  const id = legacy ? null : encodeId(fileId);
+  if (!id) {
+    if (encrypted) {
+      throw new Error(`无法为 ${fileId} 编码加密分片帧`);
+    }
+    return encodeLegacyChunkFrame(fileId, chunkIndex, data);
+  }
+
+  const frame = new Uint8Array(FRAME_HEADER_SIZE + data.byteLength);
+  writeHeader(frame, FrameType.Chunk, id.flags | (encrypted ? FLAG_ENCRYPTED : 0), id.bytes, chunkIndex);
+  frame.set(new Uint8Array(data), FRAME_HEADER_SIZE);
+  return frame.buffer;
+}
+
+/**
+ * 编码控制帧（JSON 消息）
+ */
+export function encodeControlFrame(json: string): ArrayBuffer {
+  const payload = new TextEncoder().encode(json);
+  const frame = new Uint8Array(FRAME_HEADER_SIZE + payload.byteLength);
+  writeHeader(frame, FrameType.Control, 0, null, 0);
+  frame.set(payload, FRAME_HEADER_SIZE);
+  return frame.buffer;
+}
+
+function encodeLegacyChunkFrame(fileId: string, chunkIndex: number, data: ArrayBuffer): ArrayBuffer {
+  const frame = new Uint8Array(LEGACY_HEADER_SIZE + data.byteLength);
+  const view = new DataView(frame.buffer);
+  view.setUint32(0, LEGACY_MAGIC, false);
+  frame.set(new TextEncoder().encode(fileId.padEnd(LEGACY_ID_SIZE, '\0')).subarray(0, LEGACY_ID_SIZE), 4);
+  view.setUint32(40, chunkIndex, false);
+  frame.set(new Uint8Array(data), LEGACY_HEADER_SIZE);
+  return frame.buffer;
+}
+
+/**
+ * 解析二进制帧（v1 或旧格式）
+ * @returns 无法识别时返回 null
+ */
+export function decodeFrame(buffer: ArrayBuffer): DecodedFrame | null {
+  const bytes = new Uint8Array(buffer);
+  if (bytes.byteLength < 4) {
+    return null;
+  }
+
+  const view = new DataView(buffer);
+  const magic = view.getUint32(0, false);
+
+  if (magic === FRAME_MAGIC && bytes.byteLength >= FRAME_HEADER_SIZE) {
+    const version = view.getUint8(4);
+    if (version !== FRAME_VERSION) {
+      console.warn(`不支持的帧版本: ${version}`);
+      return null;
+    }
+
+    const frameType = view.getUint8(5);
+    const flags = view.getUint8(6);
+    if (frameType === FrameType.Chunk) {
+      return {
+        frameType,
+        fileId: decodeId(bytes.subarray(8, 8 + ID_SIZE), flags),
+        chunkIndex: view.getUint32(24, false),
+        data: buffer.slice(FRAME_HEADER_SIZE),
+        encrypted: (flags & FLAG_ENCRYPTED) !== 0,
+      };
+    }
+    if (frameType === FrameType.Control) {
+      return {
+        frameType,
+        json: new TextDecoder().decode(bytes.subarray(FRAME_HEADER_SIZE)),
+      };
+    }
+    return null;
+  }
+
+  if (magic === LEGACY_MAGIC && bytes.byteLength >= LEGACY_HEADER_SIZE) {
+    return {
+      frameType: FrameType.Chunk,
+      fileId: new TextDecoder().decode(bytes.subarray(4, 40)).replace(/\0+$/, ''),
+      chunkIndex: view.getUint32(40, false),
+      data: buffer.slice(LEGACY_HEADER_SIZE),
+      encrypted: false,
+    };
+  }
+
+  return null;
+}
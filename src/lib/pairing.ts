@@ -0,0 +1,50 @@
+/**
+ * 设备配对
+ *
+ * 两台设备连接后，由设备 ID 较小的一方生成随机的配对密钥，经加密的控制通道发给对方，双方各自保存。
+ * 之后双方向信令服务器登记由密钥派生的配对令牌（而不是密钥本身）：持有相同令牌的设备即使不在同一房间，
+ * 也能看到对方是否在线并交换 SDP，从连接历史中一键重连，无需再交换连接码。
+ * 删除连接历史时同时删除配对。
+ */
+
+import { xtransIndexedDB } from './indexeddb-manager';
+import { DeviceInfo } from './device-manager';
+import { isEncryptionAvailable, toBase64 } from './e2e-encryption';
+import { sha256Hex } from './file-hash';
+
+const PAIRING_SECRET_SIZE = 32;
+const PAIRING_TOKEN_CONTEXT = 'xtrans-pairing-v1';
+
+// 是否支持配对（派生令牌需要 WebCrypto）
+export function isPairingAvailable(): boolean {
+  return isEncryptionAvailable();
+}
+
+export function generatePairingSecret(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(PAIRING_SECRET_SIZE)));
+}
+
+// 由配对密钥派生登记到信令服务器的令牌，服务器无法据此得到密钥
+export function derivePairingToken(secret: string): Promise<string> {
+  return sha256Hex(new TextEncoder().encode(`${PAIRING_TOKEN_CONTEXT}:${secret}`));
+}
+
+export async function getPairingSecret(deviceId: string): Promise<string | null> {
+  const device = await xtransIndexedDB.getDevice(deviceId);
+  return device?.pairingSecret ?? null;
+}
+
+export function savePairing(device: DeviceInfo, secret: string): Promise<void> {
+  return xtransIndexedDB.pairDevice(device, secret);
+}
+
+export function removePairing(deviceId: string): Promise<void> {
+  return xtransIndexedDB.unpairDevice(deviceId);
+}
+
+// 所有配对的令牌，登记到信令服务器
+export async function loadPairingTokens(): Promise<string[]> {
+  if (!isPairingAvailable()) return [];
+  const devices = await xtransIndexedDB.getPairedDevices();
+  return Promise.all(devices.map((device) => derivePairingToken(device.pairingSecret!)));
+}
@@ -0,0 +1,100 @@
+/**
+ * 协议版本与能力协商
+ * 握手消息携带本端的协议版本和能力列表，双方取交集后再开始传输。
+ * 旧版本客户端的握手不带协议信息，视为版本 1、不支持任何扩展能力：
+ * 只使用 16KB 分片、旧帧格式和单一数据通道，不发送清单、传输控制和续传消息。
+ */
+
+import { isEncryptionAvailable } from './e2e-encryption';
+
+// 当前协议版本
+export const PROTOCOL_VERSION = 2;
+
+// 可互通的最低协议版本
+export const MIN_PROTOCOL_VERSION = 1;
+
+export type Capability =
+  | 'resume' // 断点续传（resume_request / resume_ack）
+  | 'hashing' // SHA-256 完整性校验
+  | 'adaptive-chunk' // 按连接协商分片大小（元数据中的 chunkSize）
+  | 'multi-channel' // 批量数据通道
+  | 'binary-framing' // v1 二进制帧（见 packet-framing.ts）
+  | 'manifest' // 文件夹和批量传输清单
+  | 'transfer-control' // 暂停、继续、取消
+  | 'encryption' // 应用层端到端加密（见 e2e-encryption.ts）
+  | 'ice-restart' // 连接中断后通过 ICE restart 恢复（信令中的 restart 标记、ice_restart 消息）
+  | 'pairing'; // 交换配对密钥，之后可经信令服务器直接重连（见 pairing.ts）
+
+// 本端支持的能力
+export const LOCAL_CAPABILITIES: Capability[] = [
+  'resume',
+  'hashing',
+  'adaptive-chunk',
+  'multi-channel',
+  'binary-framing',
+  'manifest',
+  'transfer-control',
+  'ice-restart',
+  // 非安全上下文中没有 WebCrypto，无法加密
+  ...(isEncryptionAvailable() ? (['encryption', 'pairing'] as Capability[]) : []),
+];
+
+// 握手中携带的协议信息
+export interface ProtocolInfo {
+  version: number;
+  minVersion: number;
+  capabilities: Capability[];
+  bulkChannels: number; // 本端支持的批量数据通道数
+}
+
+// 协商结果
+export interface NegotiatedProtocol {
+  version: number;
+  capabilities: ReadonlySet<Capability>;
+  bulkChannels: number;
+  legacy: boolean; // 对方为不支持协商的旧版本
+  compatible: boolean; // 双方版本可以互通
+}
+
+/**
+ * 生成本端的协议信息
+ */
+export function createProtocolInfo(bulkChannels: number): ProtocolInfo {
+  return {
+    version: PROTOCOL_VERSION,
+    minVersion: MIN_PROTOCOL_VERSION,
+    capabilities: LOCAL_CAPABILITIES,
+    bulkChannels,
+  };
+}
+
+/**
+ * 根据对方的协议信息协商
+ * @param remote 对方握手中的协议信息，旧版本为 undefined
+ * @param localBulkChannels 本端支持的批量数据通道数
+ */
+export function negotiateProtocol(remote: ProtocolInfo | undefined, localBulkChannels: number): NegotiatedProtocol {
+  if (!remote) {
+    return {
+      version: 1,
+      capabilities: new Set(),
+      bulkChannels: 0,
+      legacy: true,
+      compatible: MIN_PROTOCOL_VERSION <= 1,
+    };
+  }
+
+  const remoteCapabilities = new Set(remote.capabilities ?? []);
+  const capabilities = new Set(LOCAL_CAPABILITIES.filter((c) => remoteCapabilities.has(c)));
+  const bulkChannels = capabilities.has('multi-channel')
+    ? Math.max(0, Math.min(localBulkChannels, remote.bulkChannels ?? 0))
+    : 0;
+
+  return {
+    version: Math.min(PROTOCOL_VERSION, remote.version),
+    capabilities,
+    bulkChannels,
+    legacy: false,
+    compatible: remote.version >= MIN_PROTOCOL_VERSION && PROTOCOL_VERSION >= (remote.minVersion ?? 1),
+  };
+}
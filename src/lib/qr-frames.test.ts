@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { isQrFrame, MAX_SINGLE_QR_LENGTH, QrFrameAssembler, splitQrFrames } from './qr-frames';
+
+// 足够长、需要切分为多帧的连接码
+const longCode = 'X2:' + Array.from({ length: 900 }, (_, i) => 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789-_'[i % 38]).join('');
+
+describe('splitQrFrames', () => {
+  it('短连接码使用单个二维码', () => {
+    const code = 'X2:' + 'a'.repeat(MAX_SINGLE_QR_LENGTH - 3);
+    expect(splitQrFrames(code)).toEqual([code]);
+  });
+
+  it('长连接码切分为多帧', () => {
+    const frames = splitQrFrames(longCode);
+    expect(frames.length).toBeGreaterThan(1);
+    expect(frames.every(isQrFrame)).toBe(true);
+  });
+});
+
+describe('QrFrameAssembler', () => {
+  it('乱序、重复接收后拼合出原连接码', () => {
+    const frames = splitQrFrames(longCode);
+    const order = [...frames].reverse();
+    order.splice(1, 0, order[0]);
+    const assembler = new QrFrameAssembler();
+
+    const results = order.map((frame) => assembler.add(frame));
+    expect(results[results.length - 1]).toEqual({ status: 'complete', code: longCode });
+    expect(results[1]).toEqual({ status: 'progress', received: 1, total: frames.length });
+  });
+
+  it('单个二维码直接返回内容', () => {
+    expect(new QrFrameAssembler().add('X2:abc')).toEqual({ status: 'complete', code: 'X2:abc' });
+  });
+
+  it('收到其他连接码的帧时重新开始', () => {
+    const other = splitQrFrames(longCode.replace('X2:A', 'X2:Z'));
+    const frames = splitQrFrames(longCode);
+    const assembler = new QrFrameAssembler();
+
+    assembler.add(other[0]);
+    assembler.add(other[1]);
+    expect(assembler.add(frames[0])).toEqual({ status: 'progress', received: 1, total: frames.length });
+  });
+
+  it('某一帧识别有误时校验失败', () => {
+    const frames = splitQrFrames(longCode);
+    frames[1] = frames[1].slice(0, -1) + (frames[1].endsWith('A') ? 'B' : 'A');
+    const assembler = new QrFrameAssembler();
+
+    const results = frames.map((frame) => assembler.add(frame));
+    expect(results[results.length - 1]).toEqual({ status: 'invalid' });
+  });
+
+  it('格式错误的帧无效', () => {
+    const assembler = new QrFrameAssembler();
+    expect(assembler.add('XQ:garbage')).toEqual({ status: 'invalid' });
+    expect(assembler.add('XQ:3/2:0123abcd:x')).toEqual({ status: 'invalid' });
+  });
+});
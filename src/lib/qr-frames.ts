@@ -0,0 +1,108 @@
+/**
+ * 多帧二维码
+ *
+ * 连接码过长时单个二维码过于密集，在小尺寸下难以识别。此时将连接码切分为多段，
+ * 每段编码为一帧 `XQ:<序号>/<总数>:<标识>:<内容>` 循环显示；标识为完整连接码的校验值，
+ * 用于区分不同的连接码并在拼合后校验。扫描方可以按任意顺序、重复地接收各帧，收齐后拼合。
+ * 足够短的连接码仍使用单个二维码，内容即连接码本身。
+ */
+
+const FRAME_PREFIX = 'XQ:';
+const FRAME_PATTERN = /^XQ:(\d+)\/(\d+):([0-9a-f]{8}):(.*)$/s;
+
+// 不超过此长度时使用单个二维码
+export const MAX_SINGLE_QR_LENGTH = 300;
+// 每帧承载的连接码长度
+const FRAME_PAYLOAD_SIZE = 200;
+const MAX_FRAMES = 64;
+
+// FNV-1a 32 位校验值
+function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * 将连接码切分为二维码帧
+ * @returns 足够短时只有一帧，内容为连接码本身
+ */
+export function splitQrFrames(code: string): string[] {
+  if (code.length <= MAX_SINGLE_QR_LENGTH) {
+    return [code];
+  }
+
+  const total = Math.ceil(code.length / FRAME_PAYLOAD_SIZE);
+  const id = checksum(code);
+  return Array.from({ length: total }, (_, i) =>
+    `${FRAME_PREFIX}${i + 1}/${total}:${id}:${code.slice(i * FRAME_PAYLOAD_SIZE, (i + 1) * FRAME_PAYLOAD_SIZE)}`
+  );
+}
+
+export function isQrFrame(text: string): boolean {
+  return text.startsWith(FRAME_PREFIX);
+}
+
+export type QrFrameResult =
+  | { status: 'complete'; code: string }
+  | { status: 'progress'; received: number; total: number }
+  | { status: 'invalid' };
+
+/**
+ * 多帧二维码拼合
+ * 按任意顺序接收帧，收到其他连接码的帧时重新开始
+ */
+export class QrFrameAssembler {
+  private id: string | null = null;
+  private parts: (string | undefined)[] = [];
+  private received = 0;
+
+  /**
+   * 接收一次扫描结果
+   * @param text 二维码内容：多帧中的一帧，或单个二维码的完整连接码
+   */
+  add(text: string): QrFrameResult {
+    if (!isQrFrame(text)) {
+      return { status: 'complete', code: text };
+    }
+
+    const match = FRAME_PATTERN.exec(text);
+    if (!match) {
+      return { status: 'invalid' };
+    }
+    const index = Number(match[1]) - 1;
+    const total = Number(match[2]);
+    const id = match[3];
+    if (total < 1 || total > MAX_FRAMES || index < 0 || index >= total) {
+      return { status: 'invalid' };
+    }
+
+    if (id !== this.id || total !== this.parts.length) {
+      this.id = id;
+      this.parts = new Array(total);
+      this.received = 0;
+    }
+    if (this.parts[index] === undefined) {
+      this.parts[index] = match[4];
+      this.received++;
+    }
+
+    if (this.received < total) {
+      return { status: 'progress', received: this.received, total };
+    }
+
+    const code = this.parts.join('');
+    this.reset();
+    // 校验失败说明某一帧识别有误，丢弃后重新接收
+    return checksum(code) === id ? { status: 'complete', code } : { status: 'invalid' };
+  }
+
+  reset(): void {
+    this.id = null;
+    this.parts = [];
+    this.received = 0;
+  }
+}
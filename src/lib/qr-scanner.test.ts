@@ -0,0 +1,48 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { QRCodeSVG } from 'qrcode.react';
+import { describe, expect, it } from 'vitest';
+import { decodeQrImage, QrImage } from './qr-scanner';
+
+// 每个模块渲染为 SCALE×SCALE 像素
+const SCALE = 6;
+
+/**
+ * 用界面中的 QRCodeSVG 生成二维码，并按 SVG 路径光栅化为 RGBA 像素
+ * 路径由每行连续的深色模块组成：`M<x> <y>h<宽度>v1H<x>z`
+ */
+function renderQr(value: string, inverted = false): QrImage {
+  const svg = renderToStaticMarkup(createElement(QRCodeSVG, { value, marginSize: 4 }));
+  const size = Number(/viewBox="0 0 (\d+) \d+"/.exec(svg)![1]);
+  const paths = [...svg.matchAll(/ d="([^"]+)"/g)].map((match) => match[1]);
+  const modules = paths[paths.length - 1];
+
+  const width = size * SCALE;
+  const data = new Uint8ClampedArray(width * width * 4).fill(inverted ? 0 : 255);
+  for (const [, x, y, run] of modules.matchAll(/M(\d+)[ ,](\d+)\s*h(\d+)/g)) {
+    for (let row = Number(y) * SCALE; row < (Number(y) + 1) * SCALE; row++) {
+      for (let col = Number(x) * SCALE; col < (Number(x) + Number(run)) * SCALE; col++) {
+        data.fill(inverted ? 255 : 0, (row * width + col) * 4, (row * width + col) * 4 + 3);
+      }
+    }
+  }
+  return { data, width, height: width };
+}
+
+describe('decodeQrImage', () => {
+  const code = 'X2:' + 'AbCdEf0123456789-_'.repeat(12);
+
+  it('识别界面生成的连接码二维码', () => {
+    expect(decodeQrImage(renderQr(code))).toBe(code);
+  });
+
+  it('识别反色二维码（深色模式截图）', () => {
+    expect(decodeQrImage(renderQr(code, true))).toBe(code);
+  });
+
+  it('没有二维码时返回 null', () => {
+    const blank = new Uint8ClampedArray(120 * 120 * 4).fill(255);
+    expect(decodeQrImage({ data: blank, width: 120, height: 120 })).toBeNull();
+    expect(decodeQrImage({ data: new Uint8ClampedArray(0), width: 0, height: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * 二维码识别
+ * 识别本身（decodeQrImage）是纯函数，只依赖像素数据，可以脱离浏览器对生成的二维码图片进行测试；
+ * 摄像头画面和图片文件先绘制到 canvas 取得像素数据，再交给它识别。
+ */
+
+import jsQR from 'jsqr';
+
+// 识别前将图像缩小到此尺寸以内，过大的图像识别很慢，二维码也不需要这么高的分辨率
+const MAX_IMAGE_SIZE = 1600;
+const MAX_FRAME_SIZE = 800;
+
+// RGBA 像素数据，与 ImageData 结构相同
+export interface QrImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * 识别图像中的二维码
+ * @returns 二维码内容，未找到时返回 null
+ */
+export function decodeQrImage(image: QrImage): string | null {
+  if (image.width === 0 || image.height === 0 || image.data.length < image.width * image.height * 4) {
+    return null;
+  }
+  // 同时尝试反色，深色主题下截图的二维码可能是浅色码深色底
+  const result = jsQR(image.data, image.width, image.height, { inversionAttempts: 'attemptBoth' });
+  return result?.data || null;
+}
+
+// 是否可以使用摄像头（非安全上下文中 mediaDevices 不可用）
+export function isCameraAvailable(): boolean {
+  return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+// 将图像按比例缩小后绘制到 canvas，返回像素数据
+function drawToImage(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  maxSize: number,
+  canvas: HTMLCanvasElement = document.createElement('canvas')
+): QrImage | null {
+  if (width === 0 || height === 0) return null;
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('无法读取图片'));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * 识别图片文件（如截图）中的二维码
+ * @returns 二维码内容，未找到时返回 null
+ */
+export async function decodeQrFile(file: Blob): Promise<string | null> {
+  const image = await loadImage(file);
+  const pixels = drawToImage(image, image.naturalWidth, image.naturalHeight, MAX_IMAGE_SIZE);
+  return pixels ? decodeQrImage(pixels) : null;
+}
+
+/**
+ * 识别摄像头当前画面中的二维码
+ * @param canvas 复用的绘制画布，避免每帧创建
+ */
+export function decodeQrFrame(video: HTMLVideoElement, canvas: HTMLCanvasElement): string | null {
+  if (video.readyState < video.HAVE_CURRENT_DATA) return null;
+  const pixels = drawToImage(video, video.videoWidth, video.videoHeight, MAX_FRAME_SIZE, canvas);
+  return pixels ? decodeQrImage(pixels) : null;
+}
@@ -0,0 +1,103 @@
+import LZString from 'lz-string';
+import { describe, expect, it } from 'vitest';
+import { CODE_TTL, MAX_CLOCK_SKEW, SDPCompressor } from './sdp-compressor';
+
+const compressor = new SDPCompressor();
+
+// 只有数据通道的 SDP 可以精简
+const DATA_CHANNEL_OFFER = [
+  'v=0',
+  'o=- 4611731400430051336 2 IN IP4 127.0.0.1',
+  's=-',
+  't=0 0',
+  'a=group:BUNDLE 0',
+  'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+  'c=IN IP4 0.0.0.0',
+  'a=candidate:1467250027 1 udp 2122260223 192.168.1.23 56143 typ host generation 0',
+  'a=ice-ufrag:Ys2v',
+  'a=ice-pwd:4ZnEoNvcsWkt9Kb8s7YOUuHv',
+  'a=fingerprint:sha-256 7C:3A:91:0E:5F:B2:44:D8:19:A0:6E:C3:2B:F7:88:15:D4:60:9A:1C:E3:57:0B:BF:42:96:7D:2E:A5:F1:03:C8',
+  'a=setup:actpass',
+  'a=mid:0',
+  'a=sctp-port:5000',
+  '',
+].join('\r\n');
+
+const CREATOR = { deviceId: '3f2b8c1e-9a4d-4e7f-b6c5-1d2e3f4a5b6c', deviceName: '书房电脑' };
+
+// 带音频轨道的 SDP 无法精简，回退到通用压缩
+const AUDIO_OFFER = DATA_CHANNEL_OFFER.replace(
+  'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+  'm=audio 9 UDP/TLS/RTP/SAVPF 111'
+);
+
+describe('SDPCompressor', () => {
+  it('数据通道 SDP 使用精简格式', () => {
+    const code = compressor.compress(JSON.stringify({ type: 'offer', sdp: DATA_CHANNEL_OFFER }));
+    expect(code.startsWith('X2:')).toBe(true);
+
+    const result = compressor.decompress(code, 'offer');
+    expect(result.ok && result.type).toBe('offer');
+  });
+
+  it('无法精简时回退到 X1 并原样还原', () => {
+    const sdp = JSON.stringify({ type: 'offer', sdp: AUDIO_OFFER });
+    const code = compressor.compress(sdp);
+    expect(code.startsWith('X1:')).toBe(true);
+
+    expect(compressor.decompress(code, 'offer')).toEqual({ ok: true, sdp, type: 'offer', origin: null });
+  });
+
+  it('无法识别的前缀返回 invalid', () => {
+    const result = compressor.decompress('hello', 'offer');
+    expect(result.ok || result.reason).toBe('invalid');
+  });
+
+  it('精简格式改动一个字节返回 corrupted', () => {
+    const code = compressor.compress(JSON.stringify({ type: 'offer', sdp: DATA_CHANNEL_OFFER }), CREATOR);
+    const index = Math.floor(code.length / 2);
+    const flipped = code.slice(0, index) + (code[index] === 'A' ? 'B' : 'A') + code.slice(index + 1);
+
+    const result = compressor.decompress(flipped, 'offer');
+    expect(result.ok || result.reason).toBe('corrupted');
+  });
+
+  it('通用格式内容与校验值不符返回 corrupted', () => {
+    const code = compressor.compress(JSON.stringify({ type: 'offer', sdp: AUDIO_OFFER }), CREATOR);
+    const envelope = JSON.parse(LZString.decompressFromEncodedURIComponent(code.slice(3))!);
+    envelope.sdp = envelope.sdp.replace('192.168.1.23', '192.168.1.24');
+    const altered = 'X1:' + LZString.compressToEncodedURIComponent(JSON.stringify(envelope));
+
+    const result = compressor.decompress(altered, 'offer');
+    expect(result.ok || result.reason).toBe('corrupted');
+  });
+
+  it('需要连接码时输入响应码返回 wrong-role', () => {
+    const code = compressor.compress(JSON.stringify({ type: 'answer', sdp: DATA_CHANNEL_OFFER.replace('actpass', 'active') }));
+
+    const result = compressor.decompress(code, 'offer');
+    expect(result.ok ? null : result).toMatchObject({ reason: 'wrong-role', message: '这是响应码，此处需要对方的连接码' });
+  });
+
+  it('超过有效期返回 expired', () => {
+    const code = compressor.compress(JSON.stringify({ type: 'offer', sdp: DATA_CHANNEL_OFFER }), CREATOR);
+
+    const result = compressor.decompress(code, 'offer', Date.now() + CODE_TTL + MAX_CLOCK_SKEW + 60_000);
+    expect(result.ok || result.reason).toBe('expired');
+  });
+
+  it('容忍两台设备之间的时钟偏差', () => {
+    const code = compressor.compress(JSON.stringify({ type: 'offer', sdp: DATA_CHANNEL_OFFER }), CREATOR);
+
+    // 本机时钟比对方快
+    expect(compressor.decompress(code, 'offer', Date.now() + CODE_TTL + MAX_CLOCK_SKEW / 2).ok).toBe(true);
+    // 本机时钟比对方慢，生成时间在未来
+    expect(compressor.decompress(code, 'offer', Date.now() - MAX_CLOCK_SKEW).ok).toBe(true);
+  });
+
+  it('没有来源信息的连接码不检查有效期', () => {
+    const code = compressor.compress(JSON.stringify({ type: 'offer', sdp: AUDIO_OFFER }));
+
+    expect(compressor.decompress(code, 'offer', Date.now() + 10 * CODE_TTL).ok).toBe(true);
+  });
+});
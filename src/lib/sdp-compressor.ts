@@ -1,4 +1,51 @@
 import LZString from 'lz-string';
+import { CodeOrigin, crc32, expandSdp, fromBase64Url, minimizeSdp, toBase64Url } from './sdp-minimizer';
+
+export type { CodeOrigin } from './sdp-minimizer';
+
+// 连接码的有效期，超过后对方的连接多半已经失效
+export const CODE_TTL = 30 * 60 * 1000;
+
+// 生成时间取自对方设备的时钟，两台设备的时间差在此范围内时不影响有效期判断
+export const MAX_CLOCK_SKEW = 5 * 60 * 1000;
+
+/**
+ * 连接码无法使用的原因
+ * - invalid: 不是连接码
+ * - corrupted: 复制不完整或传递过程中损坏（校验值只能发现损坏，不能防止有意篡改）
+ * - expired: 超过有效期（按对方时钟计算，时间差超过 MAX_CLOCK_SKEW 时可能误判）
+ * - wrong-role: 需要响应码时输入了连接码，或相反
+ */
+export type CodeErrorReason = 'invalid' | 'corrupted' | 'expired' | 'wrong-role';
+
+export type DecompressResult =
+  | { ok: true; sdp: string; type: RTCSdpType; origin: CodeOrigin | null }
+  | { ok: false; reason: CodeErrorReason; message: string };
+
+// 连接码无法使用
+export class ConnectionCodeError extends Error {
+  constructor(public readonly reason: CodeErrorReason, message: string) {
+    super(message);
+    this.name = 'ConnectionCodeError';
+  }
+}
+
+// 连接码的生成方（不含时间，压缩时填入）
+export type CodeCreator = Omit<CodeOrigin, 'createdAt'>;
+
+const ROLE_NAMES: Partial<Record<RTCSdpType, string>> = { offer: '连接码', answer: '响应码' };
+
+// X1 格式中包在 SDP 外的来源信息和校验值
+interface GenericEnvelope {
+  type: RTCSdpType;
+  sdp: string;
+  origin?: CodeOrigin;
+  checksum?: string;
+}
+
+function textChecksum(text: string): string {
+  return crc32(new TextEncoder().encode(text)).toString(16).padStart(8, '0');
+}
 
 /**
  * SDP 压缩器
@@ -6,7 +53,10 @@ import LZString from 'lz-string';
  * 以缩短连接码长度，提升用户体验
  */
 export class SDPCompressor {
-  // 压缩格式版本前缀
+  // 精简格式前缀：只保留必要字段，解码时重建 SDP
+  private readonly MINIMAL_PREFIX = 'X2:';
+
+  // 压缩格式版本前缀（通用压缩，精简格式无法表示时使用）
   private readonly VERSION_PREFIX = 'X1:';
 
   // 旧版本前缀（向后兼容）
@@ -14,19 +64,15 @@ export class SDPCompressor {
 
   /**
    * 压缩 SDP
-   * @param sdp 原始 SDP 字符串
+   * 优先使用精简格式，无法表示时回退到通用压缩
+   * @param sdp 原始 SDP 字符串（JSON 格式的 RTCSessionDescription）
+   * @param creator 生成方，与生成时间一起写入连接码，供对方在连接前确认
    * @returns 压缩后的编码（带版本前缀）
    */
-  compress(sdp: string): string {
+  compress(sdp: string, creator?: CodeCreator): string {
     try {
-      // 步骤 1: 优化 SDP（移除冗余的 ICE candidates）
-      const optimized = this.optimizeSDP(sdp);
-
-      // 步骤 2: 使用 LZ-String 压缩
-      const compressed = LZString.compressToEncodedURIComponent(optimized);
-
-      // 步骤 3: 添加版本前缀
-      return this.VERSION_PREFIX + compressed;
+      const origin = creator ? { ...creator, createdAt: Date.now() } : undefined;
+      return this.compressMinimal(sdp, origin) ?? this.compressGeneric(sdp, origin);
     } catch (error) {
       console.error('SDP 压缩失败:', error);
       throw new Error(`SDP 压缩失败: ${error instanceof Error ? error.message : '未知错误'}`);
@@ -34,40 +80,140 @@ export class SDPCompressor {
   }
 
   /**
-   * 解压 SDP
+   * 精简格式压缩
+   * @returns 无法表示时返回 null
+   */
+  private compressMinimal(sdp: string, origin?: CodeOrigin): string | null {
+    let description: RTCSessionDescriptionInit;
+    try {
+      description = JSON.parse(sdp);
+    } catch {
+      return null;
+    }
+
+    const minimal = minimizeSdp(description, origin);
+    return minimal ? this.MINIMAL_PREFIX + toBase64Url(minimal) : null;
+  }
+
+  /**
+   * 通用压缩（X1 格式）
+   * 提供来源信息时在 SDP 外包一层，附带来源信息和校验值
+   */
+  private compressGeneric(sdp: string, origin?: CodeOrigin): string {
+    let content = sdp;
+    if (origin) {
+      const { type, sdp: description } = JSON.parse(sdp) as RTCSessionDescriptionInit;
+      const envelope: GenericEnvelope = { type, sdp: description ?? '', origin };
+      content = JSON.stringify({ ...envelope, checksum: textChecksum(JSON.stringify(envelope)) });
+    }
+
+    // 步骤 1: 优化 SDP（移除冗余的 ICE candidates）
+    const optimized = this.optimizeSDP(content);
+
+    // 步骤 2: 使用 LZ-String 压缩
+    const compressed = LZString.compressToEncodedURIComponent(optimized);
+
+    // 步骤 3: 添加版本前缀
+    return this.VERSION_PREFIX + compressed;
+  }
+
+  /**
+   * 解压并检查连接码
    * @param code 压缩的编码
-   * @returns 原始 SDP 字符串，失败返回 null
+   * @param expectedType 期望的类型，不一致时返回 wrong-role
+   * @param now 当前时间，用于检查有效期
+   * @returns 成功时为原始 SDP 字符串和生成方（旧格式没有来源信息），失败时为原因和说明
    */
-  decompress(code: string): string | null {
+  decompress(code: string, expectedType?: RTCSdpType, now = Date.now()): DecompressResult {
+    let decoded: { description: RTCSessionDescriptionInit; origin: CodeOrigin | null };
     try {
-      // 新格式（压缩版本）
-      if (code.startsWith(this.VERSION_PREFIX)) {
-        const compressed = code.slice(this.VERSION_PREFIX.length);
-        const decompressed = LZString.decompressFromEncodedURIComponent(compressed);
+      decoded = this.decode(code.trim());
+    } catch (error) {
+      if (error instanceof ConnectionCodeError) {
+        return { ok: false, reason: error.reason, message: error.message };
+      }
+      console.error('SDP 解压失败:', error);
+      return { ok: false, reason: 'corrupted', message: '连接码已损坏，请重新复制完整的连接码' };
+    }
 
-        if (!decompressed) {
-          throw new Error('LZ-String 解压返回空值');
-        }
+    const { description, origin } = decoded;
+    if (!description.type || !description.sdp) {
+      return { ok: false, reason: 'corrupted', message: '连接码已损坏，请重新复制完整的连接码' };
+    }
+    if (expectedType && description.type !== expectedType) {
+      const expected = ROLE_NAMES[expectedType] ?? expectedType;
+      const actual = ROLE_NAMES[description.type] ?? description.type;
+      return { ok: false, reason: 'wrong-role', message: `这是${actual}，此处需要对方的${expected}` };
+    }
+    if (origin && now - origin.createdAt > CODE_TTL + MAX_CLOCK_SKEW) {
+      const minutes = Math.round((now - origin.createdAt) / 60000);
+      return {
+        ok: false,
+        reason: 'expired',
+        message: `${ROLE_NAMES[description.type] ?? '连接码'}已在 ${minutes} 分钟前生成，已过期，请让对方重新生成`,
+      };
+    }
+
+    return {
+      ok: true,
+      sdp: JSON.stringify({ type: description.type, sdp: description.sdp }),
+      type: description.type,
+      origin,
+    };
+  }
 
-        return decompressed;
+  /**
+   * 按前缀解码各版本的连接码
+   * @throws ConnectionCodeError 无法识别或已损坏
+   */
+  private decode(code: string): { description: RTCSessionDescriptionInit; origin: CodeOrigin | null } {
+    // 精简格式
+    if (code.startsWith(this.MINIMAL_PREFIX)) {
+      try {
+        return expandSdp(fromBase64Url(code.slice(this.MINIMAL_PREFIX.length)));
+      } catch (error) {
+        console.error('精简格式解码失败:', error);
+        throw new ConnectionCodeError('corrupted', '连接码已损坏，请重新复制完整的连接码');
       }
+    }
 
+    let json: string | null;
+    if (code.startsWith(this.VERSION_PREFIX)) {
+      // 通用压缩格式
+      json = LZString.decompressFromEncodedURIComponent(code.slice(this.VERSION_PREFIX.length));
+    } else if (code.startsWith(this.LEGACY_PREFIX)) {
       // 旧格式（向后兼容）
-      if (code.startsWith(this.LEGACY_PREFIX)) {
-        return this.decompressLegacy(code);
-      }
+      json = this.decompressLegacy(code);
+    } else if (code.startsWith('{')) {
+      // 未压缩的 JSON（原始 SDP）
+      json = code;
+    } else {
+      throw new ConnectionCodeError('invalid', '无法识别的连接码格式');
+    }
 
-      // 尝试直接解析 JSON（可能是原始 SDP）
-      if (code.trim().startsWith('{')) {
-        return code.trim();
-      }
+    let envelope: GenericEnvelope;
+    try {
+      envelope = JSON.parse(json || '');
+    } catch {
+      throw new ConnectionCodeError('corrupted', '连接码已损坏，请重新复制完整的连接码');
+    }
 
-      // 无效格式
-      console.error('无法识别的连接码格式');
-      return null;
-    } catch (error) {
-      console.error('SDP 解压失败:', error);
-      return null;
+    // 没有来源信息的旧连接码无法校验
+    if (!envelope.origin) {
+      return { description: { type: envelope.type, sdp: envelope.sdp }, origin: null };
+    }
+    const { checksum, ...content } = envelope;
+    if (checksum !== textChecksum(JSON.stringify(content))) {
+      throw new ConnectionCodeError('corrupted', '连接码校验失败，可能复制不完整或在传递过程中损坏');
+    }
+    return { description: { type: envelope.type, sdp: envelope.sdp }, origin: envelope.origin };
+  }
+
+  private decompressOrigin(code: string): CodeOrigin | undefined {
+    try {
+      return this.decode(code).origin ?? undefined;
+    } catch {
+      return undefined;
     }
   }
 
@@ -136,30 +282,40 @@ export class SDPCompressor {
    * @returns 是否为压缩格式
    */
   isCompressed(code: string): boolean {
-    return code.startsWith(this.VERSION_PREFIX);
+    return code.startsWith(this.MINIMAL_PREFIX) || code.startsWith(this.VERSION_PREFIX);
   }
 
   /**
    * 获取压缩统计信息（用于调试）
    * @param original 原始 SDP
    * @param compressed 压缩后的编码
-   * @returns 统计信息
+   * @returns 统计信息，gainOverGeneric 为相对通用压缩（X1）缩短的比例
    */
   getCompressionStats(original: string, compressed: string): {
+    format: string;
     originalSize: number;
     compressedSize: number;
     compressionRatio: number;
     reduction: string;
+    genericSize: number;
+    gainOverGeneric: string;
   } {
     const originalSize = original.length;
     const compressedSize = compressed.length;
     const compressionRatio = ((1 - compressedSize / originalSize) * 100);
+    // 按相同的来源信息计算通用压缩的长度
+    const genericSize = compressed.startsWith(this.VERSION_PREFIX)
+      ? compressedSize
+      : this.compressGeneric(original, this.decompressOrigin(compressed)).length;
 
     return {
+      format: compressed.slice(0, compressed.indexOf(':') + 1) || 'raw',
       originalSize,
       compressedSize,
       compressionRatio,
-      reduction: `${compressionRatio.toFixed(1)}%`
+      reduction: `${compressionRatio.toFixed(1)}%`,
+      genericSize,
+      gainOverGeneric: `${((1 - compressedSize / genericSize) * 100).toFixed(1)}%`
     };
   }
 }
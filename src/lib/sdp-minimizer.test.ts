@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import { CodeOrigin, crc32, expandSdp, fromBase64Url, minimizeSdp, toBase64Url } from './sdp-minimizer';
+
+const CHROME_FINGERPRINT =
+  '7C:3A:91:0E:5F:B2:44:D8:19:A0:6E:C3:2B:F7:88:15:D4:60:9A:1C:E3:57:0B:BF:42:96:7D:2E:A5:F1:03:C8';
+const FIREFOX_FINGERPRINT =
+  '5B:D3:8E:07:A1:62:FC:19:4E:B0:73:2D:C6:95:18:EA:0F:47:B8:D1:6A:23:9C:E5:71:0D:BE:84:3F:52:A6:09';
+
+// Chrome 120 的数据通道 offer：媒体级指纹，IPv4/IPv6 host、srflx 和 TCP 候选
+const CHROME_OFFER = [
+  'v=0',
+  'o=- 4611731400430051336 2 IN IP4 127.0.0.1',
+  's=-',
+  't=0 0',
+  'a=group:BUNDLE 0',
+  'a=extmap-allow-mixed',
+  'a=msid-semantic: WMS',
+  'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+  'c=IN IP4 0.0.0.0',
+  'a=candidate:1467250027 1 udp 2122260223 192.168.1.23 56143 typ host generation 0 network-id 1 network-cost 10',
+  'a=candidate:2737462431 1 udp 2122197247 2001:db8:85a3::8a2e:370:7334 56144 typ host generation 0 network-id 2',
+  'a=candidate:842163049 1 udp 1686052607 198.51.100.20 56143 typ srflx raddr 192.168.1.23 rport 56143 generation 0 network-id 1',
+  'a=candidate:467250027 1 tcp 1518280447 192.168.1.23 9 typ host tcptype active generation 0 network-id 1',
+  'a=ice-ufrag:Ys2v',
+  'a=ice-pwd:4ZnEoNvcsWkt9Kb8s7YOUuHv',
+  'a=ice-options:trickle',
+  `a=fingerprint:sha-256 ${CHROME_FINGERPRINT}`,
+  'a=setup:actpass',
+  'a=mid:0',
+  'a=sctp-port:5000',
+  'a=max-message-size:262144',
+  '',
+].join('\r\n');
+
+// Firefox 121 的数据通道 answer：会话级指纹，mDNS host 和 srflx 候选
+const FIREFOX_ANSWER = [
+  'v=0',
+  'o=mozilla...THIS_IS_SDPARTA-99.0 4294449315298282768 0 IN IP4 0.0.0.0',
+  's=-',
+  't=0 0',
+  `a=fingerprint:sha-256 ${FIREFOX_FINGERPRINT}`,
+  'a=group:BUNDLE 0',
+  'a=ice-options:trickle',
+  'a=msid-semantic:WMS *',
+  'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+  'c=IN IP4 0.0.0.0',
+  'a=candidate:0 1 UDP 2122252543 2d0ba1e5-7b6d-4c3b-9d6f-8d2f4a0b2c11.local 52345 typ host',
+  'a=candidate:2 1 TCP 2105524479 2d0ba1e5-7b6d-4c3b-9d6f-8d2f4a0b2c11.local 9 typ host tcptype active',
+  'a=candidate:1 1 UDP 1686052863 203.0.113.7 52345 typ srflx raddr 0.0.0.0 rport 0',
+  'a=sendrecv',
+  'a=end-of-candidates',
+  'a=ice-pwd:d1c5bd7e35f03e2a4c7f3b0dbd4b9a6e',
+  'a=ice-ufrag:8f2b41d3',
+  'a=mid:0',
+  'a=setup:active',
+  'a=sctp-port:5000',
+  'a=max-message-size:1073741823',
+  '',
+].join('\r\n');
+
+const origin: CodeOrigin = {
+  createdAt: 1760000000000,
+  deviceId: 'f47ac10b-58cc-4372-a567-0e02b2c3d479',
+  deviceName: '小明的 MacBook',
+};
+
+function attribute(sdp: string, name: string): string | undefined {
+  return sdp.split('\r\n').find((line) => line.startsWith(`a=${name}:`))?.slice(name.length + 3);
+}
+
+// 候选的地址、端口和类型
+function candidates(sdp: string): string[] {
+  return sdp
+    .split('\r\n')
+    .filter((line) => line.startsWith('a=candidate:'))
+    .map((line) => {
+      const parts = line.split(' ');
+      return `${parts[4]} ${parts[5]} ${parts[7]}`;
+    });
+}
+
+describe('minimizeSdp / expandSdp', () => {
+  it('还原 Chrome offer 的连接参数', () => {
+    const bytes = minimizeSdp({ type: 'offer', sdp: CHROME_OFFER }, origin)!;
+    const { description, origin: decoded } = expandSdp(bytes);
+    const sdp = description.sdp!;
+
+    expect(description.type).toBe('offer');
+    expect(decoded).toEqual(origin);
+    expect(attribute(sdp, 'ice-ufrag')).toBe('Ys2v');
+    expect(attribute(sdp, 'ice-pwd')).toBe('4ZnEoNvcsWkt9Kb8s7YOUuHv');
+    expect(attribute(sdp, 'fingerprint')).toBe(`sha-256 ${CHROME_FINGERPRINT}`);
+    expect(attribute(sdp, 'setup')).toBe('actpass');
+    expect(attribute(sdp, 'mid')).toBe('0');
+    expect(attribute(sdp, 'sctp-port')).toBe('5000');
+    expect(attribute(sdp, 'max-message-size')).toBe('262144');
+    // TCP 候选不保留
+    expect(candidates(sdp)).toEqual([
+      '192.168.1.23 56143 host',
+      '2001:db8:85a3::8a2e:370:7334 56144 host',
+      '198.51.100.20 56143 srflx',
+    ]);
+  });
+
+  it('还原 Firefox answer 的会话级指纹和 mDNS 候选', () => {
+    const bytes = minimizeSdp({ type: 'answer', sdp: FIREFOX_ANSWER }, origin)!;
+    const { description } = expandSdp(bytes);
+    const sdp = description.sdp!;
+
+    expect(description.type).toBe('answer');
+    expect(attribute(sdp, 'fingerprint')).toBe(`sha-256 ${FIREFOX_FINGERPRINT}`);
+    expect(attribute(sdp, 'setup')).toBe('active');
+    expect(attribute(sdp, 'max-message-size')).toBe('1073741823');
+    expect(candidates(sdp)).toEqual([
+      '2d0ba1e5-7b6d-4c3b-9d6f-8d2f4a0b2c11.local 52345 host',
+      '203.0.113.7 52345 srflx',
+    ]);
+  });
+
+  it('媒体级指纹优先于会话级指纹', () => {
+    const sdp = FIREFOX_ANSWER.replace('a=mid:0', `a=mid:0\r\na=fingerprint:sha-256 ${CHROME_FINGERPRINT}`);
+    const { description } = expandSdp(minimizeSdp({ type: 'answer', sdp })!);
+    expect(attribute(description.sdp!, 'fingerprint')).toBe(`sha-256 ${CHROME_FINGERPRINT}`);
+  });
+
+  it('重建的候选按原顺序递减优先级，host 高于 srflx', () => {
+    const { description } = expandSdp(minimizeSdp({ type: 'offer', sdp: CHROME_OFFER })!);
+    const priorities = description
+      .sdp!.split('\r\n')
+      .filter((line) => line.startsWith('a=candidate:'))
+      .map((line) => Number(line.split(' ')[3]));
+    expect(priorities).toEqual([...priorities].sort((a, b) => b - a));
+    expect(new Set(priorities).size).toBe(priorities.length);
+  });
+
+  it('重建的 SDP 再次精简得到相同的数据', () => {
+    for (const [type, sdp] of [['offer', CHROME_OFFER], ['answer', FIREFOX_ANSWER]] as const) {
+      const bytes = minimizeSdp({ type, sdp }, origin)!;
+      expect(minimizeSdp(expandSdp(bytes).description, origin)).toEqual(bytes);
+    }
+  });
+
+  it('非 UUID 设备 ID 和过长的设备名称', () => {
+    const custom = { createdAt: 1760000000000, deviceId: 'device-42', deviceName: '设'.repeat(40) };
+    const { origin: decoded } = expandSdp(minimizeSdp({ type: 'offer', sdp: CHROME_OFFER }, custom)!);
+    expect(decoded?.deviceId).toBe('device-42');
+    // 设备名称最多保留 64 字节，不拆分多字节字符
+    expect(decoded?.deviceName).toBe('设'.repeat(21));
+  });
+
+  it('版本 1（无来源信息）仍可解码', () => {
+    const bytes = minimizeSdp({ type: 'offer', sdp: CHROME_OFFER })!;
+    expect(bytes[0]).toBe(1);
+    expect(expandSdp(bytes).origin).toBeNull();
+  });
+
+  it.each([
+    ['含音频轨道', CHROME_OFFER.replace('m=application 9 UDP/DTLS/SCTP webrtc-datachannel', 'm=audio 9 UDP/TLS/RTP/SAVPF 111')],
+    ['多个 m 行', CHROME_OFFER + 'm=application 9 UDP/DTLS/SCTP webrtc-datachannel\r\n'],
+    ['缺少指纹', CHROME_OFFER.replace(/a=fingerprint:.*\r\n/, '')],
+    ['不支持的指纹算法', CHROME_OFFER.replace('sha-256', 'md5')],
+    ['缺少 setup', CHROME_OFFER.replace('a=setup:actpass\r\n', '')],
+  ])('无法完整表示时返回 null（%s）', (_, sdp) => {
+    expect(minimizeSdp({ type: 'offer', sdp }, origin)).toBeNull();
+  });
+
+  it('拒绝损坏的数据', () => {
+    const bytes = minimizeSdp({ type: 'offer', sdp: CHROME_OFFER }, origin)!;
+    for (const index of [1, 10, bytes.length - 8, bytes.length - 1]) {
+      const corrupted = bytes.slice();
+      corrupted[index] ^= 0x01;
+      expect(() => expandSdp(corrupted)).toThrow('连接码校验失败');
+    }
+    expect(() => expandSdp(bytes.slice(0, bytes.length - 6))).toThrow();
+    expect(() => expandSdp(Uint8Array.of(9, 0, 0))).toThrow('不支持的连接码版本');
+  });
+
+  it('拒绝截断或带多余字节的版本 1 数据', () => {
+    const bytes = minimizeSdp({ type: 'offer', sdp: CHROME_OFFER })!;
+    expect(() => expandSdp(bytes.slice(0, bytes.length - 1))).toThrow('连接码数据不完整');
+    expect(() => expandSdp(Uint8Array.from([...bytes, 0]))).toThrow('连接码数据无效');
+  });
+});
+
+describe('crc32', () => {
+  it('与标准 CRC-32 一致', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('toBase64Url / fromBase64Url', () => {
+  it('往返不含填充和 URL 保留字符', () => {
+    const bytes = Uint8Array.from({ length: 64 }, (_, i) => (i * 67 + 251) & 0xff);
+    const text = toBase64Url(bytes);
+    expect(text).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(fromBase64Url(text)).toEqual(bytes);
+  });
+});
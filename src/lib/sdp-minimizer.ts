@@ -0,0 +1,490 @@
+/**
+ * SDP 精简编码（连接码 X2 格式）
+ *
+ * 只有数据通道的 SDP 绝大部分是固定内容，真正需要交换的只有 ICE 凭据、DTLS 指纹、setup 角色、
+ * sctp-port 和候选地址。此处只提取这些字段并打包为二进制，解码时重建一份等效的 SDP。
+ *
+ * 格式（多字节整数为大端序，str 为 1 字节长度 + ASCII 内容）：
+ * - [0]      版本（1 或 2）
+ * - [1]      标志：bit0 为 answer，bit1-2 为 setup 角色，bit3 为设备 ID 按 UUID 保存
+ * - 版本 2 的来源信息：[4] 生成时间（秒），设备 ID（16 字节 UUID 或 str），[1] 长度 + UTF-8 设备名称
+ * - str      ice-ufrag
+ * - str      ice-pwd
+ * - str      mid
+ * - [1]      指纹算法，[1] 指纹长度，随后为指纹字节
+ * - [2]      sctp-port
+ * - [4]      max-message-size（0 表示未声明）
+ * - [1]      候选数量，每个候选为：[1] bit0-1 候选类型、bit2-3 地址类型，随后为地址（4/16 字节）和 [2] 端口
+ * - 版本 2 末尾为 [4] 之前所有字节的 CRC32，用于发现传递过程中的损坏
+ *
+ * 只保留 UDP、component 1 的候选；mDNS 地址（<uuid>.local）按 16 字节 UUID 保存。
+ * 无法完整表示的 SDP（多个 m 行、非数据通道等）返回 null，由调用方回退到通用压缩。
+ */
+
+import { fromBase64, toBase64 } from './e2e-encryption';
+
+// 版本 1 不含来源信息和校验值，仍可解码
+const BASIC_VERSION = 1;
+const FORMAT_VERSION = 2;
+const FLAG_ANSWER = 0x01;
+const FLAG_UUID_ID = 0x08;
+const SETUP_SHIFT = 1;
+const ADDRESS_SHIFT = 2;
+
+const SETUP_ROLES = ['actpass', 'active', 'passive'] as const;
+const CANDIDATE_TYPES = ['host', 'srflx', 'prflx', 'relay'] as const;
+const FINGERPRINT_ALGORITHMS = ['sha-256', 'sha-384', 'sha-512', 'sha-1'] as const;
+
+// RFC 8445 推荐的类型优先级，用于重建候选的 priority
+const TYPE_PREFERENCES: Record<(typeof CANDIDATE_TYPES)[number], number> = {
+  host: 126,
+  prflx: 110,
+  srflx: 100,
+  relay: 0,
+};
+
+enum AddressKind {
+  IPv4 = 0,
+  IPv6 = 1,
+  Mdns = 2,
+}
+
+const MAX_CANDIDATES = 32;
+// 设备名称最多保留的 UTF-8 字节数
+const MAX_NAME_BYTES = 64;
+const CHECKSUM_SIZE = 4;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MDNS_PATTERN = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.local$/i;
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+// 连接码的生成方和生成时间
+export interface CodeOrigin {
+  createdAt: number; // 毫秒时间戳，编码时精确到秒
+  deviceId: string;
+  deviceName: string;
+}
+
+interface MinimalCandidate {
+  type: number;
+  kind: AddressKind;
+  address: Uint8Array;
+  port: number;
+}
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function parseIPv4(address: string): Uint8Array | null {
+  const match = IPV4_PATTERN.exec(address);
+  if (!match) return null;
+  const bytes = match.slice(1).map(Number);
+  return bytes.every((byte) => byte <= 255) ? Uint8Array.from(bytes) : null;
+}
+
+function parseIPv6(address: string): Uint8Array | null {
+  if (!address.includes(':') || address.includes('%')) return null;
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...new Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  const bytes = new Uint8Array(16);
+  for (let i = 0; i < 8; i++) {
+    if (!/^[0-9a-f]{1,4}$/i.test(groups[i])) return null;
+    const value = parseInt(groups[i], 16);
+    bytes[i * 2] = value >> 8;
+    bytes[i * 2 + 1] = value & 0xff;
+  }
+  return bytes;
+}
+
+function formatIPv6(bytes: Uint8Array): string {
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((bytes[i] << 8) | bytes[i + 1]);
+  }
+
+  // 将最长的一段连续 0 压缩为 ::
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; ) {
+    if (groups[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map((group) => group.toString(16));
+  if (bestStart < 0) return hex.join(':');
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
+
+function parseUuid(uuid: string): Uint8Array {
+  const hex = uuid.replace(/-/g, '');
+  return Uint8Array.from({ length: 16 }, (_, i) => parseInt(hex.substr(i * 2, 2), 16));
+}
+
+function formatUuid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// 解析 a=candidate 行，无法表示的候选返回 null
+function parseCandidate(value: string): MinimalCandidate | null {
+  // foundation component transport priority address port typ type ...
+  const parts = value.split(' ');
+  if (parts.length < 8 || parts[1] !== '1' || parts[2].toLowerCase() !== 'udp' || parts[6] !== 'typ') {
+    return null;
+  }
+
+  const type = CANDIDATE_TYPES.indexOf(parts[7] as (typeof CANDIDATE_TYPES)[number]);
+  const port = Number(parts[5]);
+  if (type < 0 || !Number.isInteger(port) || port <= 0 || port > 0xffff) {
+    return null;
+  }
+
+  const ipv4 = parseIPv4(parts[4]);
+  if (ipv4) return { type, kind: AddressKind.IPv4, address: ipv4, port };
+  const ipv6 = parseIPv6(parts[4]);
+  if (ipv6) return { type, kind: AddressKind.IPv6, address: ipv6, port };
+  const mdns = MDNS_PATTERN.exec(parts[4]);
+  if (mdns) return { type, kind: AddressKind.Mdns, address: parseUuid(mdns[1]), port };
+  return null;
+}
+
+function formatAddress(kind: AddressKind, bytes: Uint8Array): string {
+  switch (kind) {
+    case AddressKind.IPv4:
+      return Array.from(bytes).join('.');
+    case AddressKind.IPv6:
+      return formatIPv6(bytes);
+    case AddressKind.Mdns:
+      return `${formatUuid(bytes)}.local`;
+  }
+}
+
+function addressSize(kind: AddressKind): number {
+  return kind === AddressKind.IPv4 ? 4 : 16;
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  u8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  u16(value: number) {
+    this.bytes.push((value >> 8) & 0xff, value & 0xff);
+  }
+
+  u32(value: number) {
+    this.u16(Math.floor(value / 0x10000));
+    this.u16(value % 0x10000);
+  }
+
+  raw(data: Uint8Array) {
+    this.bytes.push(...data);
+  }
+
+  str(value: string) {
+    this.u8(value.length);
+    for (let i = 0; i < value.length; i++) {
+      this.bytes.push(value.charCodeAt(i));
+    }
+  }
+
+  // 超出长度时按字符截断，不拆分多字节字符
+  utf8(value: string, maxBytes: number) {
+    const encoder = new TextEncoder();
+    let chars = [...value];
+    let data = encoder.encode(value);
+    while (data.length > maxBytes) {
+      chars = chars.slice(0, -1);
+      data = encoder.encode(chars.join(''));
+    }
+    this.u8(data.length);
+    this.raw(data);
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  private take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('连接码数据不完整');
+    }
+    const data = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return data;
+  }
+
+  u8(): number {
+    return this.take(1)[0];
+  }
+
+  u16(): number {
+    const [high, low] = this.take(2);
+    return (high << 8) | low;
+  }
+
+  u32(): number {
+    return this.u16() * 0x10000 + this.u16();
+  }
+
+  raw(length: number): Uint8Array {
+    return this.take(length);
+  }
+
+  str(): string {
+    return String.fromCharCode(...this.take(this.u8()));
+  }
+
+  utf8(): string {
+    return new TextDecoder().decode(this.take(this.u8()));
+  }
+
+  done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+}
+
+// ice-ufrag、ice-pwd、mid 只允许可打印 ASCII，长度不超过 255
+function isEncodableString(value: string | undefined): value is string {
+  return value !== undefined && value.length <= 255 && /^[\x21-\x7e]*$/.test(value);
+}
+
+/**
+ * 提取 SDP 中建立数据通道所需的字段并打包
+ * @param origin 生成方信息，提供时使用带来源信息和校验值的版本 2
+ * @returns 无法完整表示时返回 null
+ */
+export function minimizeSdp(description: RTCSessionDescriptionInit, origin?: CodeOrigin): Uint8Array | null {
+  if ((description.type !== 'offer' && description.type !== 'answer') || !description.sdp) {
+    return null;
+  }
+
+  const lines = description.sdp.split(/\r?\n/).filter(Boolean);
+  const mediaLines = lines.filter((line) => line.startsWith('m='));
+  if (mediaLines.length !== 1 || !/^m=application \d+ UDP\/DTLS\/SCTP webrtc-datachannel$/.test(mediaLines[0])) {
+    return null;
+  }
+
+  // 会话级属性可以被媒体级属性覆盖（如 Firefox 将指纹放在会话级）
+  const attributes = new Map<string, string>();
+  const candidates: MinimalCandidate[] = [];
+  for (const line of lines) {
+    if (!line.startsWith('a=')) continue;
+    const separator = line.indexOf(':');
+    const name = separator < 0 ? line.slice(2) : line.slice(2, separator);
+    const value = separator < 0 ? '' : line.slice(separator + 1);
+
+    if (name === 'candidate') {
+      const candidate = parseCandidate(value);
+      if (candidate && candidates.length < MAX_CANDIDATES) {
+        candidates.push(candidate);
+      }
+    } else {
+      attributes.set(name, value);
+    }
+  }
+
+  const ufrag = attributes.get('ice-ufrag');
+  const pwd = attributes.get('ice-pwd');
+  const mid = attributes.get('mid') ?? '0';
+  const setup = SETUP_ROLES.indexOf(attributes.get('setup') as (typeof SETUP_ROLES)[number]);
+  const sctpPort = Number(attributes.get('sctp-port') ?? 5000);
+  const maxMessageSize = Number(attributes.get('max-message-size') ?? 0);
+  const [algorithm, fingerprint] = (attributes.get('fingerprint') ?? '').split(' ');
+  const algorithmIndex = FINGERPRINT_ALGORITHMS.indexOf(algorithm?.toLowerCase() as (typeof FINGERPRINT_ALGORITHMS)[number]);
+  const fingerprintBytes = fingerprint?.split(':') ?? [];
+
+  if (
+    !isEncodableString(ufrag) ||
+    !isEncodableString(pwd) ||
+    !isEncodableString(mid) ||
+    setup < 0 ||
+    algorithmIndex < 0 ||
+    fingerprintBytes.length === 0 ||
+    fingerprintBytes.length > 255 ||
+    !fingerprintBytes.every((byte) => /^[0-9a-f]{2}$/i.test(byte)) ||
+    !Number.isInteger(sctpPort) ||
+    sctpPort <= 0 ||
+    sctpPort > 0xffff ||
+    !Number.isInteger(maxMessageSize) ||
+    maxMessageSize < 0 ||
+    maxMessageSize > 0xffffffff
+  ) {
+    return null;
+  }
+
+  const uuidId = !!origin && UUID_PATTERN.test(origin.deviceId);
+  if (origin && !uuidId && !isEncodableString(origin.deviceId)) {
+    return null;
+  }
+
+  const writer = new ByteWriter();
+  writer.u8(origin ? FORMAT_VERSION : BASIC_VERSION);
+  writer.u8((description.type === 'answer' ? FLAG_ANSWER : 0) | (setup << SETUP_SHIFT) | (uuidId ? FLAG_UUID_ID : 0));
+  if (origin) {
+    writer.u32(Math.floor(origin.createdAt / 1000));
+    if (uuidId) {
+      writer.raw(parseUuid(origin.deviceId));
+    } else {
+      writer.str(origin.deviceId);
+    }
+    writer.utf8(origin.deviceName, MAX_NAME_BYTES);
+  }
+  writer.str(ufrag);
+  writer.str(pwd);
+  writer.str(mid);
+  writer.u8(algorithmIndex);
+  writer.u8(fingerprintBytes.length);
+  writer.raw(Uint8Array.from(fingerprintBytes, (byte) => parseInt(byte, 16)));
+  writer.u16(sctpPort);
+  writer.u32(maxMessageSize);
+  writer.u8(candidates.length);
+  for (const candidate of candidates) {
+    writer.u8(candidate.type | (candidate.kind << ADDRESS_SHIFT));
+    writer.raw(candidate.address);
+    writer.u16(candidate.port);
+  }
+
+  const bytes = writer.finish();
+  if (!origin) {
+    return bytes;
+  }
+  const result = new Uint8Array(bytes.length + CHECKSUM_SIZE);
+  result.set(bytes);
+  new DataView(result.buffer).setUint32(bytes.length, crc32(bytes), false);
+  return result;
+}
+
+/**
+ * 由精简数据重建 SDP
+ * @returns 重建的 SDP 和生成方信息（版本 1 没有来源信息）
+ * @throws 数据不完整、校验失败或版本不支持时抛出异常
+ */
+export function expandSdp(bytes: Uint8Array): { description: RTCSessionDescriptionInit; origin: CodeOrigin | null } {
+  const version = bytes[0];
+  if (version !== BASIC_VERSION && version !== FORMAT_VERSION) {
+    throw new Error(`不支持的连接码版本: ${version}`);
+  }
+  if (version === FORMAT_VERSION) {
+    const length = bytes.length - CHECKSUM_SIZE;
+    if (length <= 0 || new DataView(bytes.buffer, bytes.byteOffset).getUint32(length, false) !== crc32(bytes.subarray(0, length))) {
+      throw new Error('连接码校验失败');
+    }
+    bytes = bytes.subarray(0, length);
+  }
+
+  const reader = new ByteReader(bytes);
+  reader.u8();
+  const flags = reader.u8();
+  let origin: CodeOrigin | null = null;
+  if (version === FORMAT_VERSION) {
+    const createdAt = reader.u32() * 1000;
+    const deviceId = flags & FLAG_UUID_ID ? formatUuid(reader.raw(16)) : reader.str();
+    origin = { createdAt, deviceId, deviceName: reader.utf8() };
+  }
+  const setup = SETUP_ROLES[(flags >> SETUP_SHIFT) & 0x03];
+  const ufrag = reader.str();
+  const pwd = reader.str();
+  const mid = reader.str();
+  const algorithm = FINGERPRINT_ALGORITHMS[reader.u8()];
+  const fingerprint = Array.from(reader.raw(reader.u8()), (b) => b.toString(16).padStart(2, '0').toUpperCase()).join(':');
+  const sctpPort = reader.u16();
+  const maxMessageSize = reader.u32();
+  if (!setup || !algorithm) {
+    throw new Error('连接码数据无效');
+  }
+
+  const candidates: string[] = [];
+  const count = reader.u8();
+  for (let i = 0; i < count; i++) {
+    const header = reader.u8();
+    const type = CANDIDATE_TYPES[header & 0x03];
+    const kind = (header >> ADDRESS_SHIFT) & 0x03;
+    if (kind !== AddressKind.IPv4 && kind !== AddressKind.IPv6 && kind !== AddressKind.Mdns) {
+      throw new Error('连接码数据无效');
+    }
+    const address = formatAddress(kind, reader.raw(addressSize(kind)));
+    const port = reader.u16();
+    // 按原有顺序递减本地优先级，保持同类型候选的先后次序
+    const priority = TYPE_PREFERENCES[type] * 2 ** 24 + (0xffff - i) * 2 ** 8 + 255;
+    candidates.push(`a=candidate:${i + 1} 1 udp ${priority} ${address} ${port} typ ${type}`);
+  }
+  if (!reader.done()) {
+    throw new Error('连接码数据无效');
+  }
+
+  const lines = [
+    'v=0',
+    'o=- 0 2 IN IP4 127.0.0.1',
+    's=-',
+    't=0 0',
+    `a=group:BUNDLE ${mid}`,
+    'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+    'c=IN IP4 0.0.0.0',
+    ...candidates,
+    `a=ice-ufrag:${ufrag}`,
+    `a=ice-pwd:${pwd}`,
+    'a=ice-options:trickle',
+    `a=fingerprint:${algorithm} ${fingerprint}`,
+    `a=setup:${setup}`,
+    `a=mid:${mid}`,
+    `a=sctp-port:${sctpPort}`,
+  ];
+  if (maxMessageSize > 0) {
+    lines.push(`a=max-message-size:${maxMessageSize}`);
+  }
+
+  return {
+    description: {
+      type: flags & FLAG_ANSWER ? 'answer' : 'offer',
+      sdp: lines.join('\r\n') + '\r\n',
+    },
+    origin,
+  };
+}
+
+// URL 安全的 Base64（不含填充），便于放入二维码和链接
+export function toBase64Url(bytes: Uint8Array): string {
+  return toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  return fromBase64(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+}
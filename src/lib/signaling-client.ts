@@ -0,0 +1,219 @@
+/**
+ * 信令服务器客户端
+ * 连接可选的信令服务器（server/signaling-server.js）：登记本机、获取同一服务器（或同一房间）中的设备，
+ * 并与对方交换 WebRTC 的 offer/answer/ICE 候选。
+ * 登记配对令牌后，还可以看到并连接不在同一房间的已配对设备。服务器推送的消息为 DeviceEvent。
+ * 本机有身份密钥时，登记附带对服务器随机数（challenge）的签名，其他客户端无法冒用本机的设备 ID。
+ */
+
+import { DeviceEvent, DeviceInfo, SignalingRequest } from './device-manager';
+import { DeviceIdentity, HandshakeIdentity, signSignalingChallenge } from './device-identity';
+
+// 断线后的重连间隔，超出后按最后一项重试
+const RECONNECT_DELAYS = [1000, 2000, 5000, 10000, 30000];
+// 服务器关闭连接的原因：同一设备 ID 在别处重新登记（本机的其他页面，也可能是冒用者）
+const REPLACED_CODE = 4000;
+// 被替换后仍按较长的间隔重试，避免被冒用者永久挤下线；本机多个页面之间也不会频繁互相替换
+const REPLACED_RETRY_DELAYS = [30000, 60000, 300000];
+// 服务器关闭连接的原因：身份签名与该设备 ID 已绑定的公钥不一致，重试也无法登记
+const IDENTITY_REJECTED_CODE = 4001;
+// 旧版本服务器不下发 challenge，超时后不带签名登记
+const CHALLENGE_TIMEOUT = 2000;
+
+export const ROOM_CODE_LENGTH = 6;
+// 去掉易混淆的字符（0/O、1/I/L），便于口头转告
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+// 生成随机房间码
+export function generateRoomCode(): string {
+  const values = crypto.getRandomValues(new Uint8Array(ROOM_CODE_LENGTH));
+  return Array.from(values, (value) => ROOM_CODE_ALPHABET[value % ROOM_CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * 规范化用户输入的房间码（忽略大小写、空格和连字符）
+ * @returns 格式无效时返回 null
+ */
+export function normalizeRoomCode(input: string): string | null {
+  const code = input.toUpperCase().replace(/[\s-]/g, '');
+  if (code.length !== ROOM_CODE_LENGTH) return null;
+  return [...code].every((char) => ROOM_CODE_ALPHABET.includes(char)) ? code : null;
+}
+
+/**
+ * 信令传输
+ * 连接管理器和界面只依赖此接口，可以替换为其他实现（如自建的中继服务）
+ */
+export interface SignalingTransport {
+  connect(device: DeviceInfo, identity?: DeviceIdentity | null): void;
+  isConnected(): boolean;
+  send(request: SignalingRequest): boolean;
+  // 加入房间，传入 null 时离开房间；结果以 room_joined 事件通知
+  joinRoom(room: string | null): boolean;
+  getRoom(): string | null;
+  // 登记配对令牌，结果以 paired_devices 事件通知
+  setPairings(tokens: string[]): void;
+  updateDevice(device: DeviceInfo): void;
+  addEventListener(listener: (event: DeviceEvent) => void): void;
+  removeEventListener(listener: (event: DeviceEvent) => void): void;
+  close(): void;
+}
+
+export class SignalingClient implements SignalingTransport {
+  private ws: WebSocket | null = null;
+  private device: DeviceInfo | null = null;
+  private identity: DeviceIdentity | null = null;
+  private room: string | null = null;
+  private pairings: string[] = [];
+  private listeners = new Set<(event: DeviceEvent) => void>();
+  private reconnectAttempts = 0;
+  private replacedAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(private readonly url: string) {}
+
+  // 连接服务器并登记本机，断线后自动重连
+  connect(device: DeviceInfo, identity: DeviceIdentity | null = null): void {
+    this.device = device;
+    this.identity = identity;
+    this.closed = false;
+    this.open();
+  }
+
+  private open() {
+    if (this.closed) return;
+
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(this.url);
+    } catch (error) {
+      console.error('信令服务器地址无效:', error);
+      return;
+    }
+    this.ws = ws;
+    let announced = false;
+    let challengeTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // 登记本机（重连后回到之前的房间）
+    const announce = async (nonce: string | null) => {
+      if (announced || !this.device) return;
+      announced = true;
+      clearTimeout(challengeTimer);
+      const device = this.device;
+      let identity: HandshakeIdentity | undefined;
+      if (nonce && this.identity) {
+        try {
+          identity = await signSignalingChallenge(this.identity, device.deviceId, nonce);
+        } catch (error) {
+          console.error('信令登记签名失败:', error);
+        }
+      }
+      if (this.ws === ws) {
+        this.send({ type: 'announce', device, room: this.room, pairings: this.pairings, identity });
+      }
+    };
+
+    ws.onopen = () => {
+      console.log('已连接信令服务器:', this.url);
+      this.reconnectAttempts = 0;
+      challengeTimer = setTimeout(() => announce(null), CHALLENGE_TIMEOUT);
+    };
+
+    ws.onmessage = (event) => {
+      let message: DeviceEvent;
+      try {
+        message = JSON.parse(event.data);
+      } catch (error) {
+        console.warn('无法解析信令消息:', error);
+        return;
+      }
+      if (message.type === 'challenge') {
+        announce(message.nonce);
+        return;
+      }
+      this.listeners.forEach((listener) => listener(message));
+    };
+
+    ws.onclose = (event) => {
+      clearTimeout(challengeTimer);
+      if (this.ws !== ws) return;
+      this.ws = null;
+      if (event.code === IDENTITY_REJECTED_CODE) {
+        console.warn('信令服务器拒绝登记：本设备 ID 已由其他身份密钥登记');
+        return;
+      }
+      if (event.code === REPLACED_CODE) {
+        console.warn('本设备 ID 已在其他页面或设备上登记，稍后重试');
+        this.scheduleReconnect(true);
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(replaced = false) {
+    if (this.closed || this.reconnectTimer) return;
+    const delay = replaced
+      ? REPLACED_RETRY_DELAYS[Math.min(this.replacedAttempts++, REPLACED_RETRY_DELAYS.length - 1)]
+      : RECONNECT_DELAYS[Math.min(this.reconnectAttempts++, RECONNECT_DELAYS.length - 1)];
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  joinRoom(room: string | null): boolean {
+    this.room = room;
+    return this.send({ type: 'join_room', room });
+  }
+
+  getRoom(): string | null {
+    return this.room;
+  }
+
+  setPairings(tokens: string[]): void {
+    this.pairings = tokens;
+    this.send({ type: 'update_pairings', pairings: tokens });
+  }
+
+  // 本机信息变化（如改名）时通知服务器
+  updateDevice(device: DeviceInfo): void {
+    const renamed = this.device && this.device.deviceName !== device.deviceName;
+    this.device = device;
+    if (renamed) {
+      this.send({ type: 'device_name_updated', deviceName: device.deviceName });
+    }
+  }
+
+  send(request: SignalingRequest): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    this.ws.send(JSON.stringify(request));
+    return true;
+  }
+
+  addEventListener(listener: (event: DeviceEvent) => void): void {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(listener: (event: DeviceEvent) => void): void {
+    this.listeners.delete(listener);
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const ws = this.ws;
+    this.ws = null;
+    ws?.close();
+  }
+}
@@ -0,0 +1,426 @@
+import { HybridConnectionManager } from './hybrid-connection-manager';
+import { MessageType, TransferCancelledError, TransferInterruptedError, TransferManifest } from './webrtc';
+import { DeviceInfo } from './device-manager';
+import type { FolderFile, FolderSelection } from './folder-transfer';
+import { useStore, TransferTask } from '../store/use-store';
+
+// 每个设备默认同时发送的文件数
+export const DEFAULT_CONCURRENCY = 3;
+
+// 进度写入 store 的最小间隔 (ms)
+const PROGRESS_INTERVAL = 250;
+
+// 队列中单个文件的状态
+// interrupted: 连接断开，等待重连后由 HybridConnectionManager 续传；无法续传时转为 failed
+type QueuedFileState = 'queued' | 'sending' | 'sent' | 'failed' | 'interrupted';
+
+interface QueuedFile {
+  fileId: string;
+  file: File;
+  path: string;
+  state: QueuedFileState;
+  transferred: number;
+  speed: number;
+}
+
+interface QueueTask {
+  transferId: string; // 单文件为 fileId，文件夹和批量传输为 manifestId
+  deviceId: string;
+  kind: 'file' | 'batch' | 'folder';
+  name: string; // 文件名或文件夹名
+  files: QueuedFile[];
+  totalSize: number;
+  accepted: boolean; // 清单已被接收方确认（单文件在发送时逐个确认）
+  negotiating: boolean; // 清单已发出，等待接收方确认
+  standalone: boolean; // 逐个发送、不关联清单（单文件，或对方不支持清单的批量传输）
+  paused: boolean;
+  cancelled: boolean;
+  lastReport: number;
+}
+
+// 任务结束事件
+export interface TransferQueueEvent {
+  type: 'taskCompleted' | 'taskFailed' | 'taskCancelled';
+  transferId: string;
+  kind: QueueTask['kind'];
+  name: string;
+  deviceName: string;
+  totalFiles: number;
+  sentFiles: File[];
+  // 失败原因：清单被接收方拒绝 / 对方版本不支持（如文件夹）
+  reason?: 'rejected' | 'unsupported';
+}
+
+/**
+ * 发送队列
+ * 为每次发送创建 TransferTask，按设备限制同时发送的文件数，
+ * 并把进度和速度写入 store，供传输面板展示。
+ */
+export class TransferQueue {
+  private tasks: QueueTask[] = [];
+  private running = new Map<string, number>();
+  private listeners = new Set<(event: TransferQueueEvent) => void>();
+
+  constructor(private manager: HybridConnectionManager) {
+    manager.addEventListener((event) => {
+      if (event.type === 'handshakeReceived') {
+        // 重连后继续发送排队中的文件
+        this.schedule(event.deviceId);
+      } else if (event.type === 'transferResumed' && event.message) {
+        this.markResumed(event.message.data.fileId);
+      } else if (event.type === 'transferResumeFailed' && event.message) {
+        this.markResumeFailed(event.message.data.fileId);
+      }
+    });
+  }
+
+  /**
+   * 发送文件：单个文件直接发送，多个文件作为一个批次（接收方确认一次）
+   * @returns 任务 ID
+   */
+  sendFiles(device: DeviceInfo, files: File[]): string {
+    const items = files.map((file) => ({ file, path: file.name }));
+    if (files.length === 1) {
+      return this.enqueue(device, 'file', files[0].name, items);
+    }
+    return this.enqueue(device, 'batch', `${files.length} 个文件`, items);
+  }
+
+  /**
+   * 发送文件夹
+   * @returns 任务 ID
+   */
+  sendFolder(device: DeviceInfo, folder: FolderSelection): string {
+    return this.enqueue(device, 'folder', folder.rootName, folder.files);
+  }
+
+  // 暂停任务：进行中的文件停止发送分片，排队中的文件暂不开始
+  pause(transferId: string): boolean {
+    const task = this.findActive(transferId);
+    if (!task || task.paused) return false;
+    if (!this.manager.controlTransfer(task.deviceId, transferId, 'pause')) return false;
+    this.applyPause(task);
+    return true;
+  }
+
+  resume(transferId: string): boolean {
+    const task = this.findActive(transferId);
+    if (!task || !task.paused) return false;
+    if (!this.manager.controlTransfer(task.deviceId, transferId, 'resume')) return false;
+    this.applyResume(task);
+    return true;
+  }
+
+  // 取消任务（连接已断开时只在本地取消）
+  cancel(transferId: string): boolean {
+    const task = this.findActive(transferId);
+    if (!task) return false;
+    this.manager.controlTransfer(task.deviceId, transferId, 'cancel');
+    this.applyCancel(task);
+    return true;
+  }
+
+  /**
+   * 接收方暂停、继续或取消了发送任务
+   * @returns 是否为本队列中的任务
+   */
+  handleRemoteControl(transferId: string, action: 'pause' | 'resume' | 'cancel'): boolean {
+    const task = this.findActive(transferId);
+    if (!task) return false;
+    if (action === 'pause') {
+      this.applyPause(task);
+    } else if (action === 'resume') {
+      this.applyResume(task);
+    } else {
+      this.applyCancel(task);
+    }
+    return true;
+  }
+
+  addEventListener(listener: (event: TransferQueueEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private enqueue(device: DeviceInfo, kind: QueueTask['kind'], name: string, items: FolderFile[]): string {
+    const files: QueuedFile[] = items.map(({ file, path }) => ({
+      fileId: this.generateId(),
+      file,
+      path,
+      state: 'queued',
+      transferred: 0,
+      speed: 0,
+    }));
+    const task: QueueTask = {
+      transferId: kind === 'file' ? files[0].fileId : this.generateId(),
+      deviceId: device.deviceId,
+      kind,
+      name,
+      files,
+      totalSize: files.reduce((sum, f) => sum + f.file.size, 0),
+      accepted: kind === 'file',
+      negotiating: false,
+      standalone: kind === 'file',
+      paused: false,
+      cancelled: false,
+      lastReport: 0,
+    };
+    this.tasks.push(task);
+
+    const { myDevice, addTransfer } = useStore.getState();
+    const transfer: TransferTask = {
+      transferId: task.transferId,
+      type: 'file',
+      fromDeviceId: myDevice?.deviceId || '',
+      toDeviceId: device.deviceId,
+      fromDeviceName: myDevice?.deviceName || '',
+      toDeviceName: device.deviceName,
+      direction: 'sent',
+      files: files.map(({ file }) => ({ name: file.name, size: file.size, type: file.type })),
+      status: 'pending',
+      progress: 0,
+      speed: 0,
+      timestamp: Date.now(),
+    };
+    addTransfer(transfer);
+
+    this.schedule(task.deviceId);
+    return task.transferId;
+  }
+
+  // 发送清单并等待接收方确认
+  private async negotiate(task: QueueTask) {
+    // 旧版本客户端不支持清单：批量文件逐个发送，文件夹无法保留目录结构
+    if (!this.manager.supports(task.deviceId, 'manifest')) {
+      if (task.kind === 'folder') {
+        this.finish(task, 'taskFailed', 'unsupported');
+        return;
+      }
+      task.accepted = true;
+      task.standalone = true;
+      this.schedule(task.deviceId);
+      return;
+    }
+
+    task.negotiating = true;
+    const manifest: TransferManifest = {
+      type: MessageType.Manifest,
+      manifestId: task.transferId,
+      kind: task.kind === 'folder' ? 'folder' : 'batch',
+      rootName: task.kind === 'folder' ? task.name : '',
+      totalSize: task.totalSize,
+      entries: task.files.map(({ fileId, path, file }) => ({
+        fileId,
+        path,
+        size: file.size,
+        fileType: file.type,
+      })),
+    };
+
+    let acceptedIds: string[] | null;
+    try {
+      acceptedIds = await this.manager.sendManifest(task.deviceId, manifest);
+    } catch (error) {
+      console.error('发送清单失败:', error);
+      if (!task.cancelled) this.finish(task, 'taskFailed');
+      return;
+    } finally {
+      task.negotiating = false;
+    }
+    if (task.cancelled) return;
+
+    if (!acceptedIds) {
+      this.finish(task, 'taskFailed', 'rejected');
+      return;
+    }
+
+    // 只发送接收方选择的文件
+    const accepted = new Set(acceptedIds);
+    task.files = task.files.filter((f) => accepted.has(f.fileId));
+    task.totalSize = task.files.reduce((sum, f) => sum + f.file.size, 0);
+    task.accepted = true;
+    useStore.getState().updateTransfer(task.transferId, {
+      files: task.files.map(({ file }) => ({ name: file.name, size: file.size, type: file.type })),
+    });
+
+    if (task.files.length === 0) {
+      this.finish(task, 'taskCompleted');
+      return;
+    }
+    this.schedule(task.deviceId);
+  }
+
+  // 在并发限制内开始发送排队中的文件；握手完成前不发送，以便按对方支持的能力选择发送方式
+  private schedule(deviceId: string) {
+    if (!this.manager.isReady(deviceId)) return;
+
+    for (const task of this.tasks) {
+      if (task.deviceId === deviceId && !task.accepted && !task.negotiating && !task.cancelled) {
+        this.negotiate(task);
+      }
+    }
+
+    const limit = useStore.getState().settings.maxConcurrentTransfers || DEFAULT_CONCURRENCY;
+
+    while ((this.running.get(deviceId) || 0) < limit && this.manager.isReady(deviceId)) {
+      const next = this.nextQueued(deviceId);
+      if (!next) break;
+      this.sendQueued(next.task, next.file);
+    }
+  }
+
+  private nextQueued(deviceId: string): { task: QueueTask; file: QueuedFile } | null {
+    for (const task of this.tasks) {
+      if (task.deviceId !== deviceId || !task.accepted || task.paused || task.cancelled) continue;
+      const file = task.files.find((f) => f.state === 'queued');
+      if (file) return { task, file };
+    }
+    return null;
+  }
+
+  private async sendQueued(task: QueueTask, queued: QueuedFile) {
+    const { deviceId } = task;
+    this.running.set(deviceId, (this.running.get(deviceId) || 0) + 1);
+    queued.state = 'sending';
+    if (!task.paused) {
+      useStore.getState().updateTransfer(task.transferId, { status: 'transferring' });
+    }
+
+    try {
+      await this.manager.sendFile(
+        deviceId,
+        queued.file,
+        {
+          fileId: queued.fileId,
+          manifestId: task.standalone ? undefined : task.transferId,
+          path: task.kind === 'folder' ? queued.path : undefined,
+        },
+        (transferred, _total, speed) => {
+          queued.transferred = transferred;
+          queued.speed = speed;
+          this.report(task);
+        }
+      );
+      queued.state = 'sent';
+      queued.transferred = queued.file.size;
+    } catch (error) {
+      if (error instanceof TransferCancelledError || task.cancelled) {
+        this.applyCancel(task);
+      } else if (error instanceof TransferInterruptedError) {
+        queued.state = 'interrupted';
+      } else {
+        console.error(`发送 ${queued.file.name} 失败:`, error);
+        queued.state = 'failed';
+      }
+    } finally {
+      queued.speed = 0;
+      this.running.set(deviceId, (this.running.get(deviceId) || 1) - 1);
+    }
+
+    this.report(task, true);
+    this.settle(task);
+    this.schedule(deviceId);
+  }
+
+  // 断线后续传完成的文件
+  private markResumed(fileId: string) {
+    this.updateInterrupted(fileId, (file) => {
+      file.state = 'sent';
+      file.transferred = file.file.size;
+    });
+  }
+
+  // 无法续传的文件
+  private markResumeFailed(fileId: string) {
+    this.updateInterrupted(fileId, (file) => {
+      file.state = 'failed';
+    });
+  }
+
+  private updateInterrupted(fileId: string, update: (file: QueuedFile) => void) {
+    for (const task of this.tasks) {
+      const file = task.files.find((f) => f.fileId === fileId);
+      if (file && file.state === 'interrupted') {
+        update(file);
+        this.report(task, true);
+        this.settle(task);
+        return;
+      }
+    }
+  }
+
+  // 所有文件都已发送或失败时结束任务
+  private settle(task: QueueTask) {
+    if (task.cancelled) return;
+    const done = task.files.every((f) => f.state === 'sent' || f.state === 'failed');
+    if (!done) return;
+    const failed = task.files.some((f) => f.state === 'failed');
+    this.finish(task, failed ? 'taskFailed' : 'taskCompleted');
+  }
+
+  // 汇总各文件进度写入 store（限频）
+  private report(task: QueueTask, force = false) {
+    const now = Date.now();
+    if (!force && now - task.lastReport < PROGRESS_INTERVAL) return;
+    task.lastReport = now;
+
+    const transferred = task.files.reduce((sum, f) => sum + f.transferred, 0);
+    const speed = task.files.reduce((sum, f) => sum + f.speed, 0);
+    useStore.getState().updateTransfer(task.transferId, {
+      progress: task.totalSize > 0 ? Math.round((transferred / task.totalSize) * 100) : 0,
+      speed,
+    });
+  }
+
+  private applyPause(task: QueueTask) {
+    task.paused = true;
+    useStore.getState().updateTransfer(task.transferId, { status: 'paused', speed: 0 });
+  }
+
+  private applyResume(task: QueueTask) {
+    task.paused = false;
+    const sending = task.files.some((f) => f.state === 'sending');
+    useStore.getState().updateTransfer(task.transferId, { status: sending ? 'transferring' : 'pending' });
+    this.schedule(task.deviceId);
+  }
+
+  private applyCancel(task: QueueTask) {
+    if (task.cancelled) return;
+    task.cancelled = true;
+    this.finish(task, 'taskCancelled');
+  }
+
+  private finish(task: QueueTask, type: TransferQueueEvent['type'], reason?: TransferQueueEvent['reason']) {
+    this.tasks = this.tasks.filter((t) => t !== task);
+
+    const status = type === 'taskCompleted' ? 'completed' : type === 'taskCancelled' ? 'cancelled' : 'failed';
+    useStore.getState().updateTransfer(task.transferId, {
+      status,
+      speed: 0,
+      ...(status === 'completed' ? { progress: 100 } : {}),
+    });
+
+    const transfer = useStore.getState().transfers.find((t: TransferTask) => t.transferId === task.transferId);
+    const event: TransferQueueEvent = {
+      type,
+      transferId: task.transferId,
+      kind: task.kind,
+      name: task.name,
+      deviceName: transfer?.toDeviceName || '',
+      totalFiles: task.files.length,
+      sentFiles: task.files.filter((f) => f.state === 'sent').map((f) => f.file),
+      reason,
+    };
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  private findActive(transferId: string): QueueTask | undefined {
+    return this.tasks.find((t) => t.transferId === transferId);
+  }
+
+  private generateId(): string {
+    return Math.random().toString(36).substring(7);
+  }
+}
@@ -0,0 +1,134 @@
+import type { FileMetadata } from './webrtc';
+import { FileSink, MemoryFileSink } from './file-sink';
+
+// 分片区间 [start, end)，按 chunkIndex 计
+export type ChunkRange = [number, number];
+
+// 接收端未完成的文件
+// 分片数据写入 sink，这里只记录已收到的分片序号
+export interface PartialReceive {
+  metadata: FileMetadata;
+  received: Set<number>;
+  receivedSize: number;
+  sink: FileSink;
+}
+
+// 发送端被中断的文件
+export interface InterruptedSend {
+  fileId: string;
+  file: File;
+  manifestId?: string; // 所属清单，续传时暂停/取消整个文件夹或批次仍然有效
+}
+
+/**
+ * 断点续传状态登记表
+ * DataChannel 断开后 P2PConnection 会被重建，因此续传所需的状态
+ * 需要保存在连接实例之外：
+ * - 接收端记录每个 fileId 已收到的分片
+ * - 发送端记录每个设备被中断的文件，重连后据此发起续传
+ */
+export class TransferResumeRegistry {
+  private partialReceives = new Map<string, PartialReceive>();
+  private interruptedSends = new Map<string, Map<string, InterruptedSend>>();
+
+  /**
+   * 获取或创建接收状态
+   * @param metadata 文件元数据
+   * @param sink 写入目标，未指定时在内存中接收
+   */
+  getOrCreatePartial(metadata: FileMetadata, sink?: FileSink): PartialReceive {
+    let partial = this.partialReceives.get(metadata.fileId);
+    if (!partial) {
+      partial = {
+        metadata,
+        received: new Set(),
+        receivedSize: 0,
+        sink: sink ?? new MemoryFileSink(metadata.name, metadata.fileType),
+      };
+      this.partialReceives.set(metadata.fileId, partial);
+    }
+    return partial;
+  }
+
+  /**
+   * 重新开始接收（发送方重新发送了元数据），沿用原有的写入目标
+   */
+  resetPartial(metadata: FileMetadata): PartialReceive {
+    const partial = this.getOrCreatePartial(metadata);
+    partial.metadata = metadata;
+    partial.received.clear();
+    partial.receivedSize = 0;
+    return partial;
+  }
+
+  getPartial(fileId: string): PartialReceive | undefined {
+    return this.partialReceives.get(fileId);
+  }
+
+  /**
+   * 移除接收状态，未完成的写入会被放弃
+   */
+  removePartial(fileId: string): void {
+    const partial = this.partialReceives.get(fileId);
+    if (!partial) return;
+    this.partialReceives.delete(fileId);
+    partial.sink.abort().catch((error) => {
+      console.error('放弃写入失败:', error);
+    });
+  }
+
+  /**
+   * 计算缺失的分片区间
+   * @param fileId 文件 ID
+   * @returns 缺失区间列表；没有接收记录时返回整个文件
+   */
+  getMissingRanges(fileId: string, totalChunks: number): ChunkRange[] {
+    const partial = this.partialReceives.get(fileId);
+    if (!partial) {
+      return totalChunks > 0 ? [[0, totalChunks]] : [];
+    }
+
+    const ranges: ChunkRange[] = [];
+    let start = -1;
+    for (let i = 0; i < totalChunks; i++) {
+      const missing = !partial.received.has(i);
+      if (missing && start === -1) {
+        start = i;
+      } else if (!missing && start !== -1) {
+        ranges.push([start, i]);
+        start = -1;
+      }
+    }
+    if (start !== -1) {
+      ranges.push([start, totalChunks]);
+    }
+    return ranges;
+  }
+
+  /**
+   * 记录被中断的发送
+   * @param deviceId 接收方设备 ID
+   */
+  addInterruptedSend(deviceId: string, send: InterruptedSend): void {
+    let sends = this.interruptedSends.get(deviceId);
+    if (!sends) {
+      sends = new Map();
+      this.interruptedSends.set(deviceId, sends);
+    }
+    sends.set(send.fileId, send);
+  }
+
+  /**
+   * 取出某设备所有被中断的发送（取出后即从登记表移除）
+   * @param deviceId 接收方设备 ID
+   */
+  takeInterruptedSends(deviceId: string): InterruptedSend[] {
+    const sends = this.interruptedSends.get(deviceId);
+    if (!sends) return [];
+    this.interruptedSends.delete(deviceId);
+    return Array.from(sends.values());
+  }
+}
+
+// 导出单例
+export const transferResumeRegistry = new TransferResumeRegistry();
@@ -1,71 +1,70 @@
-import { sdpCompressor } from './sdp-compressor';
-
-// WebRTC 配置
-export const RTC_CONFIG: RTCConfiguration = {
-  iceServers: [
-    // Google STUN
-    { urls: 'stun:stun.l.google.com:19302' },
-    { urls: 'stun:stun1.l.google.com:19302' },
-    { urls: 'stun:stun2.l.google.com:19302' },
-    { urls: 'stun:stun3.l.google.com:19302' },
-    { urls: 'stun:stun4.l.google.com:19302' },
-    // 其他公共 STUN
-    { urls: 'stun:stun.miwifi.com' },
-    { urls: 'stun:stun.qq.com' },
-    { urls: 'stun:stun.chat.bilibili.com' },
-    { urls: 'stun:stun.stunprotocol.org:3478' },
-  ],
-};
-
-// 文件分片大小 (16KB)
+import { CodeCreator, ConnectionCodeError, sdpCompressor } from './sdp-compressor';
+import { transferResumeRegistry, ChunkRange } from './transfer-resume';
+import { computeFileDigest, sha256Hex } from './file-hash';
+import type { FileSink } from './file-sink';
+import { decodeFrame, encodeChunkFrame, encodeControlFrame, FrameType, MAX_FRAME_HEADER_SIZE } from './packet-framing';
+import type { Capability, NegotiatedProtocol } from './protocol';
+import {
+  computeAuthString,
+  decryptPayload,
+  deriveSessionKey,
+  encryptPayload,
+  ENCRYPTION_OVERHEAD,
+  exportPublicKey,
+  extractFingerprint,
+  fromBase64,
+  generateKeyPair,
+  isEncryptionAvailable,
+  toBase64,
+} from './e2e-encryption';
+import { getRtcConfiguration } from './ice-config';
+
+// 文件分片大小 (16KB)：对方不支持更大消息时使用，也是旧版本的固定分片大小
 export const CHUNK_SIZE = 16 * 1024;
 
-// 数据包协议
-const PACKET_MAGIC = 0x4244544C; // Magic Number "BDTL" (Binary Data Transfer Link) - 4 bytes
-const HEADER_SIZE = 44; // Magic(4) + fileId(36) + chunkIndex(4)
+// 分片大小上限 (256KB)，仅用于局域网直连
+export const MAX_CHUNK_SIZE = 256 * 1024;
 
-// 创建数据包头部
-function createPacketHeader(fileId: string, chunkIndex: number): Uint8Array {
-  const header = new ArrayBuffer(HEADER_SIZE);
-  const view = new DataView(header);
+// 经 NAT 或中继的连接的分片大小上限 (64KB)，减轻丢包重传时的队头阻塞
+const WAN_CHUNK_SIZE = 64 * 1024;
 
-  // Magic Number (4 bytes)
-  view.setUint32(0, PACKET_MAGIC, false); // big-endian
-
-  // fileId (36 bytes) - UUID 字符串
-  const fileIdBytes = new TextEncoder().encode(fileId.padEnd(36, '\0'));
-  const headerArray = new Uint8Array(header);
-  headerArray.set(fileIdBytes, 4);
-
-  // chunkIndex (4 bytes)
-  view.setUint32(40, chunkIndex, false); // big-endian
-
-  return headerArray;
+// lib.dom 未声明 RTCIceCandidateStats，只列出用到的字段
+interface IceCandidateStats extends RTCStats {
+  candidateType?: RTCIceCandidateType;
 }
 
-// 解析数据包头部
-function parsePacketHeader(data: Uint8Array): { fileId: string; chunkIndex: number } | null {
-  if (data.byteLength < HEADER_SIZE) {
-    return null;
+/**
+ * 按对方允许的最大消息大小选择分片大小
+ * 取不超过上限的最大的 2 的幂：整文件摘要的分段（HASH_SEGMENT_SIZE）因此总是分片大小的整数倍，
+ * 局域网下对方允许 256KB 以上的消息时即可用满 MAX_CHUNK_SIZE
+ * @param maxMessageSize RTCSctpTransport.maxMessageSize
+ * @param lan 是否为局域网直连
+ */
+export function selectChunkSize(maxMessageSize: number, lan: boolean): number {
+  const ceiling = lan ? MAX_CHUNK_SIZE : WAN_CHUNK_SIZE;
+  // 为帧头和加密开销（iv、认证标签）留出空间
+  const available = Math.min(maxMessageSize - MAX_FRAME_HEADER_SIZE - ENCRYPTION_OVERHEAD, ceiling);
+  let size = CHUNK_SIZE;
+  while (size * 2 <= available) {
+    size *= 2;
   }
+  return size;
+}
 
-  const view = new DataView(data.buffer, data.byteOffset, HEADER_SIZE);
+// 发送缓冲区水位：超过高水位时暂停发送，回落到低水位（onbufferedamountlow）后继续
+const BUFFER_HIGH_WATER = 4 * 1024 * 1024;
+const BUFFER_LOW_WATER = 1024 * 1024;
 
-  // 验证 Magic Number
-  const magic = view.getUint32(0, false); // big-endian
-  if (magic !== PACKET_MAGIC) {
-    return null;
-  }
-
-  // 提取 fileId (36 bytes)
-  const fileIdBytes = data.slice(4, 40);
-  const fileId = new TextDecoder().decode(fileIdBytes).replace(/\0+$/, ''); // 移除填充的 null
+// 默认的批量数据通道数
+export const DEFAULT_BULK_CHANNELS = 4;
 
-  // 提取 chunkIndex (4 bytes)
-  const chunkIndex = view.getUint32(40, false); // big-endian
+// 批量数据通道为双方预先约定（negotiated）的通道，使用固定的 stream id
+// 'file-transfer' 通道由浏览器分配 id（从 0 或 1 开始），不会与此冲突
+const BULK_CHANNEL_ID_BASE = 100;
+const MAX_BULK_CHANNELS = 8;
 
-  return { fileId, chunkIndex };
-}
+// 收到结束标记后，等待其他通道上尚未到达的分片的时间
+const END_GRACE_PERIOD = 10000;
 
 // 消息类型
 export enum MessageType {
@@ -77,6 +76,17 @@ export enum MessageType {
   FileAccept = 'file_accept',
   FileReject = 'file_reject',
   FileCancel = 'file_cancel',
+  ResumeRequest = 'resume_request',
+  ResumeAck = 'resume_ack',
+  Manifest = 'manifest',
+  ManifestAccept = 'manifest_accept',
+  ManifestReject = 'manifest_reject',
+  TransferPause = 'transfer_pause',
+  TransferResume = 'transfer_resume',
+  TransferCancel = 'transfer_cancel',
+  IceRestart = 'ice_restart',
+  Pairing = 'pairing',
+  Encrypted = 'encrypted',
 }
 
 // 文件元数据
@@ -87,6 +97,11 @@ export interface FileMetadata {
   size: number;
   fileType: string;
   chunks: number;
+  chunkSize?: number; // 分片大小（旧版本未提供时为 CHUNK_SIZE）
+  sha256?: string; // 整文件分段 SHA-256 摘要（见 file-hash.ts）
+  chunkHashes?: string[]; // 逐片 SHA-256 摘要（仅小文件）
+  manifestId?: string; // 所属清单（文件夹或批量传输）
+  path?: string; // 在文件夹中的相对路径
 }
 
 // 文件分片
@@ -135,6 +150,77 @@ export interface FileCancelMessage {
   fileId: string;
 }
 
+// 续传请求（发送方重连后发起）
+export interface ResumeRequestMessage {
+  type: MessageType.ResumeRequest;
+  fileId: string;
+}
+
+// 续传应答（接收方告知缺失的分片区间）
+// 分片大小以接收方记录的元数据为准，新连接协商出的大小可能不同
+export interface ResumeAckMessage {
+  type: MessageType.ResumeAck;
+  fileId: string;
+  missingRanges: ChunkRange[];
+  chunkSize?: number; // 旧版本未提供时为 CHUNK_SIZE
+}
+
+// 清单中的文件
+export interface ManifestEntry {
+  fileId: string;
+  path: string; // 文件夹：相对于根目录的路径，使用 / 分隔；批量传输：文件名
+  size: number;
+  fileType: string;
+}
+
+// 传输清单（发送文件夹或多个文件前先发送，接收方一次性确认）
+export interface TransferManifest {
+  type: MessageType.Manifest;
+  manifestId: string;
+  kind: 'folder' | 'batch';
+  rootName: string; // 文件夹名称（批量传输为空）
+  totalSize: number;
+  entries: ManifestEntry[];
+}
+
+// 清单接受消息
+export interface ManifestAcceptMessage {
+  type: MessageType.ManifestAccept;
+  manifestId: string;
+  fileIds?: string[]; // 接收方选择接收的文件，未提供时接收全部
+}
+
+// 清单拒绝消息
+export interface ManifestRejectMessage {
+  type: MessageType.ManifestReject;
+  manifestId: string;
+}
+
+// 传输控制消息（暂停、继续、取消），任一方均可发送
+// transferId 为 fileId 或清单的 manifestId（作用于整个文件夹或批次）
+export interface TransferControlMessage {
+  type: MessageType.TransferPause | MessageType.TransferResume | MessageType.TransferCancel;
+  transferId: string;
+}
+
+// ICE restart 的 offer 或 answer，没有信令服务器时在仍打开的控制通道上交换（含完整的候选）
+export interface IceRestartMessage {
+  type: MessageType.IceRestart;
+  sdp: RTCSessionDescriptionInit;
+}
+
+// 配对密钥，只在已加密的控制通道上发送（见 pairing.ts）
+export interface PairingMessage {
+  type: MessageType.Pairing;
+  secret: string;
+}
+
+// 端到端加密后的 JSON 消息，data 为 Base64 编码的 iv | 密文
+interface EncryptedMessage {
+  type: MessageType.Encrypted;
+  data: string;
+}
+
 export type DataMessage =
   | FileMetadata
   | FileChunk
@@ -143,7 +229,15 @@ export type DataMessage =
   | AckMessage
   | FileAcceptMessage
   | FileRejectMessage
-  | FileCancelMessage;
+  | FileCancelMessage
+  | ResumeRequestMessage
+  | ResumeAckMessage
+  | TransferManifest
+  | ManifestAcceptMessage
+  | ManifestRejectMessage
+  | TransferControlMessage
+  | IceRestartMessage
+  | PairingMessage;
 
 // 传输进度回调
 export type TransferProgress = (
@@ -153,35 +247,111 @@ export type TransferProgress = (
 ) => void;
 
 // 传输状态回调
+// disconnected：已建立的连接 ICE 中断，数据通道仍保持，可通过 ICE restart 恢复；failed：无法恢复
 export type TransferStatus = (
-  status: 'connecting' | 'connected' | 'transferring' | 'completed' | 'failed'
+  status: 'connecting' | 'connected' | 'disconnected' | 'transferring' | 'completed' | 'failed'
 ) => void;
 
 // 接收消息回调
 export type ReceiveMessage = (message: DataMessage) => void;
 
+// 接收结果
+export interface ReceivedFile {
+  file: File;
+  metadata: FileMetadata;
+  verified: boolean; // 是否通过了 SHA-256 校验（旧版本发送方不提供摘要）
+  sink: FileSink; // 文件的写入目标，决定是否还需要触发下载
+}
+
+// 文件完整性校验失败
+export class FileIntegrityError extends Error {
+  constructor(public readonly fileId: string, message: string) {
+    super(message);
+    this.name = 'FileIntegrityError';
+  }
+}
+
+// 传输因连接断开而中断（已收到的分片可续传）
+export class TransferInterruptedError extends Error {
+  constructor(public readonly fileId: string) {
+    super('连接已断开，传输中断');
+    this.name = 'TransferInterruptedError';
+  }
+}
+
+// 传输被本方或对方取消
+export class TransferCancelledError extends Error {
+  constructor(public readonly fileId: string) {
+    super('传输已取消');
+    this.name = 'TransferCancelledError';
+  }
+}
+
+/**
+ * P2P 连接
+ * 'file-transfer' 为控制通道，传输文字、握手、元数据等 JSON 消息；
+ * 文件分片轮流写入一组批量数据通道，避免大文件传输阻塞控制消息。
+ * 接收方按分片头部中的 fileId 和 chunkIndex 重组，与分片经由哪个通道到达无关。
+ */
 export class P2PConnection {
   private peerConnection: RTCPeerConnection | null = null;
   private dataChannel: RTCDataChannel | null = null;
+  private bulkChannels: RTCDataChannel[] = [];
+  // 握手协商出的对方能力；协商前按旧版本对待（16KB 分片、旧帧格式、单一通道）
+  private peerCapabilities: ReadonlySet<Capability> = new Set();
   private remoteCandidates: RTCIceCandidateInit[] = [];
   private isConnected = false;
   private readonly deviceId: string;
   private readonly remoteDeviceId: string;
+  private readonly isInitiator: boolean;
 
   // 回调函数
   private messageListeners: Set<ReceiveMessage> = new Set();
+  private closeListeners: Set<() => void> = new Set();
+
+  // 传输控制状态（以 fileId 或 manifestId 为键）
+  private pausedTransfers = new Set<string>();
+  private cancelledTransfers = new Set<string>();
+  // 暂停中的发送循环，恢复、取消或断开时唤醒
+  private resumeWaiters = new Set<() => void>();
+  // 等待发送缓冲区回落的发送循环，onbufferedamountlow 或断开时唤醒
+  private drainWaiters = new Set<() => void>();
+  // 本连接协商出的分片大小（首次发送时确定）
+  private chunkSize: Promise<number> | null = null;
+  // 进行中的接收，被取消时调用
+  private cancelHandlers = new Map<string, () => void>();
+  // 端到端加密：本端临时密钥对、对方公钥，以及双方交换公钥后派生的会话密钥
+  private keyPair: Promise<CryptoKeyPair | null>;
+  private publicKey: Promise<string | null>;
+  private publicKeySent = false;
+  private peerPublicKey: string | null = null;
+  private sessionKey: Promise<CryptoKey> | null = null;
+  // 加解密是异步的，收发的加密消息分别排队处理以保持顺序
+  private inbound: Promise<void> = Promise.resolve();
+  private outbound: Promise<void> = Promise.resolve();
   private onStatusCallback?: TransferStatus;
   private onIceCandidateCallback?: (candidate: RTCIceCandidateInit) => void;
 
   constructor(
     localDeviceId: string,
     remoteDeviceId: string,
-    isInitiator: boolean
+    isInitiator: boolean,
+    private readonly bulkChannelCount = DEFAULT_BULK_CHANNELS
   ) {
     this.deviceId = localDeviceId;
     this.remoteDeviceId = remoteDeviceId;
+    this.isInitiator = isInitiator;
+
+    // 使用设置中的 ICE 服务器（仅对新建的连接生效）
+    this.peerConnection = new RTCPeerConnection(getRtcConfiguration());
 
-    this.peerConnection = new RTCPeerConnection(RTC_CONFIG);
+    this.keyPair = isEncryptionAvailable()
+      ? generateKeyPair().catch((error) => {
+          console.warn('生成加密密钥失败，不使用端到端加密:', error);
+          return null;
+        })
+      : Promise.resolve(null);
+    this.publicKey = this.keyPair.then((pair) => (pair ? exportPublicKey(pair.publicKey) : null));
 
     this.setupPeerConnection();
 
@@ -211,12 +381,18 @@ export class P2PConnection {
     this.peerConnection.onconnectionstatechange = () => {
       switch (this.peerConnection?.connectionState) {
         case 'connected':
-          // 注意：不在这里触发 connected，等待 dataChannel.onopen
+          // 首次连接不在这里触发 connected，等待 dataChannel.onopen；
+          // ICE 中断后恢复时数据通道一直是打开的，在这里通知
+          if (!this.isConnected && this.dataChannel?.readyState === 'open') {
+            this.isConnected = true;
+            this.onStatusCallback?.('connected');
+          }
           break;
         case 'disconnected':
         case 'failed':
           this.isConnected = false;
-          this.onStatusCallback?.('failed');
+          // 数据通道打开前中断的连接无法恢复
+          this.onStatusCallback?.(this.dataChannel?.readyState === 'open' ? 'disconnected' : 'failed');
           break;
         case 'connecting':
           this.onStatusCallback?.('connecting');
@@ -243,6 +419,11 @@ export class P2PConnection {
   private setupDataChannel() {
     if (!this.dataChannel) return;
 
+    this.dataChannel.bufferedAmountLowThreshold = BUFFER_LOW_WATER;
+    this.dataChannel.onbufferedamountlow = () => {
+      this.wakeDrainWaiters();
+    };
+
     this.dataChannel.onopen = () => {
       this.isConnected = true;
       this.onStatusCallback?.('connected');
@@ -255,41 +436,343 @@ export class P2PConnection {
     this.dataChannel.onerror = (error) => {
       this.isConnected = false;
       this.onStatusCallback?.('failed');
+      this.notifyClosed();
     };
 
     this.dataChannel.onclose = () => {
       this.isConnected = false;
       this.onStatusCallback?.('failed');
+      this.notifyClosed();
     };
   }
 
+  // 本端支持的批量数据通道数（在握手中告知对方）
+  getBulkChannelLimit(): number {
+    return Math.min(Math.max(this.bulkChannelCount, 0), MAX_BULK_CHANNELS);
+  }
+
+  // 应用握手协商结果（重复握手时幂等）
+  applyPeerProtocol(protocol: NegotiatedProtocol) {
+    this.peerCapabilities = protocol.capabilities;
+    this.chunkSize = null;
+    if (protocol.bulkChannels > 0) {
+      this.openBulkChannels(protocol.bulkChannels);
+    }
+  }
+
+  /**
+   * 在控制通道上发送 JSON 消息；会话密钥就绪后加密发送
+   * 所有消息（包括不加密的握手）经同一队列按调用顺序发送
+   * @returns 消息交给数据通道后完成；通道已关闭或加密失败时拒绝
+   */
+  private sendJson(message: object, encrypt = true): Promise<void> {
+    const json = JSON.stringify(message);
+    const sessionKey = encrypt ? this.sessionKey : null;
+
+    const sent = this.outbound.then(async () => {
+      if (!sessionKey) {
+        this.sendRawJson(json);
+        return;
+      }
+      const payload = await encryptPayload(await sessionKey, new TextEncoder().encode(json));
+      const envelope: EncryptedMessage = { type: MessageType.Encrypted, data: toBase64(new Uint8Array(payload)) };
+      this.sendRawJson(JSON.stringify(envelope));
+    });
+    // 一条消息失败不影响之后的消息
+    this.outbound = sent.catch(() => {});
+    return sent;
+  }
+
+  // 对方支持时使用二进制控制帧
+  private sendRawJson(json: string) {
+    const channel = this.dataChannel;
+    if (!channel || channel.readyState !== 'open') {
+      throw new Error(`连接已断开 (DataChannel状态: ${channel?.readyState})`);
+    }
+    try {
+      if (this.peerCapabilities.has('binary-framing')) {
+        channel.send(encodeControlFrame(json));
+      } else {
+        channel.send(json);
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'InvalidStateError') {
+        throw new Error(`连接已断开 (DataChannel状态: ${channel.readyState})`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 发送握手消息，附带本端的 ECDH 公钥
+   * 握手本身不加密；对方在控制通道上先收到公钥，再收到之后的加密消息
+   */
+  async sendHandshake(message: object): Promise<void> {
+    const publicKey = await this.publicKey;
+    if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+      throw new Error('Data channel not connected');
+    }
+    // 先排入队列再启用加密，之后的消息排在握手之后
+    const sent = this.sendJson(publicKey ? { ...message, encryption: { publicKey } } : message, false);
+    if (publicKey) {
+      this.publicKeySent = true;
+      this.enableEncryption();
+    }
+    await sent;
+  }
+
+  // 收到对方握手中的公钥（双方都支持加密时由 HybridConnectionManager 调用）
+  setPeerPublicKey(publicKey: string) {
+    if (this.peerPublicKey) return;
+    this.peerPublicKey = publicKey;
+    this.enableEncryption();
+  }
+
+  // 双方公钥都已送达后派生会话密钥，此后文件分片和 JSON 消息均加密
+  private enableEncryption() {
+    const peerPublicKey = this.peerPublicKey;
+    if (this.sessionKey || !this.publicKeySent || !peerPublicKey) return;
+
+    const fingerprints = this.getFingerprints() ?? [];
+    this.sessionKey = this.keyPair.then((pair) => deriveSessionKey(pair!.privateKey, peerPublicKey, fingerprints));
+    this.sessionKey.then(
+      () => console.log('已启用端到端加密'),
+      (error) => console.error('派生会话密钥失败:', error)
+    );
+  }
+
+  // 是否已启用端到端加密
+  isEncrypted(): boolean {
+    return this.sessionKey !== null;
+  }
+
+  // 双方的 DTLS 指纹（连接建立后可用）
+  getFingerprints(): string[] | null {
+    const local = extractFingerprint(this.peerConnection?.localDescription?.sdp);
+    const remote = extractFingerprint(this.peerConnection?.remoteDescription?.sdp);
+    return local && remote ? [local, remote] : null;
+  }
+
+  /**
+   * 短认证串：由双方 DTLS 指纹生成，两端显示相同的数字说明连接未被中间人篡改
+   * @returns 指纹不可用时返回 null
+   */
+  async getAuthString(): Promise<string | null> {
+    const fingerprints = this.getFingerprints();
+    if (!fingerprints || !isEncryptionAvailable()) return null;
+    return computeAuthString(fingerprints);
+  }
+
+  // 双方都支持时，创建约定的批量数据通道（双方数量相同，stream id 一一对应）
+  private openBulkChannels(size: number) {
+    if (!this.peerConnection || this.bulkChannels.length > 0) return;
+
+    for (let i = 0; i < size; i++) {
+      const channel = this.peerConnection.createDataChannel(`file-transfer-bulk-${i}`, {
+        negotiated: true,
+        id: BULK_CHANNEL_ID_BASE + i,
+        ordered: true,
+      });
+      channel.binaryType = 'arraybuffer';
+      channel.bufferedAmountLowThreshold = BUFFER_LOW_WATER;
+      channel.onbufferedamountlow = () => this.wakeDrainWaiters();
+      channel.onmessage = (event) => this.handleMessage(event.data);
+      channel.onclose = () => {
+        // 批量通道关闭后回退到剩余通道（或控制通道）
+        this.bulkChannels = this.bulkChannels.filter((c) => c !== channel);
+        this.wakeDrainWaiters();
+      };
+      this.bulkChannels.push(channel);
+    }
+    console.log(`已创建 ${size} 个批量数据通道`);
+  }
+
+  // 通知通道已关闭（进行中的传输据此立即中断，而不是等待超时）
+  private notifyClosed() {
+    const listeners = Array.from(this.closeListeners);
+    this.closeListeners.clear();
+    listeners.forEach((listener) => listener());
+    this.wakeResumeWaiters();
+    this.wakeDrainWaiters();
+  }
+
+  private wakeResumeWaiters() {
+    const waiters = Array.from(this.resumeWaiters);
+    this.resumeWaiters.clear();
+    waiters.forEach((wake) => wake());
+  }
+
+  private wakeDrainWaiters() {
+    const waiters = Array.from(this.drainWaiters);
+    this.drainWaiters.clear();
+    waiters.forEach((wake) => wake());
+  }
+
+  /**
+   * 选择发送分片的通道：缓冲最少的已打开批量通道，没有时使用控制通道
+   * 所有通道的缓冲都超过高水位时，等待任一通道回落到低水位
+   */
+  private async acquireChunkChannel(): Promise<RTCDataChannel | null> {
+    while (this.dataChannel?.readyState === 'open') {
+      const open = this.bulkChannels.filter((c) => c.readyState === 'open');
+      const candidates = open.length > 0 ? open : [this.dataChannel];
+      const channel = candidates.reduce((a, b) => (b.bufferedAmount < a.bufferedAmount ? b : a));
+      if (channel.bufferedAmount <= BUFFER_HIGH_WATER) {
+        return channel;
+      }
+      await new Promise<void>((resolve) => this.drainWaiters.add(resolve));
+    }
+    return null;
+  }
+
+  /**
+   * 协商分片大小
+   * 单个数据包（头部 + 分片）不能超过双方 SDP 中 max-message-size 的较小值
+   * （即 sctp.maxMessageSize）；局域网直连时最大 256KB，其他连接最大 64KB。
+   */
+  private getChunkSize(): Promise<number> {
+    // 旧版本接收方按固定的 16KB 计算写入位置
+    if (!this.peerCapabilities.has('adaptive-chunk')) {
+      return Promise.resolve(CHUNK_SIZE);
+    }
+    if (!this.chunkSize) {
+      this.chunkSize = this.negotiateChunkSize().catch((error) => {
+        console.warn('协商分片大小失败，使用默认值:', error);
+        return CHUNK_SIZE;
+      });
+    }
+    return this.chunkSize;
+  }
+
+  private async negotiateChunkSize(): Promise<number> {
+    const maxMessageSize = this.peerConnection?.sctp?.maxMessageSize;
+    if (!maxMessageSize) {
+      // 不支持 RTCSctpTransport 的浏览器，按最保守的大小发送
+      return CHUNK_SIZE;
+    }
+
+    return selectChunkSize(maxMessageSize, await this.isLanConnection());
+  }
+
+  // 当前选中的候选对两端是否都是 host 候选（局域网直连）
+  private async isLanConnection(): Promise<boolean> {
+    if (!this.peerConnection) return false;
+
+    const stats = await this.peerConnection.getStats();
+    let pairId: string | undefined;
+    stats.forEach((report: RTCTransportStats) => {
+      if (report.type === 'transport' && report.selectedCandidatePairId) {
+        pairId = report.selectedCandidatePairId;
+      }
+    });
+
+    let pair: RTCIceCandidatePairStats | undefined;
+    stats.forEach((report: RTCIceCandidatePairStats) => {
+      if (pairId ? report.id === pairId : report.type === 'candidate-pair' && report.nominated && report.state === 'succeeded') {
+        pair = report;
+      }
+    });
+    if (!pair) return false;
+
+    const local: IceCandidateStats | undefined = stats.get(pair.localCandidateId);
+    const remote: IceCandidateStats | undefined = stats.get(pair.remoteCandidateId);
+    return local?.candidateType === 'host' && remote?.candidateType === 'host';
+  }
+
+  // 应用暂停、继续、取消（本方操作和对方消息共用）
+  private applyTransferControl(message: TransferControlMessage) {
+    const { transferId } = message;
+    switch (message.type) {
+      case MessageType.TransferPause:
+        this.pausedTransfers.add(transferId);
+        break;
+      case MessageType.TransferResume:
+        this.pausedTransfers.delete(transferId);
+        this.wakeResumeWaiters();
+        break;
+      case MessageType.TransferCancel:
+        this.pausedTransfers.delete(transferId);
+        this.cancelledTransfers.add(transferId);
+        this.wakeResumeWaiters();
+        this.cancelHandlers.get(transferId)?.();
+        break;
+    }
+  }
+
+  // 在本地生效并发送控制消息
+  private sendTransferControl(type: TransferControlMessage['type'], transferId: string): Promise<void> {
+    const message: TransferControlMessage = { type, transferId };
+    this.applyTransferControl(message);
+    return this.sendMessage(message);
+  }
+
+  // 暂停传输
+  pauseTransfer(transferId: string): Promise<void> {
+    return this.sendTransferControl(MessageType.TransferPause, transferId);
+  }
+
+  // 继续传输
+  resumeTransfer(transferId: string): Promise<void> {
+    return this.sendTransferControl(MessageType.TransferResume, transferId);
+  }
+
+  // 取消传输（通道已断开时只在本地生效）
+  async cancelTransfer(transferId: string): Promise<void> {
+    await this.sendTransferControl(MessageType.TransferCancel, transferId).catch((error) => {
+      console.warn('发送取消消息失败:', error);
+    });
+  }
+
+  isTransferPaused(...transferIds: string[]): boolean {
+    return transferIds.some((id) => this.pausedTransfers.has(id));
+  }
+
+  isTransferCancelled(...transferIds: string[]): boolean {
+    return transferIds.some((id) => this.cancelledTransfers.has(id));
+  }
+
+  // 暂停时等待继续；已取消时抛出 TransferCancelledError
+  private async waitWhilePaused(fileId: string, transferIds: string[]): Promise<void> {
+    while (
+      this.isTransferPaused(...transferIds) &&
+      !this.isTransferCancelled(...transferIds) &&
+      this.dataChannel?.readyState === 'open'
+    ) {
+      await new Promise<void>((resolve) => this.resumeWaiters.add(resolve));
+    }
+    if (this.isTransferCancelled(...transferIds)) {
+      throw new TransferCancelledError(fileId);
+    }
+  }
+
   private handleMessage(data: ArrayBuffer | string) {
     try {
       console.log('P2PConnection received data:', typeof data, typeof data === 'string' ? data.substring(0, 100) : 'binary');
       let message: DataMessage;
 
-      // 如果是字符串，尝试解析为 JSON
-      if (typeof data === 'string') {
+      // 文本为 JSON 消息；二进制为分片帧或控制帧（v1 或旧格式，见 packet-framing.ts）
+      const frame = typeof data === 'string' ? null : decodeFrame(data);
+      const json = typeof data === 'string' ? data : frame?.frameType === FrameType.Control ? frame.json : null;
+
+      if (json !== null) {
         try {
-          message = JSON.parse(data);
+          message = JSON.parse(json);
           console.log('Parsed message type:', message.type);
         } catch (e) {
           console.error('Failed to parse JSON message:', e);
           return;
         }
       } else {
-        // 二进制数据 - 尝试解析协议头部
-        const uint8Array = new Uint8Array(data);
-        const headerInfo = parsePacketHeader(uint8Array);
-
-        if (headerInfo) {
-          // 成功解析协议头部
-          const chunkData = uint8Array.slice(HEADER_SIZE);
+        if (frame?.frameType === FrameType.Chunk && frame.encrypted) {
+          const { fileId, chunkIndex } = frame;
+          this.enqueueDecrypted(frame.data, (chunk) => ({ type: MessageType.Chunk, fileId, chunkIndex, data: chunk }));
+          return;
+        } else if (frame?.frameType === FrameType.Chunk) {
           message = {
             type: MessageType.Chunk,
-            fileId: headerInfo.fileId,
-            chunkIndex: headerInfo.chunkIndex,
-            data: chunkData.buffer,
+            fileId: frame.fileId,
+            chunkIndex: frame.chunkIndex,
+            data: frame.data,
           };
         } else {
           // 无法解析头部，可能是旧格式或其他数据
@@ -297,27 +780,70 @@ export class P2PConnection {
             type: MessageType.Chunk,
             fileId: '',
             chunkIndex: 0,
-            data,
+            data: data as ArrayBuffer,
           };
         }
       }
 
-      console.log(`Dispatching message to ${this.messageListeners.size} listeners`);
+      const { type } = message as { type: string };
+      if (type === MessageType.Encrypted) {
+        this.enqueueDecrypted(fromBase64((message as unknown as EncryptedMessage).data).buffer, (data) =>
+          JSON.parse(new TextDecoder().decode(data))
+        );
+        return;
+      }
+      // 启用加密后只接受明文的握手消息，防止被降级为明文
+      if (this.sessionKey && type !== 'handshake') {
+        console.warn(`已启用端到端加密，丢弃未加密的消息: ${type}`);
+        return;
+      }
 
-      // 通知所有监听器
-      this.messageListeners.forEach((listener) => {
-        try {
-          listener(message);
-        } catch (error) {
-          console.error('Error in message listener:', error);
-        }
-      });
+      this.dispatchMessage(message);
     } catch (error) {
       console.error('Error handling message:', error);
     }
   }
 
-  // 创建 Offer
+  // 按到达顺序解密，解密失败（密钥不一致或数据被篡改）的消息被丢弃
+  private enqueueDecrypted(payload: ArrayBuffer, toMessage: (data: ArrayBuffer) => DataMessage) {
+    const sessionKey = this.sessionKey;
+    if (!sessionKey) {
+      console.warn('尚未建立会话密钥，丢弃加密消息');
+      return;
+    }
+
+    this.inbound = this.inbound
+      .then(async () => {
+        const data = await decryptPayload(await sessionKey, payload);
+        this.dispatchMessage(toMessage(data));
+      })
+      .catch((error) => {
+        console.error('解密消息失败:', error);
+      });
+  }
+
+  private dispatchMessage(message: DataMessage) {
+    if (
+      message.type === MessageType.TransferPause ||
+      message.type === MessageType.TransferResume ||
+      message.type === MessageType.TransferCancel
+    ) {
+      this.applyTransferControl(message);
+    }
+
+    console.log(`Dispatching message to ${this.messageListeners.size} listeners`);
+
+    // 通知所有监听器
+    this.messageListeners.forEach((listener) => {
+      try {
+        listener(message);
+      } catch (error) {
+        console.error('Error in message listener:', error);
+      }
+    });
+  }
+
+  // 创建 Offer（不等待 ICE 收集，候选通过 onIceCandidate 逐个发出，用于有信令通道时的 trickle ICE）
   async createOffer(): Promise<RTCSessionDescriptionInit> {
     if (!this.peerConnection) throw new Error('Peer connection not initialized');
 
@@ -344,7 +870,7 @@ export class P2PConnection {
     return JSON.stringify(this.peerConnection.localDescription);
   }
 
-  // 创建 Answer
+  // 创建 Answer（不等待 ICE 收集，需先通过 setRemoteDescription 设置对方的 Offer）
   async createAnswer(): Promise<RTCSessionDescriptionInit> {
     if (!this.peerConnection) throw new Error('Peer connection not initialized');
 
@@ -383,37 +909,85 @@ export class P2PConnection {
   }
 
   // 创建压缩的离线 Offer（新方法）
-  async createCompressedOffer(): Promise<string> {
+  async createCompressedOffer(creator?: CodeCreator): Promise<string> {
     // 获取原始 SDP
     const sdp = await this.createOfflineOffer();
     // 压缩并返回
-    return sdpCompressor.compress(sdp);
+    const code = sdpCompressor.compress(sdp, creator);
+    console.log('Offer 压缩统计:', sdpCompressor.getCompressionStats(sdp, code));
+    return code;
   }
 
   // 创建压缩的离线 Answer（新方法）
-  async createCompressedAnswer(offerSdp: string): Promise<string> {
-    // 解压 offer
-    const decompressedOffer = sdpCompressor.decompress(offerSdp);
-    if (!decompressedOffer) {
-      throw new Error('无法解压 Offer Code');
+  async createCompressedAnswer(offerSdp: string, creator?: CodeCreator): Promise<string> {
+    // 解压 offer，过期、损坏或不是连接码时抛出 ConnectionCodeError
+    const offer = sdpCompressor.decompress(offerSdp, 'offer');
+    if (!offer.ok) {
+      throw new ConnectionCodeError(offer.reason, offer.message);
     }
 
     // 使用解压后的 offer 创建 answer
-    const sdp = await this.createOfflineAnswer(decompressedOffer);
+    const sdp = await this.createOfflineAnswer(offer.sdp);
     // 压缩并返回
-    return sdpCompressor.compress(sdp);
+    const code = sdpCompressor.compress(sdp, creator);
+    console.log('Answer 压缩统计:', sdpCompressor.getCompressionStats(sdp, code));
+    return code;
   }
 
   // 处理压缩的 Answer（新方法）
   async handleCompressedAnswer(answerSdp: string): Promise<void> {
-    // 解压 answer
-    const decompressedAnswer = sdpCompressor.decompress(answerSdp);
-    if (!decompressedAnswer) {
-      throw new Error('无法解压 Answer Code');
+    // 解压 answer，过期、损坏或不是响应码时抛出 ConnectionCodeError
+    const answer = sdpCompressor.decompress(answerSdp, 'answer');
+    if (!answer.ok) {
+      throw new ConnectionCodeError(answer.reason, answer.message);
     }
 
     // 使用解压后的 answer 设置远程描述
-    await this.handleOfflineAnswer(decompressedAnswer);
+    await this.handleOfflineAnswer(answer.sdp);
+  }
+
+  // 本端是否为最初创建 Offer 的一方（ICE restart 只由这一方发起，避免双方同时发起）
+  isOfferer(): boolean {
+    return this.isInitiator;
+  }
+
+  // 数据通道仍打开，可以通过 ICE restart 恢复连接（已关闭的通道无法恢复，只能重新建立连接）
+  canRestartIce(): boolean {
+    return !!this.peerConnection && this.peerConnection.signalingState !== 'closed' && this.dataChannel?.readyState === 'open';
+  }
+
+  /**
+   * 创建 ICE restart 的 Offer：重新收集候选并协商传输路径，数据通道和加密会话保持不变
+   * @param waitForCandidates 为 true 时等待 ICE 收集完成，候选包含在 SDP 中（没有信令服务器逐个发送候选时）
+   */
+  async createRestartOffer(waitForCandidates: boolean): Promise<RTCSessionDescriptionInit> {
+    if (!this.peerConnection) throw new Error('Peer connection not initialized');
+
+    // 上一次 ICE restart 未收到应答时，先撤销本端的 Offer
+    if (this.peerConnection.signalingState === 'have-local-offer') {
+      await this.peerConnection.setLocalDescription({ type: 'rollback' });
+    }
+    const offer = await this.peerConnection.createOffer({ iceRestart: true });
+    await this.peerConnection.setLocalDescription(offer);
+    if (waitForCandidates) {
+      await this.waitForIceGathering();
+    }
+
+    return this.peerConnection.localDescription?.toJSON() ?? offer;
+  }
+
+  // 应答对方的 ICE restart Offer，参数同 createRestartOffer
+  async acceptRestartOffer(offer: RTCSessionDescriptionInit, waitForCandidates: boolean): Promise<RTCSessionDescriptionInit> {
+    if (!this.peerConnection) throw new Error('Peer connection not initialized');
+
+    await this.setRemoteDescription(offer);
+    const answer = await this.peerConnection.createAnswer();
+    await this.peerConnection.setLocalDescription(answer);
+    if (waitForCandidates) {
+      await this.waitForIceGathering();
+    }
+
+    return this.peerConnection.localDescription?.toJSON() ?? answer;
   }
 
   // 等待 ICE 收集完成
@@ -480,26 +1054,24 @@ export class P2PConnection {
   // 发送文件
   async sendFile(
     file: File,
-    onProgress?: TransferProgress
+    onProgress?: TransferProgress,
+    options: { fileId?: string; manifestId?: string; path?: string } = {}
   ): Promise<string> {
+    const fileId = options.fileId ?? Math.random().toString(36).substring(7);
+
+
     if (!this.isReady()) {
       throw new Error('Data channel not connected');
     }
 
-    const fileId = Math.random().toString(36).substring(7);
     const fileSize = file.size;
-    const chunkSize = CHUNK_SIZE;
+    const chunkSize = await this.getChunkSize();
     const chunks = Math.ceil(fileSize / chunkSize);
 
-    // 检查连接状态的函数
-    const checkConnection = () => {
-      if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
-        throw new Error(`Data channel not ready (state: ${this.dataChannel?.readyState})`);
-      }
-      if (!this.peerConnection || this.peerConnection.connectionState !== 'connected') {
-        throw new Error(`Peer connection not ready (state: ${this.peerConnection?.connectionState})`);
-      }
-    };
+    // 计算完整性摘要，随元数据一起发送（对方不校验时省去计算）
+    const { sha256, chunkHashes } = this.peerCapabilities.has('hashing')
+      ? await computeFileDigest(file, chunkSize)
+      : { sha256: undefined, chunkHashes: undefined };
 
     // 发送文件元数据
     const metadata: FileMetadata = {
@@ -509,12 +1081,16 @@ export class P2PConnection {
       size: file.size,
       fileType: file.type,
       chunks,
+      chunkSize,
+      sha256,
+      chunkHashes,
+      manifestId: options.manifestId,
+      path: options.path,
     };
 
-  
     try {
-      checkConnection();
-      this.dataChannel.send(JSON.stringify(metadata));
+      this.checkConnection();
+      await this.sendJson(metadata);
     } catch (error) {
       throw new Error(`发送元数据失败: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -526,15 +1102,11 @@ export class P2PConnection {
         if (acceptListener) acceptListener();
 
         // 发送取消消息给接收端
-        try {
-          const cancelMessage: FileCancelMessage = {
-            type: MessageType.FileCancel,
-            fileId,
-          };
-          this.dataChannel!.send(JSON.stringify(cancelMessage));
-        } catch (sendError) {
-
-        }
+        const cancelMessage: FileCancelMessage = {
+          type: MessageType.FileCancel,
+          fileId,
+        };
+        this.sendJson(cancelMessage).catch(() => {});
 
         reject(new Error('等待接收方确认超时（60秒）'));
       }, 60000); // 60秒超时
@@ -550,105 +1122,237 @@ export class P2PConnection {
       });
     });
 
-    let accepted: boolean;
-    try {
-      const result = await acceptPromise;
-      accepted = result.accepted;
-    } catch (error) {
-      throw error;
-    }
+    const { accepted } = await acceptPromise;
 
     if (!accepted) {
       throw new Error(`${file.name} 被接收方拒绝`);
     }
 
-    // 再次检查连接状态
-    checkConnection();
+    const transferIds = options.manifestId ? [fileId, options.manifestId] : [fileId];
+    await this.sendChunks(file, fileId, chunkSize, chunks > 0 ? [[0, chunks]] : [], onProgress, transferIds);
 
-    // 分片发送文件内容
-    let offset = 0;
-    let chunkIndex = 0;
-    const startTime = Date.now();
+    return fileId;
+  }
 
-    try {
-      while (offset < fileSize) {
-        // 每次发送前检查连接状态
-        checkConnection();
+  // 发送传输清单，等待接收方确认
+  // 返回接收方选择接收的文件 ID，被拒绝时返回 null
+  async sendManifest(manifest: TransferManifest): Promise<string[] | null> {
+    this.checkConnection();
 
-        const chunk = file.slice(offset, offset + chunkSize);
-        const arrayBuffer = await chunk.arrayBuffer();
+    let acceptListener: (() => void) | null = null;
+    const acceptPromise = new Promise<string[] | null>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        if (acceptListener) acceptListener();
+        reject(new Error('等待接收方确认超时（60秒）'));
+      }, 60000);
+
+      acceptListener = this.onMessage((message: DataMessage) => {
+        if (message.type === MessageType.ManifestAccept && message.manifestId === manifest.manifestId) {
+          clearTimeout(timeout);
+          acceptListener?.();
+          resolve(message.fileIds ?? manifest.entries.map((entry) => entry.fileId));
+        } else if (message.type === MessageType.ManifestReject && message.manifestId === manifest.manifestId) {
+          clearTimeout(timeout);
+          acceptListener?.();
+          resolve(null);
+        }
+      });
+    });
+
+    // 发送失败时立即返回；确认的等待随超时结束
+    const [fileIds] = await Promise.all([acceptPromise, this.sendJson(manifest)]);
+    return fileIds;
+  }
 
-        // 创建协议头部
-        const header = createPacketHeader(fileId, chunkIndex);
+  // 续传文件：询问接收方缺失的分片，只发送这些分片
+  // manifestId 为文件所属的清单，暂停或取消整个文件夹、批次时续传也随之暂停或终止
+  async resumeFile(
+    file: File,
+    fileId: string,
+    onProgress?: TransferProgress,
+    manifestId?: string
+  ): Promise<string> {
+    if (!this.isReady()) {
+      throw new Error('Data channel not connected');
+    }
 
-        // 合并头部和数据
-        const packet = new Uint8Array(HEADER_SIZE + arrayBuffer.byteLength);
-        packet.set(header, 0);
-        packet.set(new Uint8Array(arrayBuffer), HEADER_SIZE);
+    let ackListener: (() => void) | null = null;
+    const ackPromise = new Promise<ResumeAckMessage | null>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        if (ackListener) ackListener();
+        reject(new Error('等待续传确认超时（60秒）'));
+      }, 60000);
 
-        // 等待发送队列有空间（backpressure）
-        const MAX_BUFFER_SIZE = 16 * 1024 * 1024; // 16MB
-        while (this.dataChannel!.bufferedAmount > MAX_BUFFER_SIZE) {
-          await new Promise(resolve => setTimeout(resolve, 50));
+      ackListener = this.onMessage((message: DataMessage) => {
+        if (message.type === MessageType.ResumeAck && message.fileId === fileId) {
+          clearTimeout(timeout);
+          ackListener?.();
+          resolve(message);
+        } else if (message.type === MessageType.FileReject && message.fileId === fileId) {
+          clearTimeout(timeout);
+          ackListener?.();
+          resolve(null);
         }
+      });
+    });
+
+    const request: ResumeRequestMessage = {
+      type: MessageType.ResumeRequest,
+      fileId,
+    };
+    this.checkConnection();
+    const [ack] = await Promise.all([ackPromise, this.sendJson(request)]);
+    if (!ack) {
+      throw new Error(`${file.name} 续传被接收方拒绝`);
+    }
+
+    const transferIds = manifestId ? [fileId, manifestId] : [fileId];
+    await this.sendChunks(file, fileId, ack.chunkSize ?? CHUNK_SIZE, ack.missingRanges, onProgress, transferIds);
+
+    return fileId;
+  }
+
+  // 检查连接状态
+  private checkConnection() {
+    if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+      throw new Error(`Data channel not ready (state: ${this.dataChannel?.readyState})`);
+    }
+    if (!this.peerConnection || this.peerConnection.connectionState !== 'connected') {
+      throw new Error(`Peer connection not ready (state: ${this.peerConnection?.connectionState})`);
+    }
+  }
+
+  // 按区间分片发送文件内容，完成后发送结束标记
+  // transferIds 中任一项被暂停或取消时，发送循环随之暂停或终止
+  private async sendChunks(
+    file: File,
+    fileId: string,
+    chunkSize: number,
+    ranges: ChunkRange[],
+    onProgress?: TransferProgress,
+    transferIds: string[] = [fileId]
+  ): Promise<void> {
+    const fileSize = file.size;
+
+    // 续传时，区间之外的分片视为已送达
+    const pendingBytes = ranges.reduce(
+      (sum, [start, end]) => sum + Math.min(end * chunkSize, fileSize) - start * chunkSize,
+      0
+    );
+    let transferred = fileSize - pendingBytes;
+    let sentThisSession = 0;
+    const startTime = Date.now();
+
+    for (const [start, end] of ranges) {
+      for (let chunkIndex = start; chunkIndex < end; chunkIndex++) {
+        // 每次发送前检查暂停/取消和连接状态
+        await this.waitWhilePaused(fileId, transferIds);
+        this.checkConnection();
+
+        const offset = chunkIndex * chunkSize;
+        const chunk = file.slice(offset, offset + chunkSize);
+        const arrayBuffer = await chunk.arrayBuffer();
+
+        // 启用端到端加密时先加密分片；对方不支持 v1 帧时使用旧格式
+        const sessionKey = this.sessionKey;
+        const payload = sessionKey ? await encryptPayload(await sessionKey, arrayBuffer) : arrayBuffer;
+        const packet = encodeChunkFrame(
+          fileId,
+          chunkIndex,
+          payload,
+          !this.peerCapabilities.has('binary-framing'),
+          sessionKey !== null
+        );
+
+        // 选择缓冲未满的通道（backpressure）
+        const channel = await this.acquireChunkChannel();
+        this.checkConnection();
 
         try {
           // 发送完整的数据包
-          this.dataChannel.send(packet.buffer);
+          channel!.send(packet);
         } catch (sendError: any) {
           // 检查错误类型
           if (sendError.name === 'InvalidStateError') {
-            throw new Error(`连接已断开，无法发送数据 (DataChannel状态: ${this.dataChannel?.readyState})`);
+            throw new Error(`连接已断开，无法发送数据 (DataChannel状态: ${channel?.readyState})`);
           }
 
           throw sendError;
         }
 
-        offset += chunkSize;
-        chunkIndex++;
+        transferred += arrayBuffer.byteLength;
+        sentThisSession += arrayBuffer.byteLength;
 
         // 计算进度
         if (onProgress) {
-          const transferred = offset;
           const elapsed = (Date.now() - startTime) / 1000;
-          const speed = elapsed > 0 ? transferred / elapsed : 0;
+          const speed = elapsed > 0 ? sentThisSession / elapsed : 0;
           onProgress(transferred, fileSize, speed);
         }
-
-        // 根据缓冲区大小动态调整延迟
-        const bufferSize = this.dataChannel!.bufferedAmount;
-        const delay = bufferSize > 1024 * 1024 ? 10 : 0; // 缓冲区>1MB时延迟10ms
-        if (delay > 0) {
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
       }
+    }
 
-      // 发送结束标记
-      checkConnection();
-      const endMessage: FileEnd = {
-        type: MessageType.End,
-        fileId,
-      };
-
-      this.dataChannel.send(JSON.stringify(endMessage));
+    // 发送结束标记
+    this.checkConnection();
+    const endMessage: FileEnd = {
+      type: MessageType.End,
+      fileId,
+    };
 
-      return fileId;
-    } catch (error) {
-      throw error;
-    }
+    await this.sendJson(endMessage);
   }
 
   // 接收文件
+  // 分片按位置写入 sink，已收到的分片登记在 transferResumeRegistry 中，连接中断后可在新连接上续传
   receiveFile(
     fileId: string,
     onProgress?: TransferProgress,
-    initialMetadata?: FileMetadata
-  ): Promise<{ file: File; metadata: FileMetadata }> {
+    initialMetadata?: FileMetadata,
+    sink?: FileSink
+  ): Promise<ReceivedFile> {
     return new Promise((resolve, reject) => {
       let metadata: FileMetadata | null = initialMetadata || null;
-      let chunks: ArrayBuffer[] = [];
-      let receivedSize = 0;
+      let sessionBytes = 0;
       const startTime = Date.now();
+      // 逐片校验是异步的，结束前需等待全部完成
+      const pendingChecks: Promise<void>[] = [];
+      let corruptedChunks = 0;
+
+      // 可用于暂停/取消本次接收的 ID
+      const transferIds = [fileId];
+      if (metadata?.manifestId) {
+        transferIds.push(metadata.manifestId);
+      }
+
+      // 结束标记经控制通道发送，可能早于批量通道上最后几个分片到达；
+      // 此时等待分片补齐，超过 END_GRACE_PERIOD 仍不完整则按缺失处理
+      let endReceived = false;
+      let graceTimer: ReturnType<typeof setTimeout> | undefined;
+
+      const finish = (completed: FileMetadata) => {
+        cleanup();
+        this.finishReceive(completed, pendingChecks, () => corruptedChunks).then(resolve, reject);
+      };
+
+      const finishIfComplete = (completed: FileMetadata) => {
+        if (transferResumeRegistry.getMissingRanges(fileId, completed.chunks).length === 0) {
+          finish(completed);
+          return true;
+        }
+        return false;
+      };
+
+      const cleanup = () => {
+        clearTimeout(timeout);
+        clearTimeout(graceTimer);
+        this.messageListeners.delete(listener);
+        this.closeListeners.delete(onClose);
+        transferIds.forEach((id) => {
+          if (this.cancelHandlers.get(id) === onCancel) {
+            this.cancelHandlers.delete(id);
+          }
+        });
+      };
 
       const listener = (message: DataMessage) => {
         // 对于 Metadata 和 End，检查 fileId
@@ -665,111 +1369,183 @@ export class P2PConnection {
 
         switch (message.type) {
           case MessageType.Metadata:
-            if (message.fileId === fileId) {
-              metadata = message;
-              chunks = [];
-              receivedSize = 0;
-            }
+            // 重新发送的元数据意味着从头开始传输
+            metadata = message;
+            transferResumeRegistry.resetPartial(message);
             break;
 
           case MessageType.Chunk:
-            if (metadata && message.fileId === fileId) {
-              chunks.push(message.data);
-              receivedSize += message.data.byteLength;
+            if (metadata) {
+              const partial = transferResumeRegistry.getOrCreatePartial(metadata);
+              const expectedHash = metadata.chunkHashes?.[message.chunkIndex];
+              if (!partial.received.has(message.chunkIndex)) {
+                partial.received.add(message.chunkIndex);
+                partial.receivedSize += message.data.byteLength;
+                sessionBytes += message.data.byteLength;
+                partial.sink
+                  .write(message.chunkIndex * (metadata.chunkSize ?? CHUNK_SIZE), message.data)
+                  .catch(onWriteError);
+
+                if (expectedHash) {
+                  const { chunkIndex, data } = message;
+                  pendingChecks.push(sha256Hex(data).then((actual) => {
+                    if (actual !== expectedHash) {
+                      partial.received.delete(chunkIndex);
+                      partial.receivedSize -= data.byteLength;
+                      corruptedChunks++;
+                    }
+                  }));
+                }
+              }
 
               // 更新进度
               if (onProgress) {
                 const elapsed = (Date.now() - startTime) / 1000;
-                const speed = elapsed > 0 ? receivedSize / elapsed : 0;
-                onProgress(receivedSize, metadata.size, speed);
+                const speed = elapsed > 0 ? sessionBytes / elapsed : 0;
+                onProgress(partial.receivedSize, metadata.size, speed);
+              }
+
+              if (endReceived) {
+                finishIfComplete(metadata);
               }
-            } else if (message.fileId === fileId) {
             }
             break;
 
           case MessageType.End:
-            if (metadata && message.fileId === fileId) {
-              // 组装文件
-              const blob = new Blob(chunks, { type: metadata.fileType });
-              const file = new File([blob], metadata.name, {
-                type: metadata.fileType,
-              });
-
-  
-              // 移除监听器
-              this.messageListeners.delete(listener);
-              resolve({ file, metadata });
+            if (metadata && !endReceived) {
+              endReceived = true;
+              const completed = metadata;
+              if (!finishIfComplete(completed)) {
+                graceTimer = setTimeout(() => finish(completed), END_GRACE_PERIOD);
+              }
             }
             break;
         }
       };
 
+      // 通道关闭时立即中断，已收到的分片保留在登记表中
+      const onClose = () => {
+        cleanup();
+        reject(new TransferInterruptedError(fileId));
+      };
+
+      // 写入失败（如磁盘已满、权限被撤销）时立即终止，并通知发送方停止发送
+      const onWriteError = (error: unknown) => {
+        // 已结束（完成、中断或取消）的接收不再处理，完成时的错误由 close() 抛出
+        if (!this.messageListeners.has(listener)) return;
+        console.error('写入文件失败:', error);
+        cleanup();
+        this.cancelTransfer(fileId);
+        transferResumeRegistry.removePartial(fileId);
+        reject(error);
+      };
+
+      // 被本方或对方取消时放弃已收到的分片
+      const onCancel = () => {
+        cleanup();
+        transferResumeRegistry.removePartial(fileId);
+        reject(new TransferCancelledError(fileId));
+      };
+
+      if (metadata) {
+        transferResumeRegistry.getOrCreatePartial(metadata, sink);
+      }
+
       // 添加监听器
       this.messageListeners.add(listener);
+      this.closeListeners.add(onClose);
+      transferIds.forEach((id) => this.cancelHandlers.set(id, onCancel));
+
+      // 超时处理（到期时若处于暂停状态则重新计时）
+      let timeout: ReturnType<typeof setTimeout>;
+      const armTimeout = () => {
+        timeout = setTimeout(() => {
+          if (this.isTransferPaused(...transferIds)) {
+            armTimeout();
+            return;
+          }
+          cleanup();
+          reject(new Error('File transfer timeout'));
+        }, 300000); // 5 分钟超时
+      };
+      armTimeout();
 
-      // 超时处理
-      setTimeout(() => {
-        this.messageListeners.delete(listener);
-        reject(new Error('File transfer timeout'));
-      }, 300000); // 5 分钟超时
+      if (this.isTransferCancelled(...transferIds)) {
+        onCancel();
+      }
     });
   }
 
+  // 校验并组装接收完成的文件
+  private async finishReceive(
+    metadata: FileMetadata,
+    pendingChecks: Promise<void>[],
+    getCorruptedChunks: () => number
+  ): Promise<ReceivedFile> {
+    const { fileId } = metadata;
+    await Promise.all(pendingChecks);
+
+    const corrupted = getCorruptedChunks();
+    if (corrupted > 0) {
+      throw new FileIntegrityError(fileId, `${corrupted} 个分片校验失败`);
+    }
+
+    const missing = transferResumeRegistry.getMissingRanges(fileId, metadata.chunks);
+    if (missing.length > 0) {
+      throw new FileIntegrityError(fileId, `文件不完整，缺少 ${missing.length} 段分片`);
+    }
+
+    // 完成写入，取得完整文件（内存 Sink 在此按位置组装）
+    const { sink } = transferResumeRegistry.getOrCreatePartial(metadata);
+    const file = await sink.close();
+    transferResumeRegistry.removePartial(fileId);
+
+    let verified = false;
+    if (metadata.sha256) {
+      const { sha256 } = await computeFileDigest(file);
+      if (sha256 !== metadata.sha256) {
+        await sink.discard().catch((error) => console.warn('删除校验失败的文件失败:', error));
+        throw new FileIntegrityError(fileId, 'SHA-256 校验失败，文件内容与发送方不一致');
+      }
+      verified = true;
+    }
+
+    return { file, metadata, verified, sink };
+  }
+
   // 发送文字
-  sendText(content: string): string {
+  async sendText(content: string): Promise<string> {
     if (!this.isReady()) {
       throw new Error('Data channel not connected');
     }
 
-    try {
-      const messageId = Math.random().toString(36).substring(7);
-      const message: TextMessage = {
-        type: MessageType.Text,
-        messageId,
-        content: content,
-        timestamp: Date.now(),
-      };
+    const messageId = Math.random().toString(36).substring(7);
+    const message: TextMessage = {
+      type: MessageType.Text,
+      messageId,
+      content: content,
+      timestamp: Date.now(),
+    };
 
-      this.dataChannel.send(JSON.stringify(message));
+    await this.sendJson(message);
 
-      return messageId;
-    } catch (error: any) {
-      if (error.name === 'InvalidStateError') {
-        throw new Error(`连接已断开 (DataChannel状态: ${this.dataChannel?.readyState})`);
-      }
-      throw error;
-    }
+    return messageId;
   }
 
   // 发送自定义消息 (如握手)
-  sendCustomMessage(message: any) {
+  async sendCustomMessage(message: any): Promise<void> {
     if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
       throw new Error('Data channel not connected');
     }
-    try {
-      this.dataChannel.send(JSON.stringify(message));
-    } catch (error: any) {
-      if (error.name === 'InvalidStateError') {
-        throw new Error(`连接已断开 (DataChannel状态: ${this.dataChannel?.readyState})`);
-      }
-      throw error;
-    }
+    await this.sendJson(message);
   }
 
   // 发送消息（通用方法）
-  sendMessage(message: DataMessage): void {
+  async sendMessage(message: DataMessage): Promise<void> {
     if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
       throw new Error('Data channel not connected');
     }
-
-    try {
-      this.dataChannel.send(JSON.stringify(message));
-    } catch (error: any) {
-      if (error.name === 'InvalidStateError') {
-        throw new Error(`连接已断开 (DataChannel状态: ${this.dataChannel?.readyState})`);
-      }
-      throw error;
-    }
+    await this.sendJson(message);
   }
 
   // 设置回调函数
@@ -791,6 +1567,9 @@ export class P2PConnection {
 
   // 关闭连接
   close() {
+    this.bulkChannels.forEach((channel) => channel.close());
+    this.bulkChannels = [];
+
     if (this.dataChannel) {
       this.dataChannel.close();
       this.dataChannel = null;
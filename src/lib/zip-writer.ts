@@ -0,0 +1,126 @@
+/**
+ * 简易 ZIP 打包器（仅存储，不压缩）
+ * 用于浏览器不支持目录写入时，把接收到的文件夹打包成一个 ZIP 下载。
+ * 文件内容以 Blob 引用的方式拼接，不会复制到内存中；
+ * 不支持 ZIP64，总大小需小于 4GB。
+ */
+
+const ZIP_SIZE_LIMIT = 0xffffffff;
+
+// CRC32 查找表
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// 分段读取 Blob 计算 CRC32
+async function crc32(blob: Blob): Promise<number> {
+  const SEGMENT = 4 * 1024 * 1024;
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < blob.size; offset += SEGMENT) {
+    const bytes = new Uint8Array(await blob.slice(offset, offset + SEGMENT).arrayBuffer());
+    for (let i = 0; i < bytes.length; i++) {
+      crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// DOS 格式的日期和时间
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface ZipEntry {
+  name: Uint8Array<ArrayBuffer>;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+export class ZipWriter {
+  private parts: BlobPart[] = [];
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private readonly stamp = dosDateTime(new Date());
+
+  /**
+   * 添加文件
+   * @param path ZIP 内的相对路径（使用 / 分隔）
+   * @param data 文件内容
+   */
+  async add(path: string, data: Blob): Promise<void> {
+    if (this.offset + data.size > ZIP_SIZE_LIMIT) {
+      throw new Error('ZIP 文件超过 4GB，请选择支持目录保存的浏览器');
+    }
+
+    const name = new TextEncoder().encode(path);
+    const crc = await crc32(data);
+
+    // 本地文件头 (30 bytes + 文件名)
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true); // 所需版本
+    header.setUint16(6, 0x0800, true); // UTF-8 文件名
+    header.setUint16(8, 0, true); // 存储（不压缩）
+    header.setUint16(10, this.stamp.time, true);
+    header.setUint16(12, this.stamp.date, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, data.size, true);
+    header.setUint32(22, data.size, true);
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, 0, true);
+
+    this.entries.push({ name, crc, size: data.size, offset: this.offset });
+    this.parts.push(header.buffer, name, data);
+    this.offset += 30 + name.length + data.size;
+  }
+
+  /**
+   * 写入中央目录并生成 ZIP
+   */
+  finish(): Blob {
+    const centralStart = this.offset;
+    let centralSize = 0;
+
+    for (const entry of this.entries) {
+      // 中央目录记录 (46 bytes + 文件名)
+      const record = new DataView(new ArrayBuffer(46));
+      record.setUint32(0, 0x02014b50, true);
+      record.setUint16(4, 20, true); // 创建版本
+      record.setUint16(6, 20, true); // 所需版本
+      record.setUint16(8, 0x0800, true);
+      record.setUint16(10, 0, true);
+      record.setUint16(12, this.stamp.time, true);
+      record.setUint16(14, this.stamp.date, true);
+      record.setUint32(16, entry.crc, true);
+      record.setUint32(20, entry.size, true);
+      record.setUint32(24, entry.size, true);
+      record.setUint16(28, entry.name.length, true);
+      record.setUint32(42, entry.offset, true);
+      this.parts.push(record.buffer, entry.name);
+      centralSize += 46 + entry.name.length;
+    }
+
+    // 中央目录结束记录 (22 bytes)
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, centralStart, true);
+    this.parts.push(end.buffer);
+
+    return new Blob(this.parts, { type: 'application/zip' });
+  }
+}
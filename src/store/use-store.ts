@@ -2,9 +2,13 @@ import { create } from 'zustand';
 import { DeviceInfo } from '../lib/device-manager';
 import { P2PConnection } from '../lib/webrtc';
 import { getDefaultDeviceName } from '../lib/device-detector';
+import type { IdentityStatus } from '../lib/device-identity';
+import type { AutoAcceptRule } from '../lib/auto-accept';
+import type { IceSettings } from '../lib/ice-config';
+import type { ConnectionState } from '../lib/hybrid-connection-manager';
 
 // 传输任务状态
-export type TransferStatus = 'pending' | 'transferring' | 'completed' | 'failed' | 'cancelled';
+export type TransferStatus = 'pending' | 'transferring' | 'paused' | 'completed' | 'failed' | 'cancelled';
 
 // 文件信息
 export interface FileInfo {
@@ -41,6 +45,9 @@ export interface HistoryItem {
   direction: 'sent' | 'received';
   fileName?: string;
   fileSize?: number;
+  fileCount?: number; // 文件夹中的文件数
+  integrity?: 'verified' | 'failed' | 'unverified'; // 接收文件的 SHA-256 校验结果
+  autoAccepted?: string; // 按自动接收规则接收时，记录匹配的规则
   text?: string;
 }
 
@@ -60,6 +67,10 @@ export interface Settings {
   theme: 'light' | 'dark' | 'system';
   soundEnabled: boolean;
   notificationsEnabled: boolean;
+  maxConcurrentTransfers: number; // 每个设备同时发送的文件数
+  autoAcceptRules: AutoAcceptRule[]; // 受信任设备的自动接收规则
+  signalingUrl: string; // 信令服务器地址，为空时只能手动连接
+  iceSettings: IceSettings; // ICE 服务器（STUN/TURN）配置
 }
 
 interface StoreState {
@@ -67,6 +78,10 @@ interface StoreState {
   myDevice: DeviceInfo | null;
   devices: DeviceInfo[];
   isConnected: boolean;
+  // 已连接设备的身份验证结果
+  identityStatus: Record<string, IdentityStatus>;
+  // 各设备的连接状态（如断线重连中）
+  connectionStatus: Record<string, ConnectionState['status']>;
 
   // 传输任务
   transfers: TransferTask[];
@@ -89,6 +104,8 @@ interface StoreState {
   addDevice: (device: DeviceInfo) => void;
   removeDevice: (deviceId: string) => void;
   setIsConnected: (connected: boolean) => void;
+  setIdentityStatus: (deviceId: string, status: IdentityStatus) => void;
+  setConnectionStatus: (deviceId: string, status: ConnectionState['status']) => void;
 
   // 传输任务操作
   addTransfer: (transfer: TransferTask) => void;
@@ -104,7 +121,6 @@ interface StoreState {
   addConnectionHistory: (device: DeviceInfo, connectionType?: 'lan' | 'wan' | 'unknown', latency?: number) => void;
   removeConnectionHistory: (deviceId: string) => void;
   clearConnectionHistory: () => void;
-  quickReconnect: (deviceId: string) => Promise<boolean>;
 
   // 设置操作
   updateSettings: (settings: Partial<Settings>) => void;
@@ -121,6 +137,8 @@ export const useStore = create<StoreState>((set, get) => ({
   myDevice: null,
   devices: [],
   isConnected: false,
+  identityStatus: {},
+  connectionStatus: {},
   transfers: [],
   history: [],
   connectionHistory: [],
@@ -129,6 +147,10 @@ export const useStore = create<StoreState>((set, get) => ({
     theme: 'system',
     soundEnabled: false,
     notificationsEnabled: false,
+    maxConcurrentTransfers: 3,
+    autoAcceptRules: [],
+    signalingUrl: '',
+    iceSettings: { mode: 'default', servers: [] },
   },
   selectedDevice: null,
 
@@ -144,6 +166,14 @@ export const useStore = create<StoreState>((set, get) => ({
       devices: state.devices.filter((d) => d.deviceId !== deviceId),
     })),
   setIsConnected: (connected) => set({ isConnected: connected }),
+  setIdentityStatus: (deviceId, status) =>
+    set((state) => ({
+      identityStatus: { ...state.identityStatus, [deviceId]: status },
+    })),
+  setConnectionStatus: (deviceId, status) =>
+    set((state) => ({
+      connectionStatus: { ...state.connectionStatus, [deviceId]: status },
+    })),
 
   // 传输任务操作
   addTransfer: (transfer) =>
@@ -232,28 +262,9 @@ export const useStore = create<StoreState>((set, get) => ({
       return { connectionHistory: newHistory };
     }),
   clearConnectionHistory: () => {
-    const empty = [];
+    const empty: ConnectionHistoryItem[] = [];
     localStorage.setItem('xtrans-connection-history', JSON.stringify(empty));
-    return { connectionHistory: empty };
-  },
-  quickReconnect: async (deviceId) => {
-    // 从历史记录中查找设备
-    const historyItem = get().connectionHistory.find(
-      (h) => h.deviceId === deviceId
-    );
-
-    if (!historyItem) {
-      return false;
-    }
-
-    // 触发重连事件，由 App 组件监听并处理
-    window.dispatchEvent(
-      new CustomEvent('quick-reconnect', {
-        detail: { deviceId, deviceName: historyItem.deviceName },
-      })
-    );
-
-    return true;
+    set({ connectionHistory: empty });
   },
 
   // 设置操作